@@ -44,6 +44,15 @@ export class OpenAICompatibleApi implements ICredentialType {
 				'Base URL for the API. Examples: https://api.openai.com/v1, https://openrouter.ai/api/v1, https://api.together.xyz/v1, https://api.groq.com/openai/v1',
 			placeholder: 'https://api.openai.com/v1',
 		},
+		{
+			displayName: 'Model Pricing',
+			name: 'modelPricing',
+			type: 'json',
+			default: '',
+			description:
+				'Optional price overrides in USD per 1M tokens, keyed by model name (partial match, longest wins). Used for cost reporting.',
+			placeholder: '{ "gpt-4o-mini": { "input": 0.15, "output": 0.6 } }',
+		},
 	];
 
 	// Test credential validity by fetching models list
@@ -21,28 +21,115 @@ import { NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
 
 // Import new stages
 import { acquireContent, cleanupAcquisition, type AcquiredContent } from './stages/acquire';
-import { tryNonLlmExtraction, formatExtractionAsText, type ExtractionAttempt } from './stages/extract';
+import {
+	tryNonLlmExtraction,
+	formatExtractionAsText,
+	shapeExtractionData,
+	type ExtractionAttempt,
+} from './stages/extract';
+
+// Import operations
+import { executeScreenshot } from './operations/screenshot';
+import { executeDownloadAssets } from './operations/downloadAssets';
+import { executeRunScript } from './operations/runScript';
+import { executeLogin } from './operations/login';
+import {
+	crawlAndExtract,
+	crawlContactPages,
+	type ContactCrawlAttempt,
+	type CrawlAttempt,
+} from './operations/crawl';
 
 // Import agent
 import { executeAgent, type AgentResult } from './agent/executor';
 
 // Import utilities
-import type { OpenAIConfig } from './utils/types';
+import { inferOperation, getFallbackOperations } from './utils/taskIntent';
+import {
+	addBudgetUsage,
+	checkBudget,
+	formatCost,
+	getTotalCost,
+	parseModelPricing,
+	summarizeUsage,
+	type BudgetLimits,
+	type LlmBudget,
+	type LlmCallUsage,
+	type UsageSummary,
+} from './utils/cost';
+import {
+	parseOutputSchema,
+	validateAgainstSchema,
+	type JsonSchema,
+	type SchemaValidationResult,
+} from './utils/schema';
+import { createKeyedLimiter, getDomainKey, mapWithConcurrency } from './utils/concurrency';
+import { extractMainContent } from './utils/readability';
+import { getCacheDirectory } from './utils/cache';
+import { tableToCsv } from './utils/tables';
+import { createProxyPool, type ProxyPool } from './utils/proxy';
+import { createRequestSession, type RequestSession } from './utils/session';
+import { DEFAULT_CONCURRENCY, DEFAULT_CONCURRENCY_PER_DOMAIN, MAX_CONCURRENCY } from './utils/config';
+import type {
+	BinaryData,
+	BlockReason,
+	CacheOptions,
+	ContentKind,
+	CrawlEmailData,
+	DocumentContent,
+	DownloadAssetsData,
+	DownloadAssetsOptions,
+	EmailAddress,
+	ExtractedTable,
+	MethodAttempt,
+	OpenAIConfig,
+	OpeningHours,
+	OutputFormat,
+	PhoneNumber,
+	PolitenessOptions,
+	PostalAddress,
+	ProcessUrlContext,
+	ProxyConfig,
+	PuppeteerOptions,
+	RunScriptOptions,
+	ScreenshotData,
+	ScreenshotOptions,
+	ScriptError,
+	StructuredData,
+	ToolCallingMode,
+	WebAccessOperation,
+} from './utils/types';
 
 /**
  * Output structure for the node.
  */
 interface WebAccessOutput {
 	url: string;
+	operation?: WebAccessOperation;
 	task: string;
 	success: boolean;
 	data: {
 		text: string;
 		sources?: string[];
+		screenshot?: ScreenshotData;
+		assets?: DownloadAssetsData;
+		result?: unknown;
+		document?: DocumentContent;
+		content?: string;
+		structuredData?: StructuredData;
+		tables?: ExtractedTable[];
+		emails?: EmailAddress[];
+		phones?: PhoneNumber[];
+		addresses?: PostalAddress[];
+		openingHours?: OpeningHours[];
+		contacts?: CrawlEmailData;
 	};
 	meta: {
 		usedLlm: boolean;
 		scrapeMethod?: string;
+		contentKind?: ContentKind;
+		cacheHit?: boolean;
+		proxy?: string;
 		iterations?: number;
 		llmCalls?: number;
 		estimatedCost?: string;
@@ -50,9 +137,95 @@ interface WebAccessOutput {
 			tried: string[];
 			reason: string;
 		};
-		methodsTried?: Array<{ method: string; success: boolean; error?: string }>;
+		methodsTried?: MethodAttempt[];
+		blockReason?: BlockReason;
+		pagesChecked?: number;
+		pagesWithData?: number;
+		detectedOperation?: WebAccessOperation;
+		originalOperation?: WebAccessOperation;
+		fallbackOperation?: WebAccessOperation;
+		operationReason?: string;
+		operationDetectionCost?: string;
+		schemaValidation?: SchemaValidationResult;
+		toolCalling?: 'native' | 'react';
+		usage?: UsageSummary;
+		budgetExceeded?: boolean;
+		budgetReason?: string;
 	};
 	error?: string;
+	scriptError?: ScriptError;
+}
+
+/**
+ * Operation chosen for an item, and why.
+ */
+interface OperationSelection {
+	operation: WebAccessOperation;
+	detectedOperation?: WebAccessOperation;
+	reason: string;
+	/** Whether a failed result may be retried with fallback operations */
+	allowFallback: boolean;
+	/** Estimated cost of LLM-based operation detection, if used */
+	detectionCost?: string;
+	/** Usage of LLM-based operation detection calls */
+	detectionUsage: LlmCallUsage[];
+}
+
+/**
+ * Parameters of one input item, shared by the jobs for its URLs.
+ */
+interface ItemPlan {
+	task: string;
+	operationParam: 'auto' | WebAccessOperation;
+	operationOptions: OperationOptions;
+	maxCrawlPages?: number;
+	maxContactPages?: number;
+	outputSchema?: JsonSchema;
+	outputFormat?: OutputFormat;
+	/** LLM budget for the item */
+	budget: LlmBudget;
+	/** Operation selection, started by the item's first job */
+	selection?: Promise<OperationSelection>;
+}
+
+/**
+ * One URL of an input item, queued for processing.
+ */
+interface UrlJob {
+	itemIndex: number;
+	url: string;
+	plan: ItemPlan;
+	/** Whether this is the item's first URL, which reports the item's operation detection usage */
+	reportsDetection: boolean;
+}
+
+/**
+ * Operation-specific options read from the node parameters.
+ */
+interface OperationOptions {
+	customScript: string;
+	scriptOptions: RunScriptOptions;
+	screenshotOptions: ScreenshotOptions & { binaryPropertyName?: string };
+	downloadOptions: DownloadAssetsOptions;
+	tableOptions: TableOptions;
+}
+
+/**
+ * Table output options read from the node parameters.
+ */
+interface TableOptions {
+	/** Whether to return each table as a CSV file */
+	attachCsv?: boolean;
+	/** Prefix of the binary properties for the CSV files */
+	binaryPropertyName?: string;
+}
+
+/**
+ * Result of processing a single URL: JSON output plus any binary files.
+ */
+interface ProcessedUrl {
+	json: WebAccessOutput;
+	binary?: Record<string, BinaryData>;
 }
 
 export class WebAccess implements INodeType {
@@ -128,7 +301,13 @@ EXAMPLES:
 - "What services do they offer?" → Analyzes and summarizes content
 - "Extract the main article text" → Gets readable text content
 
-RETURNS: { text: "result", sources: ["urls"] } with the answer to your task.`,
+- "Take a full page screenshot" → Returns the page as a PNG/JPEG/WebP image
+- "Download all PDFs" → Returns linked files as binary data or a zip
+- Custom Script set → Runs the script on the page and returns its value in data.result
+
+Set Operation to Auto to infer what to do from the task, or pick one explicitly.
+
+RETURNS: { text: "result", sources: ["urls"] } with the answer to your task. Screenshots and downloaded assets are returned as binary data.`,
 		defaults: {
 			name: 'Web Access',
 		},
@@ -151,6 +330,69 @@ RETURNS: { text: "result", sources: ["urls"] } with the answer to your task.`,
 			},
 		],
 		properties: [
+			{
+				displayName: 'Resource',
+				name: 'resource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Web Page',
+						value: 'webPage',
+					},
+				],
+				default: 'webPage',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['webPage'],
+					},
+				},
+				options: [
+					{
+						name: 'Auto',
+						value: 'auto',
+						description: 'Infer the operation from the task, with fallbacks if it fails',
+						action: 'Infer the operation from the task',
+					},
+					{
+						name: 'Crawl',
+						value: 'crawl',
+						description: 'Find information across multiple pages of the site',
+						action: 'Crawl the site',
+					},
+					{
+						name: 'Download Assets',
+						value: 'downloadAssets',
+						description: 'Download linked PDFs, images or CSVs',
+						action: 'Download assets',
+					},
+					{
+						name: 'Fetch Content',
+						value: 'fetchContent',
+						description: 'Extract text or data from a single page',
+						action: 'Fetch page content',
+					},
+					{
+						name: 'Run Script',
+						value: 'runScript',
+						description: 'Run a custom script in the page',
+						action: 'Run a script on the page',
+					},
+					{
+						name: 'Screenshot',
+						value: 'screenshot',
+						description: 'Capture the page as an image',
+						action: 'Take a screenshot',
+					},
+				],
+				default: 'auto',
+			},
 			{
 				displayName: 'URLs',
 				name: 'urls',
@@ -174,6 +416,77 @@ RETURNS: { text: "result", sources: ["urls"] } with the answer to your task.`,
 				description: 'Describe the task in natural language. The tool understands intent and extracts relevant data. Examples: "Find contact email", "Research this company in detail", "List all products with prices", "What does this company do?", "Extract the article content".',
 				placeholder: 'e.g., "Find the contact email address" or "Tell me about this company"',
 			},
+			{
+				displayName: 'Output Schema',
+				name: 'outputSchema',
+				type: 'json',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['auto', 'fetchContent', 'crawl'],
+					},
+				},
+				description: 'Optional JSON Schema for a structured result. When set, data.result is shaped to this schema and validated; validation errors are reported in meta.schemaValidation.',
+				placeholder: '{ "type": "object", "properties": { "email": { "type": "string" } } }',
+			},
+			{
+				displayName: 'Output Format',
+				name: 'outputFormat',
+				type: 'options',
+				options: [
+					{
+						name: 'HTML',
+						value: 'html',
+						description: 'Also return the main content of the page as cleaned HTML in data.content',
+					},
+					{
+						name: 'Markdown',
+						value: 'markdown',
+						description: 'Also return the main content of the page as Markdown in data.content',
+					},
+					{
+						name: 'Text',
+						value: 'text',
+						description: 'Return only the extracted text',
+					},
+				],
+				default: 'text',
+				displayOptions: {
+					show: {
+						operation: ['auto', 'fetchContent', 'crawl'],
+					},
+				},
+				description: 'Format of the page content returned with the result. Navigation, footers, cookie banners and other boilerplate are removed from Markdown and HTML.',
+			},
+			{
+				displayName: 'Table Options',
+				name: 'tableOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['auto', 'fetchContent', 'crawl'],
+					},
+				},
+				description: 'Options for tables extracted by table tasks (e.g. "get the pricing table"). Tables are always returned as rows in data.tables.',
+				options: [
+					{
+						displayName: 'Attach CSV',
+						name: 'attachCsv',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to also return each table as a CSV file in binary data',
+					},
+					{
+						displayName: 'Binary Property',
+						name: 'binaryPropertyName',
+						type: 'string',
+						default: 'table',
+						description: 'Prefix of the binary properties to write the CSV files to; files are numbered (table_0, table_1, ...)',
+					},
+				],
+			},
 			{
 				displayName: 'LLM Provider',
 				name: 'aiProvider',
@@ -223,216 +536,1462 @@ RETURNS: { text: "result", sources: ["urls"] } with the answer to your task.`,
 				],
 				description: 'The model to use for LLM tasks',
 			},
-		],
-	};
-
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnItems: INodeExecutionData[] = [];
-
-		// Read credentials
-		const webAccessCredentials = await this.getCredentials('webAccessApi');
-		const crawl4aiBaseUrl = (webAccessCredentials.crawl4aiBaseUrl as string) || '';
-		const flareSolverrUrl = (webAccessCredentials.flareSolverrUrl as string) || undefined;
-
-		// Read AI provider setting
-		const aiProvider = this.getNodeParameter('aiProvider', 0) as string;
-		const llmEnabled = aiProvider === 'openai-compatible';
-
-		// Get AI model
-		let aiModel: string | undefined;
-		let openAiConfig: OpenAIConfig | undefined;
-
-		if (llmEnabled) {
-			const aiModelParam = this.getNodeParameter('aiModel', 0) as string | { value: string };
-			aiModel = typeof aiModelParam === 'string' ? aiModelParam : aiModelParam?.value;
-
-			try {
-				const credentials = await this.getCredentials('openAICompatibleApi');
-				openAiConfig = {
-					apiKey: credentials.apiKey as string,
-					baseUrl: (credentials.baseUrl as string) || 'https://api.openai.com/v1',
-				};
-			} catch (error) {
-				throw new NodeOperationError(
-					this.getNode(),
-					`Failed to load OpenAI-Compatible API credentials: ${error instanceof Error ? error.message : 'Unknown error'}`,
-				);
-			}
-		}
-
-		try {
-			for (let i = 0; i < items.length; i++) {
-				const task = this.getNodeParameter('task', i) as string;
-				const urlsParam = this.getNodeParameter('urls', i) as string | string[];
-				const urls = Array.isArray(urlsParam) ? urlsParam : [urlsParam];
-
-				for (const url of urls) {
-					if (!url || !url.trim()) continue;
-
-					try {
-						const result = await processUrl(
-							url.trim(),
-							task,
-							llmEnabled,
-							openAiConfig,
-							aiModel,
-							flareSolverrUrl,
-							crawl4aiBaseUrl,
-						);
-
-						returnItems.push({
-							json: result as unknown as IDataObject,
-						});
-					} catch (error) {
-						if (this.continueOnFail()) {
-							returnItems.push({
-								json: {
-									url,
-									task,
-									success: false,
-									data: { text: '' },
-									meta: { usedLlm: false },
-									error: error instanceof Error ? error.message : 'Unknown error',
-								},
-							});
-						} else {
-							throw new NodeOperationError(this.getNode(), error as Error, {
-								itemIndex: i,
-							});
-						}
-					}
-				}
-			}
-		} finally {
-			await cleanupAcquisition();
-		}
-
-		return [returnItems];
-	}
-
-}
-
-/**
- * Process a single URL with the 3-stage architecture.
- * 
- * @param {string} url - URL to process
- * @param {string} task - Task to perform
- * @param {boolean} llmEnabled - Whether LLM is enabled
- * @param {OpenAIConfig} [openAiConfig] - OpenAI config
- * @param {string} [aiModel] - AI model name
- * @param {string} [flareSolverrUrl] - FlareSolverr URL
- * @param {string} [crawl4aiBaseUrl] - Crawl4AI URL
- * @returns {Promise<WebAccessOutput>} Result
- */
-async function processUrl(
-	url: string,
-	task: string,
-	llmEnabled: boolean,
-	openAiConfig?: OpenAIConfig,
-	aiModel?: string,
-	flareSolverrUrl?: string,
-	crawl4aiBaseUrl?: string,
-): Promise<WebAccessOutput> {
-		// ========================================
-		// STAGE 1: Content Acquisition
-		// ========================================
-		const content: AcquiredContent = await acquireContent(url, {
-			flareSolverrUrl,
-		});
-
-	if (!content.success) {
-		return {
-			url,
-			task,
-			success: false,
-			data: { text: '' },
-			meta: {
-				usedLlm: false,
-				scrapeMethod: content.method,
-				methodsTried: content.methodsTried,
-			},
-			error: content.error || 'Failed to acquire content',
-		};
-	}
-
-		// ========================================
-		// STAGE 2: Non-LLM Extraction
-		// ========================================
-		const extraction: ExtractionAttempt = tryNonLlmExtraction(content, task);
-
-		// If non-LLM succeeded, return result
-		if (extraction.success && extraction.data) {
-			const text = formatExtractionAsText(extraction.data);
-			return {
-				url,
-				task,
-				success: true,
-				data: {
-					text,
-					sources: [url],
-				},
-				meta: {
-					usedLlm: false,
-					scrapeMethod: content.method,
-					nonLlmAttempt: {
-						tried: extraction.whatWasTried,
-						reason: extraction.reason,
+			{
+				displayName: 'Tool Calling',
+				name: 'toolCalling',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						aiProvider: ['openai-compatible'],
 					},
 				},
-			};
-		}
-
-		// ========================================
-		// STAGE 3: Agentic LLM (if enabled)
-		// ========================================
-		if (llmEnabled && openAiConfig && aiModel) {
-			const agentResult: AgentResult = await executeAgent(
-				task,
-				content,
-				extraction,
-				openAiConfig,
-				aiModel,
-				{
-					maxIterations: 5,
-					flareSolverrUrl,
-					crawl4aiBaseUrl,
-				},
-			);
-
-			if (agentResult.success) {
-				return {
-					url,
-					task,
-					success: true,
-					data: {
-						text: agentResult.text,
-						sources: agentResult.sources,
+				options: [
+					{
+						name: 'Auto',
+						value: 'auto',
+						description: 'Use native tool calling, falling back to ReAct text if the provider does not support tools',
 					},
-					meta: {
-						usedLlm: true,
-						scrapeMethod: content.method,
-						iterations: agentResult.iterations,
-						llmCalls: agentResult.llmCalls,
-						estimatedCost: agentResult.estimatedCost,
-						nonLlmAttempt: {
-							tried: extraction.whatWasTried,
-							reason: extraction.reason,
-						},
+					{
+						name: 'Native',
+						value: 'native',
+						description: 'Always use native OpenAI tool calling',
 					},
-				};
-			} else {
-				return {
-					url,
-					task,
-					success: false,
-					data: { text: '' },
-					meta: {
-						usedLlm: true,
-						scrapeMethod: content.method,
-						iterations: agentResult.iterations,
+					{
+						name: 'ReAct Text',
+						value: 'react',
+						description: 'Describe tools in the prompt and parse JSON from the reply',
+					},
+				],
+				default: 'auto',
+				description: 'How the agent calls its tools',
+			},
+			{
+				displayName: 'Budget',
+				name: 'budget',
+				type: 'collection',
+				placeholder: 'Add Limit',
+				default: {},
+				displayOptions: {
+					show: {
+						aiProvider: ['openai-compatible'],
+					},
+				},
+				description: 'Caps on LLM spend. Checked before every LLM call; when a cap is hit the agent stops with a partial answer and meta.budgetExceeded is set. 0 means unlimited.',
+				options: [
+					{
+						displayName: 'Max Cost Per Execution (USD)',
+						name: 'maxCostPerExecution',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 4,
+						},
+						default: 0,
+						description: 'Max USD spent on LLM calls across all items in one run of the node',
+					},
+					{
+						displayName: 'Max Cost Per Item (USD)',
+						name: 'maxCostPerItem',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 4,
+						},
+						default: 0,
+						description: 'Max USD spent on LLM calls for one input item',
+					},
+					{
+						displayName: 'Max LLM Calls Per Item',
+						name: 'maxCallsPerItem',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description: 'Max number of LLM calls for one input item',
+					},
+					{
+						displayName: 'Max Tokens Per Item',
+						name: 'maxTokensPerItem',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description: 'Max prompt plus completion tokens for one input item',
+					},
+				],
+			},
+			{
+				displayName: 'Custom Script',
+				name: 'customScript',
+				type: 'string',
+				typeOptions: {
+					rows: 8,
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['auto', 'runScript'],
+					},
+				},
+				description: 'JavaScript function body to run in the page after navigation. It receives a pageContext object (location, html, text) and its return value (or resolved promise) is returned in data.result. In Auto mode, setting a script selects Run Script.',
+				placeholder: "e.g., return Array.from(document.querySelectorAll('h2')).map(h => h.innerText);",
+			},
+			{
+				displayName: 'Script Options',
+				name: 'scriptOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['auto', 'runScript'],
+					},
+				},
+				description: 'Options used when running a custom script',
+				options: [
+					{
+						displayName: 'Max Result Size',
+						name: 'maxResultSize',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 1000000,
+						description: 'Max size of the serialized script result, in characters',
+					},
+					{
+						displayName: 'Max Script Size',
+						name: 'maxScriptSize',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 100000,
+						description: 'Max length of the script, in characters',
+					},
+					{
+						displayName: 'Timeout',
+						name: 'scriptTimeout',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 30000,
+						description: 'Max time the script may run after navigation, in milliseconds',
+					},
+					{
+						displayName: 'Wait For Selector',
+						name: 'waitForSelector',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., .results-loaded',
+						description: 'CSS selector to wait for before running the script',
+					},
+				],
+			},
+			{
+				displayName: 'Screenshot Options',
+				name: 'screenshotOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['auto', 'screenshot'],
+					},
+				},
+				description: 'Options used when taking a screenshot',
+				options: [
+					{
+						displayName: 'Binary Property',
+						name: 'binaryPropertyName',
+						type: 'string',
+						default: 'screenshot',
+						description: 'Name of the binary property to write the screenshot to',
+					},
+					{
+						displayName: 'Device',
+						name: 'device',
+						type: 'options',
+						options: [
+							{ name: 'Galaxy S9+', value: 'Galaxy S9+' },
+							{ name: 'iPad Mini', value: 'iPad Mini' },
+							{ name: 'iPad Pro', value: 'iPad Pro' },
+							{ name: 'iPhone 13', value: 'iPhone 13' },
+							{ name: 'iPhone 13 Pro Max', value: 'iPhone 13 Pro Max' },
+							{ name: 'None (Desktop)', value: '' },
+							{ name: 'Pixel 5', value: 'Pixel 5' },
+						],
+						default: '',
+						description: 'Emulate a device (viewport, user agent and touch support). Overrides the viewport size.',
+					},
+					{
+						displayName: 'Element Selector',
+						name: 'selector',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., #pricing-table',
+						description: 'CSS selector of a single element to capture instead of the page',
+					},
+					{
+						displayName: 'Format',
+						name: 'format',
+						type: 'options',
+						options: [
+							{ name: 'JPEG', value: 'jpeg' },
+							{ name: 'PNG', value: 'png' },
+							{ name: 'WebP', value: 'webp' },
+						],
+						default: 'png',
+						description: 'Image format of the screenshot',
+					},
+					{
+						displayName: 'Full Page',
+						name: 'fullPage',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to capture the full scrollable page. If not set, this is inferred from the task (e.g. "full page screenshot").',
+					},
+					{
+						displayName: 'Quality',
+						name: 'quality',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+							maxValue: 100,
+						},
+						default: 80,
+						description: 'Image quality for JPEG and WebP (1-100). Ignored for PNG.',
+					},
+					{
+						displayName: 'Viewport Height',
+						name: 'viewportHeight',
+						type: 'number',
+						default: 1080,
+						description: 'Browser viewport height in pixels',
+					},
+					{
+						displayName: 'Viewport Width',
+						name: 'viewportWidth',
+						type: 'number',
+						default: 1920,
+						description: 'Browser viewport width in pixels',
+					},
+				],
+			},
+			{
+				displayName: 'Download Options',
+				name: 'downloadOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['auto', 'downloadAssets'],
+					},
+				},
+				description: 'Options used when downloading assets',
+				options: [
+					{
+						displayName: 'Asset Types',
+						name: 'assetTypes',
+						type: 'multiOptions',
+						options: [
+							{ name: 'CSV', value: 'csv' },
+							{ name: 'Image', value: 'image' },
+							{ name: 'PDF', value: 'pdf' },
+						],
+						default: [],
+						description: 'Types of files to download. If empty, inferred from the task, or all types.',
+					},
+					{
+						displayName: 'Binary Property',
+						name: 'binaryPropertyName',
+						type: 'string',
+						default: 'assets',
+						description: 'Name of the binary property for the zip. In separate mode, each file gets this name with an index suffix (assets_0, assets_1, ...).',
+					},
+					{
+						displayName: 'Max Assets',
+						name: 'maxAssets',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+							maxValue: 50,
+						},
+						default: 50,
+						description: 'Max number of files to download per URL',
+					},
+					{
+						displayName: 'Output Mode',
+						name: 'outputMode',
+						type: 'options',
+						options: [
+							{
+								name: 'Separate Binary Properties',
+								value: 'separate',
+								description: 'Return each file as its own binary property',
+							},
+							{
+								name: 'Zip Archive',
+								value: 'zip',
+								description: 'Bundle all files into a single zip',
+							},
+						],
+						default: 'zip',
+						description: 'How downloaded files are returned',
+					},
+				],
+			},
+			{
+				displayName: 'Crawl Options',
+				name: 'crawlOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['auto', 'crawl', 'fetchContent'],
+					},
+				},
+				description: 'Options used when crawling multiple pages',
+				options: [
+					{
+						displayName: 'Contact Pages',
+						name: 'maxContactPages',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							maxValue: 20,
+						},
+						default: 5,
+						description:
+							'Max number of likely contact pages (contact, about, support...) to check without AI when the requested email, phone number, address or opening hours are not on the starting URL. Set to 0 to disable.',
+					},
+					{
+						displayName: 'Max Pages',
+						name: 'maxPages',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+							maxValue: 20,
+						},
+						default: 10,
+						description: 'Max number of internal pages to visit besides the starting URL when crawling',
+					},
+				],
+			},
+			{
+				displayName: 'Politeness',
+				name: 'politeness',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				description: 'How requests to websites are spaced out and identified. robots.txt is honored by default.',
+				options: [
+					{
+						displayName: 'Burst Size',
+						name: 'burst',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 2,
+						description: 'Max requests to one host sent back-to-back before rate limiting applies',
+					},
+					{
+						displayName: 'Requests Per Second Per Host',
+						name: 'requestsPerSecond',
+						type: 'number',
+						typeOptions: {
+							minValue: 0.01,
+							numberPrecision: 2,
+						},
+						default: 2,
+						description: 'Average request rate to a single host. A robots.txt Crawl-delay slows this further.',
+					},
+					{
+						displayName: 'Respect Robots.txt',
+						name: 'respectRobotsTxt',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to skip URLs disallowed by robots.txt and honor its Crawl-delay',
+					},
+					{
+						displayName: 'User Agent',
+						name: 'userAgent',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., AcmeBot/1.0 (+https://acme.example/bot)',
+						description: 'User agent sent with HTTP and browser requests, and matched against robots.txt. Leave empty for a desktop Chrome user agent.',
+					},
+				],
+			},
+			{
+				displayName: 'Cache',
+				name: 'cache',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				description: 'Reuse previously acquired pages, e.g. when re-running a workflow while tuning the task',
+				options: [
+					{
+						displayName: 'Backend',
+						name: 'backend',
+						type: 'options',
+						options: [
+							{
+								name: 'None',
+								value: 'none',
+								description: 'Always fetch pages from the site',
+							},
+							{
+								name: 'Memory',
+								value: 'memory',
+								description: 'Keep pages in memory until n8n restarts',
+							},
+							{
+								name: 'Filesystem',
+								value: 'filesystem',
+								description: 'Store pages as files that survive restarts',
+							},
+						],
+						default: 'none',
+						description: 'Where acquired pages are cached',
+					},
+					{
+						displayName: 'Revalidate Expired Pages',
+						name: 'revalidate',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to check expired pages with ETag / Last-Modified and reuse them if unchanged, instead of refetching',
+					},
+					{
+						displayName: 'Subdirectory',
+						name: 'subdirectory',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., my-workflow',
+						description: 'Subdirectory for the filesystem backend, relative to the cache directory the admin sets in WEBACCESS_CACHE_DIR (default: the system temp directory). Leave empty to use the cache directory itself.',
+					},
+					{
+						displayName: 'TTL (Seconds)',
+						name: 'ttl',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 3600,
+						description: 'How long a cached page is used without contacting the site',
+					},
+				],
+			},
+			{
+				displayName: 'Session',
+				name: 'session',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				description: 'Headers, cookies and a login flow for sites behind a login. Applies to HTTP, browser and FlareSolverr requests; pages fetched with a session are not cached.',
+				options: [
+					{
+						displayName: 'Cookies',
+						name: 'cookies',
+						type: 'string',
+						typeOptions: {
+							password: true,
+						},
+						default: '',
+						placeholder: 'e.g., sessionid=abc123; csrftoken=xyz',
+						description: 'Cookies to send to the target sites, as in a Cookie header',
+					},
+					{
+						displayName: 'Headers',
+						name: 'headers',
+						type: 'fixedCollection',
+						typeOptions: {
+							multipleValues: true,
+						},
+						default: {},
+						placeholder: 'Add Header',
+						description: 'Headers to send to the target sites, e.g. Authorization: Bearer &lt;token&gt; or Basic &lt;credentials&gt;. Not sent to other sites (redirect targets, third-party resources).',
+						options: [
+							{
+								displayName: 'Header',
+								name: 'header',
+								values: [
+									{
+										displayName: 'Name',
+										name: 'name',
+										type: 'string',
+										default: '',
+									},
+									{
+										displayName: 'Value',
+										name: 'value',
+										type: 'string',
+										typeOptions: {
+											password: true,
+										},
+										default: '',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Login Script',
+						name: 'loginScript',
+						type: 'string',
+						typeOptions: {
+							rows: 8,
+						},
+						default: '',
+						description: 'JavaScript function body run once per execution on the Login URL in the browser, e.g. to fill in and submit the login form. The resulting cookies are used for all requests.',
+						placeholder: "e.g., document.querySelector('#user').value = 'me'; document.querySelector('#pass').value = '…'; document.querySelector('form').submit();",
+					},
+					{
+						displayName: 'Login Success Selector',
+						name: 'loginSuccessSelector',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., .account-menu',
+						description: 'CSS selector that appears once logged in. Leave empty to wait for the network to go idle after the script.',
+					},
+					{
+						displayName: 'Login URL',
+						name: 'loginUrl',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., https://partner.example.com/login',
+						description: 'Page the Login Script runs on',
+					},
+				],
+			},
+			{
+				displayName: 'Execution Options',
+				name: 'executionOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				description: 'How many URLs are processed at once. Output order always matches input order.',
+				options: [
+					{
+						displayName: 'Concurrency',
+						name: 'concurrency',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+							maxValue: 20,
+						},
+						default: 1,
+						description: 'Max number of URLs processed in parallel across all items',
+					},
+					{
+						displayName: 'Concurrency Per Domain',
+						name: 'concurrencyPerDomain',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 2,
+						description: 'Max number of URLs on the same domain processed in parallel',
+					},
+				],
+			},
+		],
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const returnItems: INodeExecutionData[] = [];
+
+		// Read credentials
+		const webAccessCredentials = await this.getCredentials('webAccessApi');
+		const crawl4aiBaseUrl = (webAccessCredentials.crawl4aiBaseUrl as string) || '';
+		const flareSolverrUrl = (webAccessCredentials.flareSolverrUrl as string) || undefined;
+		let proxyPool: ProxyPool | undefined;
+		try {
+			proxyPool = createProxyPool({
+				mode: (webAccessCredentials.proxyMode as ProxyConfig['mode']) || 'none',
+				url: webAccessCredentials.proxyUrl as string | undefined,
+				list: ((webAccessCredentials.proxyList as string) || '').split(/[\n,]/),
+				rotation: webAccessCredentials.proxyRotation as ProxyConfig['rotation'],
+				username: webAccessCredentials.proxyUsername as string | undefined,
+				password: webAccessCredentials.proxyPassword as string | undefined,
+			});
+		} catch (error) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Invalid proxy settings in Web Access API credentials: ${error instanceof Error ? error.message : 'Unknown error'}`,
+			);
+		}
+
+		// Read AI provider setting
+		const aiProvider = this.getNodeParameter('aiProvider', 0) as string;
+		const llmEnabled = aiProvider === 'openai-compatible';
+
+		// Get AI model
+		let aiModel: string | undefined;
+		let toolCalling: ToolCallingMode | undefined;
+		let budgetLimits: BudgetLimits = {};
+		const executionUsage: LlmCallUsage[] = [];
+		let openAiConfig: OpenAIConfig | undefined;
+
+		if (llmEnabled) {
+			const aiModelParam = this.getNodeParameter('aiModel', 0) as string | { value: string };
+			aiModel = typeof aiModelParam === 'string' ? aiModelParam : aiModelParam?.value;
+			toolCalling = this.getNodeParameter('toolCalling', 0, 'auto') as ToolCallingMode;
+			budgetLimits = this.getNodeParameter('budget', 0, {}) as BudgetLimits;
+
+			try {
+				const credentials = await this.getCredentials('openAICompatibleApi');
+				openAiConfig = {
+					apiKey: credentials.apiKey as string,
+					baseUrl: (credentials.baseUrl as string) || 'https://api.openai.com/v1',
+					modelPricing: parseModelPricing(credentials.modelPricing),
+				};
+			} catch (error) {
+				throw new NodeOperationError(
+					this.getNode(),
+					`Failed to load OpenAI-Compatible API credentials: ${error instanceof Error ? error.message : 'Unknown error'}`,
+				);
+			}
+		}
+
+		// Read concurrency settings
+		const executionOptions = this.getNodeParameter('executionOptions', 0, {}) as {
+			concurrency?: number;
+			concurrencyPerDomain?: number;
+		};
+		const concurrency = Math.min(executionOptions.concurrency || DEFAULT_CONCURRENCY, MAX_CONCURRENCY);
+		const politeness = this.getNodeParameter('politeness', 0, {}) as PolitenessOptions;
+		const cache = this.getNodeParameter('cache', 0, {}) as CacheOptions;
+		if (cache.backend === 'filesystem') {
+			try {
+				getCacheDirectory(cache.subdirectory);
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), error as Error);
+			}
+		}
+		const sessionOptions = this.getNodeParameter('session', 0, {}) as {
+			cookies?: string;
+			headers?: { header?: Array<{ name: string; value: string }> };
+			loginScript?: string;
+			loginSuccessSelector?: string;
+			loginUrl?: string;
+		};
+		const sessionHeaders = Object.fromEntries(
+			(sessionOptions.headers?.header || []).map((header) => [header.name, header.value]),
+		);
+		const loginScript = sessionOptions.loginScript?.trim() || '';
+		const loginUrl = sessionOptions.loginUrl?.trim() || '';
+		const session: RequestSession | undefined =
+			Object.keys(sessionHeaders).length > 0 || sessionOptions.cookies?.trim() || loginScript
+				? createRequestSession(sessionHeaders, sessionOptions.cookies)
+				: undefined;
+		if (loginScript && !loginUrl) {
+			throw new NodeOperationError(this.getNode(), 'Login URL is required when a Login Script is set');
+		}
+		const domainLimiter = createKeyedLimiter(
+			executionOptions.concurrencyPerDomain || DEFAULT_CONCURRENCY_PER_DOMAIN,
+		);
+
+		// Read item parameters and queue one job per URL, in input order
+		const jobs: UrlJob[] = [];
+		for (let i = 0; i < items.length; i++) {
+			const task = this.getNodeParameter('task', i) as string;
+			const urlsParam = this.getNodeParameter('urls', i) as string | string[];
+			const urls = Array.isArray(urlsParam) ? urlsParam : [urlsParam];
+			const crawlOptions = this.getNodeParameter('crawlOptions', i, {}) as {
+				maxContactPages?: number;
+				maxPages?: number;
+			};
+			let outputSchema;
+			try {
+				outputSchema = parseOutputSchema(this.getNodeParameter('outputSchema', i, ''));
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), error as Error, { itemIndex: i });
+			}
+
+			const plan: ItemPlan = {
+				task,
+				operationParam: this.getNodeParameter('operation', i, 'auto') as 'auto' | WebAccessOperation,
+				operationOptions: {
+					customScript: this.getNodeParameter('customScript', i, '') as string,
+					scriptOptions: this.getNodeParameter('scriptOptions', i, {}) as RunScriptOptions,
+					screenshotOptions: this.getNodeParameter('screenshotOptions', i, {}) as ScreenshotOptions & {
+						binaryPropertyName?: string;
+					},
+					downloadOptions: this.getNodeParameter('downloadOptions', i, {}) as DownloadAssetsOptions,
+					tableOptions: this.getNodeParameter('tableOptions', i, {}) as TableOptions,
+				},
+				maxCrawlPages: crawlOptions.maxPages,
+				maxContactPages: crawlOptions.maxContactPages,
+				outputSchema,
+				outputFormat: this.getNodeParameter('outputFormat', i, 'text') as OutputFormat,
+				budget: { limits: budgetLimits, itemUsage: [], executionUsage },
+			};
+
+			let reportsDetection = true;
+			for (const url of urls) {
+				if (!url || !url.trim()) continue;
+				jobs.push({ itemIndex: i, url: url.trim(), plan, reportsDetection });
+				reportsDetection = false;
+			}
+		}
+
+		// Select the operation once per item, shared by all of its URLs
+		const selectForItem = (plan: ItemPlan): Promise<OperationSelection> => {
+			if (!plan.selection) {
+				// Skip LLM operation detection once the budget is used up
+				const detectionBudgetExceeded = aiModel
+					? checkBudget(plan.budget, [], aiModel, plan.task, openAiConfig?.modelPricing)
+					: undefined;
+				plan.selection = selectOperation(
+					plan.operationParam,
+					plan.task,
+					plan.operationOptions.customScript,
+					detectionBudgetExceeded ? undefined : openAiConfig,
+					aiModel,
+				).then((selection) => {
+					addBudgetUsage(plan.budget, selection.detectionUsage);
+					return selection;
+				});
+			}
+			return plan.selection;
+		};
+
+		try {
+			// Log in once; every request in the execution reuses the captured cookies
+			if (session && loginScript) {
+				const login = await executeLogin(
+					loginUrl,
+					loginScript,
+					session,
+					{ successSelector: sessionOptions.loginSuccessSelector || undefined },
+					{ proxy: proxyPool?.select(loginUrl) },
+				);
+				if (!login.success) {
+					throw new NodeOperationError(this.getNode(), `Login Script failed: ${login.error}`);
+				}
+			}
+
+			const results = await mapWithConcurrency(jobs, concurrency, async (job) => {
+				const { url, plan } = job;
+				try {
+					// Detection runs once per item, so only its first URL reports the usage
+					const itemSelection = await selectForItem(plan);
+					const selection = job.reportsDetection
+						? itemSelection
+						: { ...itemSelection, detectionCost: undefined, detectionUsage: [] };
+					const context: ProcessUrlContext = {
+						url,
+						operation: selection.operation,
+						task: plan.task,
+						useAI: llmEnabled,
+						aiProvider,
+						aiModel,
+						crawl4aiBaseUrl,
+						openAiConfig,
+						flareSolverrUrl,
+						maxCrawlPages: plan.maxCrawlPages,
+						maxContactPages: plan.maxContactPages,
+						outputSchema: plan.outputSchema,
+						outputFormat: plan.outputFormat,
+						toolCalling,
+						politeness,
+						cache,
+						proxyPool,
+						session,
+						llmUsage: [...selection.detectionUsage],
+						budget: plan.budget,
+					};
+
+					const processed = await domainLimiter.run(getDomainKey(url), () =>
+						processWithSelection(selection, context, plan.operationOptions),
+					);
+
+					const returnItem: INodeExecutionData = {
+						json: processed.json as unknown as IDataObject,
+					};
+
+					if (processed.binary) {
+						returnItem.binary = {};
+						for (const [property, file] of Object.entries(processed.binary)) {
+							returnItem.binary[property] = await this.helpers.prepareBinaryData(
+								Buffer.isBuffer(file.data) ? file.data : Buffer.from(file.data),
+								file.fileName,
+								file.mimeType,
+							);
+						}
+					}
+
+					return returnItem;
+				} catch (error) {
+					if (this.continueOnFail()) {
+						return {
+							json: {
+								url,
+								task: plan.task,
+								success: false,
+								data: { text: '' },
+								meta: { usedLlm: false },
+								error: error instanceof Error ? error.message : 'Unknown error',
+							},
+						};
+					}
+					throw new NodeOperationError(this.getNode(), error as Error, {
+						itemIndex: job.itemIndex,
+					});
+				}
+			});
+
+			returnItems.push(...results);
+		} finally {
+			await cleanupAcquisition();
+		}
+
+		return [returnItems];
+	}
+
+}
+
+/**
+ * Choose the operation for an item.
+ * 
+ * Explicit operations are used as-is. In Auto mode, a Custom Script selects
+ * Run Script; otherwise the operation is inferred from the task (LLM
+ * classifier when enabled, keyword matching otherwise).
+ * 
+ * @param {'auto' | WebAccessOperation} operationParam - Operation parameter value
+ * @param {string} task - Task description
+ * @param {string} customScript - Custom Script parameter value
+ * @param {OpenAIConfig} [openAiConfig] - OpenAI config, enables LLM detection
+ * @param {string} [aiModel] - AI model name
+ * @returns {Promise<OperationSelection>} Selected operation and reason
+ */
+async function selectOperation(
+	operationParam: 'auto' | WebAccessOperation,
+	task: string,
+	customScript: string,
+	openAiConfig?: OpenAIConfig,
+	aiModel?: string,
+): Promise<OperationSelection> {
+	if (operationParam !== 'auto') {
+		return {
+			operation: operationParam,
+			reason: 'Selected explicitly',
+			allowFallback: false,
+			detectionUsage: [],
+		};
+	}
+
+	if (customScript.trim()) {
+		return {
+			operation: 'runScript',
+			detectedOperation: 'runScript',
+			reason: 'Auto: Custom Script is set',
+			allowFallback: true,
+			detectionUsage: [],
+		};
+	}
+
+	const detectionUsage: LlmCallUsage[] = [];
+	const detected = await inferOperation(task, openAiConfig, aiModel, detectionUsage);
+	const usedLlm = openAiConfig !== undefined && aiModel !== undefined;
+	const reason = usedLlm
+		? 'Auto: inferred from task by LLM classifier (keyword fallback on error)'
+		: 'Auto: inferred from task keywords';
+	const detectionCost = detectionUsage.length > 0 ? formatCost(getTotalCost(detectionUsage)) : undefined;
+
+	// Run Script can't be inferred into action without a script to run
+	if (detected === 'runScript') {
+		return {
+			operation: 'fetchContent',
+			detectedOperation: detected,
+			reason: `${reason}; Run Script needs a Custom Script, using Fetch Content instead`,
+			allowFallback: true,
+			detectionCost,
+			detectionUsage,
+		};
+	}
+
+	return {
+		operation: detected,
+		detectedOperation: detected,
+		reason,
+		allowFallback: true,
+		detectionCost,
+		detectionUsage,
+	};
+}
+
+/**
+ * Process a URL with the selected operation, trying fallbacks in Auto mode.
+ * 
+ * Fallbacks come from getFallbackOperations (crawl ↔ fetchContent) and are
+ * only tried when the failed attempt did not already use the LLM agent.
+ * 
+ * @param {OperationSelection} selection - Selected operation
+ * @param {ProcessUrlContext} context - Processing context
+ * @param {OperationOptions} options - Operation-specific options
+ * @returns {Promise<ProcessedUrl>} Result annotated with operation metadata
+ */
+async function processWithSelection(
+	selection: OperationSelection,
+	context: ProcessUrlContext,
+	options: OperationOptions,
+): Promise<ProcessedUrl> {
+	const primary = await runOperation(selection.operation, context, options);
+	primary.json.operation = selection.operation;
+	primary.json.meta = {
+		...primary.json.meta,
+		detectedOperation: selection.detectedOperation,
+		operationReason: selection.reason,
+		operationDetectionCost: selection.detectionCost,
+	};
+
+	if (!selection.allowFallback || primary.json.success || primary.json.meta.usedLlm) {
+		return attachUsage(primary, context.llmUsage);
+	}
+
+	const fallbacks = getFallbackOperations(selection.operation);
+	for (const fallback of fallbacks) {
+		const result = await runOperation(fallback, { ...context, operation: fallback }, options);
+		if (result.json.success) {
+			result.json.operation = fallback;
+			result.json.meta = {
+				...result.json.meta,
+				detectedOperation: selection.detectedOperation,
+				originalOperation: selection.operation,
+				fallbackOperation: fallback,
+				operationReason: `${selection.reason}; ${selection.operation} failed (${primary.json.error || 'no result'}), fell back to ${fallback}`,
+				operationDetectionCost: selection.detectionCost,
+			};
+			return attachUsage(result, context.llmUsage);
+		}
+	}
+
+	if (fallbacks.length > 0) {
+		primary.json.meta.operationReason = `${selection.reason}; fallback to ${fallbacks.join(', ')} also failed`;
+	}
+
+	return attachUsage(primary, context.llmUsage);
+}
+
+/**
+ * Report token usage of all LLM calls made for a URL in its meta.
+ * 
+ * Any call, including LLM operation detection for operations that run
+ * without the LLM (crawl, tables, contacts), marks the result as using it.
+ * 
+ * @param {ProcessedUrl} processed - Result to annotate
+ * @param {LlmCallUsage[]} [llmUsage] - LLM calls made for the URL
+ * @returns {ProcessedUrl} The same result
+ */
+function attachUsage(processed: ProcessedUrl, llmUsage?: LlmCallUsage[]): ProcessedUrl {
+	if (llmUsage && llmUsage.length > 0) {
+		processed.json.meta.usedLlm = true;
+		processed.json.meta.usage = summarizeUsage(llmUsage);
+	}
+	return processed;
+}
+
+/**
+ * Run a single operation on a URL.
+ * 
+ * @param {WebAccessOperation} operation - Operation to run
+ * @param {ProcessUrlContext} context - Processing context
+ * @param {OperationOptions} options - Operation-specific options
+ * @returns {Promise<ProcessedUrl>} Operation result
+ */
+async function runOperation(
+	operation: WebAccessOperation,
+	context: ProcessUrlContext,
+	options: OperationOptions,
+): Promise<ProcessedUrl> {
+	const { url, task } = context;
+	const pageOptions: PuppeteerOptions = { proxy: context.proxyPool?.select(url), session: context.session };
+
+	switch (operation) {
+		case 'runScript':
+			if (!options.customScript.trim()) {
+				return {
+					json: {
+						url,
+						task,
+						success: false,
+						data: { text: '' },
+						meta: { usedLlm: false },
+						error: 'Run Script requires a Custom Script',
+					},
+				};
+			}
+			return processRunScript(
+				url,
+				task,
+				options.customScript,
+				options.scriptOptions,
+				pageOptions,
+			);
+		case 'screenshot':
+			return processScreenshot(url, task, options.screenshotOptions, pageOptions);
+		case 'downloadAssets':
+			return processDownloadAssets(url, task, {
+				...options.downloadOptions,
+				flareSolverrUrl: context.flareSolverrUrl,
+				politeness: context.politeness,
+				cache: context.cache,
+				proxyPool: context.proxyPool,
+				session: context.session,
+			});
+		case 'crawl':
+		case 'fetchContent':
+		default: {
+			const json = await processUrl({ ...context, operation });
+			if (!options.tableOptions.attachCsv || !json.data.tables?.length) {
+				return { json };
+			}
+			return { json, binary: tablesToBinary(json.data.tables, options.tableOptions.binaryPropertyName || 'table') };
+		}
+	}
+}
+
+/**
+ * Convert extracted tables to CSV files, one binary property per table.
+ *
+ * @param {ExtractedTable[]} tables - Tables to convert
+ * @param {string} binaryPropertyName - Property prefix; files are numbered from 0
+ * @returns {Record<string, BinaryData>} CSV files keyed by property name
+ */
+function tablesToBinary(tables: ExtractedTable[], binaryPropertyName: string): Record<string, BinaryData> {
+	const binary: Record<string, BinaryData> = {};
+	tables.forEach((table, index) => {
+		const property = `${binaryPropertyName}_${index}`;
+		binary[property] = {
+			data: Buffer.from(tableToCsv(table), 'utf8'),
+			mimeType: 'text/csv',
+			fileName: `${property}.csv`,
+		};
+	});
+	return binary;
+}
+
+/**
+ * Capture a screenshot of a single URL.
+ * 
+ * Bypasses the 3-stage pipeline: screenshots always need Puppeteer and
+ * produce binary output instead of extracted text.
+ * 
+ * @param {string} url - URL to capture
+ * @param {string} task - Task to perform
+ * @param {ScreenshotOptions} options - Screenshot options from the node parameters
+ * @param {PuppeteerOptions} [pageOptions] - Proxy and session for the browser page
+ * @returns {Promise<ProcessedUrl>} Result with the image as binary data
+ */
+async function processScreenshot(
+	url: string,
+	task: string,
+	options: ScreenshotOptions & { binaryPropertyName?: string },
+	pageOptions: PuppeteerOptions = {},
+): Promise<ProcessedUrl> {
+	const { binaryPropertyName, ...screenshotOptions } = options;
+	const result = await executeScreenshot(url, task, screenshotOptions, pageOptions);
+
+	if (!result.success || !result.binary || !result.data) {
+		return {
+			json: {
+				url,
+				task,
+				success: false,
+				data: { text: '' },
+				meta: {
+					usedLlm: false,
+					scrapeMethod: 'puppeteer',
+					proxy: pageOptions.proxy?.label,
+				},
+				error: result.error || 'Failed to capture screenshot',
+			},
+		};
+	}
+
+	const { data } = result;
+	const target = data.selector ? `element "${data.selector}"` : data.fullPage ? 'full page' : 'viewport';
+
+	return {
+		json: {
+			url,
+			task,
+			success: true,
+			data: {
+				text: `Captured ${target} screenshot (${data.viewport.width}x${data.viewport.height} ${data.format.toUpperCase()}, ${data.fileSize} bytes)`,
+				sources: [url],
+				screenshot: data,
+			},
+			meta: {
+				usedLlm: false,
+				scrapeMethod: 'puppeteer',
+				proxy: pageOptions.proxy?.label,
+			},
+		},
+		binary: {
+			[binaryPropertyName || 'screenshot']: result.binary,
+		},
+	};
+}
+
+/**
+ * Download the assets linked from a single URL.
+ * 
+ * Acquires the page with the Stage 1 fallback chain, then downloads the
+ * matching files and returns them as binary data.
+ * 
+ * @param {string} url - Page to collect assets from
+ * @param {string} task - Task to perform
+ * @param {DownloadAssetsOptions} options - Download options from the node parameters
+ * @returns {Promise<ProcessedUrl>} Result with the files as binary data
+ */
+async function processDownloadAssets(
+	url: string,
+	task: string,
+	options: DownloadAssetsOptions,
+): Promise<ProcessedUrl> {
+	const result = await executeDownloadAssets(url, task, options);
+
+	if (!result.success || !result.data) {
+		return {
+			json: {
+				url,
+				task,
+				success: false,
+				data: { text: '' },
+				meta: {
+					usedLlm: false,
+					scrapeMethod: result.scrapeMethod,
+					cacheHit: result.cacheHit,
+					proxy: result.proxy,
+				},
+				error: result.error || 'Failed to download assets',
+			},
+		};
+	}
+
+	const { data } = result;
+	const lines = data.assets.map((asset) => `- ${asset.fileName} (${asset.mimeType}, ${asset.size} bytes)`);
+	if (data.failed.length > 0) {
+		lines.push(`${data.failed.length} asset(s) failed to download`);
+	}
+
+	return {
+		json: {
+			url,
+			task,
+			success: true,
+			data: {
+				text: `Downloaded ${data.assetsCount} asset(s)${data.zipped ? ' as zip' : ''}:\n${lines.join('\n')}`,
+				sources: [url],
+				assets: data,
+			},
+			meta: {
+				usedLlm: false,
+				scrapeMethod: result.scrapeMethod,
+				cacheHit: result.cacheHit,
+				proxy: result.proxy,
+			},
+		},
+		binary: result.binary,
+	};
+}
+
+/**
+ * Run a custom script on a single URL.
+ * 
+ * The script's return value becomes data.result. On failure, the error
+ * raised inside the page (with its stack trace) is kept in scriptError.
+ * 
+ * @param {string} url - URL to navigate to
+ * @param {string} task - Task description (kept for output)
+ * @param {string} script - JavaScript function body to run
+ * @param {RunScriptOptions} options - Script options from the node parameters
+ * @param {PuppeteerOptions} [pageOptions] - Proxy and session for the browser page
+ * @returns {Promise<ProcessedUrl>} Result with the script's return value
+ */
+async function processRunScript(
+	url: string,
+	task: string,
+	script: string,
+	options: RunScriptOptions,
+	pageOptions: PuppeteerOptions = {},
+): Promise<ProcessedUrl> {
+	const result = await executeRunScript(url, script, options, pageOptions);
+
+	if (!result.success) {
+		return {
+			json: {
+				url,
+				task,
+				success: false,
+				data: { text: '' },
+				meta: {
+					usedLlm: false,
+					scrapeMethod: 'puppeteer',
+					proxy: pageOptions.proxy?.label,
+				},
+				error: result.error || 'Script execution failed',
+				scriptError: result.scriptError,
+			},
+		};
+	}
+
+	return {
+		json: {
+			url,
+			task,
+			success: true,
+			data: {
+				text: typeof result.result === 'string' ? result.result : JSON.stringify(result.result ?? null),
+				sources: [url],
+				result: result.result,
+			},
+			meta: {
+				usedLlm: false,
+				scrapeMethod: 'puppeteer',
+				proxy: pageOptions.proxy?.label,
+			},
+		},
+	};
+}
+
+/**
+ * Process a single URL with the 3-stage architecture.
+ * 
+ * For the crawl operation, Stage 2 extends to internal pages discovered
+ * from the URL before falling back to the LLM agent. When an email or
+ * phone number is asked for but not on the page, likely contact pages
+ * are checked without the LLM first.
+ * 
+ * @param {ProcessUrlContext} context - URL, task, operation and provider settings
+ * @returns {Promise<WebAccessOutput>} Result
+ */
+async function processUrl(context: ProcessUrlContext): Promise<WebAccessOutput> {
+	const {
+		url,
+		task,
+		operation,
+		useAI: llmEnabled,
+		openAiConfig,
+		aiModel,
+		flareSolverrUrl,
+		crawl4aiBaseUrl,
+		outputSchema,
+		toolCalling,
+		politeness,
+		cache,
+		proxyPool,
+		session,
+	} = context;
+
+		// ========================================
+		// STAGE 1: Content Acquisition
+		// ========================================
+		const content: AcquiredContent = await acquireContent(url, {
+			flareSolverrUrl,
+			politeness,
+			cache,
+			proxyPool,
+			session,
+		});
+
+	if (!content.success) {
+		return {
+			url,
+			task,
+			success: false,
+			data: { text: '' },
+			meta: {
+				usedLlm: false,
+				scrapeMethod: content.method,
+				contentKind: content.contentKind,
+				cacheHit: content.cacheHit,
+				proxy: content.proxy,
+				methodsTried: content.methodsTried,
+				blockReason: content.blockReason,
+			},
+			error: content.error || 'Failed to acquire content',
+		};
+	}
+
+		// Main content in the requested output format
+		const formattedContent = formatContent(content, context.outputFormat);
+
+		// ========================================
+		// STAGE 2: Non-LLM Extraction
+		// ========================================
+		const crawl: CrawlAttempt | undefined =
+			operation === 'crawl'
+				? await crawlAndExtract(content, task, {
+						flareSolverrUrl,
+						crawl4aiBaseUrl,
+						maxPages: context.maxCrawlPages,
+						politeness,
+						cache,
+						proxyPool,
+						session,
+					})
+				: undefined;
+		const pageExtraction: ExtractionAttempt = crawl || tryNonLlmExtraction(content, task);
+
+		// Contact details missing from the page are usually on a contact or about page
+		const { wantsEmail, wantsPhone, wantsAddress, wantsHours } = pageExtraction.detectedIntent;
+		const needsContactPages =
+			!crawl &&
+			!pageExtraction.success &&
+			!content.document &&
+			(wantsEmail || wantsPhone || wantsAddress || wantsHours) &&
+			context.maxContactPages !== 0;
+		const contactCrawl: ContactCrawlAttempt | undefined = needsContactPages
+			? await crawlContactPages(content, task, {
+					flareSolverrUrl,
+					maxPages: context.maxContactPages,
+					politeness,
+					cache,
+					proxyPool,
+					session,
+				})
+			: undefined;
+		const extraction: ExtractionAttempt = contactCrawl || pageExtraction;
+		const pages: CrawlAttempt | undefined = crawl || contactCrawl;
+
+		// Shape non-LLM data to the output schema, if one is set
+		const structured = outputSchema && extraction.data
+			? shapeExtractionData(extraction.data, url, outputSchema)
+			: undefined;
+		const structuredValidation = outputSchema && structured !== undefined
+			? validateAgainstSchema(structured, outputSchema)
+			: undefined;
+
+		// If non-LLM succeeded, return result (unless the LLM can fix a schema mismatch)
+		const canFixWithLlm = llmEnabled && structuredValidation !== undefined && !structuredValidation.valid;
+		if (extraction.success && extraction.data && !canFixWithLlm) {
+			const text = formatExtractionAsText(extraction.data);
+			return {
+				url,
+				task,
+				success: true,
+				data: {
+					text,
+					sources: pages && pages.sources.length > 0 ? pages.sources : [url],
+					content: formattedContent,
+					structuredData: extraction.data?.structuredData,
+					tables: extraction.data?.tables,
+					emails: extraction.data?.emailDetails,
+					phones: extraction.data?.phoneDetails,
+					addresses: extraction.data?.addressDetails,
+					openingHours: extraction.data?.openingHoursDetails,
+					contacts: contactCrawl?.contacts,
+					result: structured,
+					document: content.document,
+				},
+				meta: {
+					usedLlm: false,
+					scrapeMethod: content.method,
+					contentKind: content.contentKind,
+					cacheHit: content.cacheHit,
+					proxy: content.proxy,
+					pagesChecked: pages?.pagesChecked,
+					pagesWithData: pages?.pagesWithData,
+					nonLlmAttempt: {
+						tried: extraction.whatWasTried,
+						reason: extraction.reason,
+					},
+					schemaValidation: structuredValidation,
+				},
+			};
+		}
+
+		// ========================================
+		// STAGE 3: Agentic LLM (if enabled)
+		// ========================================
+		if (llmEnabled && openAiConfig && aiModel) {
+			const agentResult: AgentResult = await executeAgent(
+				task,
+				content,
+				extraction,
+				openAiConfig,
+				aiModel,
+				{
+					maxIterations: 5,
+					flareSolverrUrl,
+					crawl4aiBaseUrl,
+					politeness,
+					cache,
+					proxyPool,
+					session,
+					outputSchema,
+					toolCalling,
+					budget: context.budget,
+				},
+			);
+			// The agent adds its calls to the budget itself, as it makes them
+			context.llmUsage?.push(...agentResult.usage);
+
+			if (agentResult.success) {
+				return {
+					url,
+					task,
+					success: true,
+					data: {
+						text: agentResult.text,
+						sources: agentResult.sources,
+						content: formattedContent,
+						structuredData: extraction.data?.structuredData,
+						tables: extraction.data?.tables,
+						emails: extraction.data?.emailDetails,
+						phones: extraction.data?.phoneDetails,
+						addresses: extraction.data?.addressDetails,
+						openingHours: extraction.data?.openingHoursDetails,
+						contacts: contactCrawl?.contacts,
+						result: agentResult.data,
+					},
+					meta: {
+						usedLlm: true,
+						scrapeMethod: content.method,
+						contentKind: content.contentKind,
+						cacheHit: content.cacheHit,
+						proxy: content.proxy,
+						iterations: agentResult.iterations,
+						llmCalls: agentResult.llmCalls,
+						estimatedCost: agentResult.estimatedCost,
+						nonLlmAttempt: {
+							tried: extraction.whatWasTried,
+							reason: extraction.reason,
+						},
+						schemaValidation: agentResult.schemaValidation,
+						toolCalling: agentResult.toolCalling,
+						budgetExceeded: agentResult.budgetExceeded ? true : undefined,
+						budgetReason: agentResult.budgetExceeded,
+					},
+				};
+			} else {
+				return {
+					url,
+					task,
+					success: false,
+					data: { text: '' },
+					meta: {
+						usedLlm: true,
+						scrapeMethod: content.method,
+						contentKind: content.contentKind,
+						cacheHit: content.cacheHit,
+						proxy: content.proxy,
+						iterations: agentResult.iterations,
 						llmCalls: agentResult.llmCalls,
 						estimatedCost: agentResult.estimatedCost,
+						toolCalling: agentResult.toolCalling,
 					},
 					error: agentResult.error || 'Agent failed to complete task',
 				};
@@ -453,16 +2012,42 @@ async function processUrl(
 			success: extraction.data !== null,
 			data: {
 				text: partialText,
-				sources: [url],
+				sources: pages && pages.sources.length > 0 ? pages.sources : [url],
+				content: formattedContent,
+				structuredData: extraction.data?.structuredData,
+				tables: extraction.data?.tables,
+				emails: extraction.data?.emailDetails,
+				phones: extraction.data?.phoneDetails,
+				addresses: extraction.data?.addressDetails,
+				openingHours: extraction.data?.openingHoursDetails,
+				contacts: contactCrawl?.contacts,
+				result: structured,
+				document: content.document,
 			},
 			meta: {
 				usedLlm: false,
 				scrapeMethod: content.method,
+				contentKind: content.contentKind,
+				cacheHit: content.cacheHit,
+				proxy: content.proxy,
+				pagesChecked: pages?.pagesChecked,
+				pagesWithData: pages?.pagesWithData,
 				nonLlmAttempt: {
 					tried: extraction.whatWasTried,
 					reason: extraction.reason,
 				},
+				schemaValidation: structuredValidation,
 			},
 			error: extraction.data ? undefined : `${extraction.reason}. Enable LLM for better results.`,
 		};
 }
+
+/**
+ * Get the main content of a page in the requested output format.
+ * Documents (PDF, JSON...) have no HTML, so their extracted text is used.
+ */
+function formatContent(content: AcquiredContent, format: OutputFormat = 'text'): string | undefined {
+	if (format === 'text') return undefined;
+	if (content.document) return content.text;
+	return format === 'markdown' ? content.markdown : extractMainContent(content.html);
+}
@@ -3,13 +3,20 @@
  * 
  * Implements the ReAct (Reasoning + Acting) loop for agentic web access.
  * The LLM thinks step-by-step and calls tools to gather information.
+ * Tools are offered through native OpenAI tool calling when the provider
+ * supports it, otherwise through a JSON text protocol.
  */
 
 import type { AcquiredContent } from '../stages/acquire';
+import { createFlareSolverrSession } from '../strategies/flaresolverr';
 import type { ExtractionAttempt } from '../stages/extract';
-import type { OpenAIConfig } from '../utils/types';
+import type { ProxyPool } from '../utils/proxy';
+import type { RequestSession } from '../utils/session';
+import type { CacheOptions, OpenAIConfig, PolitenessOptions, ToolCallingMode } from '../utils/types';
 import {
 	executeTool,
+	formatToolsForOpenAI,
+	type OpenAITool,
 	type ToolCall,
 	type ToolContext,
 } from './tools';
@@ -21,7 +28,17 @@ import {
 	type ScratchpadEntry,
 	type PromptContext,
 } from './prompts';
-import { estimateCostPerCall, formatCost } from '../utils/cost';
+import {
+	addBudgetUsage,
+	checkBudget,
+	formatCost,
+	getTotalCost,
+	recordLlmCall,
+	type ApiUsage,
+	type LlmBudget,
+	type LlmCallUsage,
+} from '../utils/cost';
+import { validateAgainstSchema, type JsonSchema, type SchemaValidationResult } from '../utils/schema';
 
 /**
  * Result of agent execution.
@@ -39,6 +56,16 @@ export interface AgentResult {
 	sources: string[];
 	/** Estimated cost */
 	estimatedCost: string;
+	/** Token usage and cost of each LLM call */
+	usage: LlmCallUsage[];
+	/** Structured result, when an output schema was given */
+	data?: unknown;
+	/** Validation of the structured result against the output schema */
+	schemaValidation?: SchemaValidationResult;
+	/** Tool calling protocol that was used */
+	toolCalling?: 'native' | 'react';
+	/** Which budget cap stopped the agent, if any */
+	budgetExceeded?: string;
 	/** Error if failed */
 	error?: string;
 }
@@ -53,6 +80,43 @@ export interface AgentOptions {
 	flareSolverrUrl?: string;
 	/** Crawl4AI base URL */
 	crawl4aiBaseUrl?: string;
+	/** robots.txt, rate limit and user agent settings for scraping */
+	politeness?: PolitenessOptions;
+	/** Content cache settings for scraping */
+	cache?: CacheOptions;
+	/** Proxies for scraping */
+	proxyPool?: ProxyPool;
+	/** Custom headers and cookies for scraping */
+	session?: RequestSession;
+	/** JSON Schema the structured result must match */
+	outputSchema?: JsonSchema;
+	/** Tool calling protocol (default auto: native, falling back to ReAct text) */
+	toolCalling?: ToolCallingMode;
+	/** Budget caps, checked before every LLM call; each call is added to its usage as it is made */
+	budget?: LlmBudget;
+}
+
+/**
+ * Parsed agent step: reasoning plus the tool to call.
+ */
+type AgentStep = NonNullable<ReturnType<typeof parseLLMResponse>>;
+
+/**
+ * LLM reply for one iteration: the parsed step (if valid) and the raw text.
+ */
+interface AgentReply {
+	step: AgentStep | null;
+	raw: string;
+}
+
+/**
+ * Raised when the provider or model rejects the `tools` request field.
+ */
+class ToolCallingUnsupportedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ToolCallingUnsupportedError';
+	}
 }
 
 /**
@@ -62,6 +126,7 @@ export interface AgentOptions {
  * @param {string} userPrompt - User prompt
  * @param {OpenAIConfig} config - OpenAI-compatible API config
  * @param {string} model - Model name
+ * @param {LlmCallUsage[]} calls - Call log to record usage in
  * @returns {Promise<string>} LLM response
  */
 async function callLLM(
@@ -69,6 +134,7 @@ async function callLLM(
 	userPrompt: string,
 	config: OpenAIConfig,
 	model: string,
+	calls: LlmCallUsage[],
 ): Promise<string> {
 	const response = await fetch(`${config.baseUrl}/chat/completions`, {
 		method: 'POST',
@@ -95,9 +161,109 @@ async function callLLM(
 
 	const data = await response.json() as {
 		choices?: { message?: { content?: string } }[];
+		usage?: ApiUsage;
+	};
+
+	const content = data.choices?.[0]?.message?.content || '';
+	recordLlmCall(calls, 'agent', model, data.usage, systemPrompt + userPrompt, content, config.modelPricing);
+
+	return content;
+}
+
+/**
+ * Call the LLM with native tool calling and read the first tool call.
+ * 
+ * If the model answers in text instead of calling a tool, the text is
+ * parsed with the ReAct JSON protocol so the iteration is not wasted.
+ * 
+ * @param {string} systemPrompt - System prompt
+ * @param {string} userPrompt - User prompt
+ * @param {OpenAITool[]} tools - Tool definitions
+ * @param {OpenAIConfig} config - OpenAI-compatible API config
+ * @param {string} model - Model name
+ * @param {LlmCallUsage[]} calls - Call log to record usage in
+ * @returns {Promise<AgentReply>} Parsed step and raw reply
+ * @throws {ToolCallingUnsupportedError} If the provider does not support tools
+ */
+async function callLLMWithTools(
+	systemPrompt: string,
+	userPrompt: string,
+	tools: OpenAITool[],
+	config: OpenAIConfig,
+	model: string,
+	calls: LlmCallUsage[],
+): Promise<AgentReply> {
+	const response = await fetch(`${config.baseUrl}/chat/completions`, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			'Authorization': `Bearer ${config.apiKey}`,
+		},
+		body: JSON.stringify({
+			model,
+			messages: [
+				{ role: 'system', content: systemPrompt },
+				{ role: 'user', content: userPrompt },
+			],
+			tools,
+			tool_choice: 'auto',
+			temperature: 0.1,
+			max_tokens: 2000,
+		}),
+		signal: AbortSignal.timeout(60000),
+	});
+
+	if (!response.ok) {
+		const errorText = await response.text();
+		if ([400, 404, 422, 501].includes(response.status) && /tool|function/i.test(errorText)) {
+			throw new ToolCallingUnsupportedError(`Tool calling not supported (${response.status}): ${errorText}`);
+		}
+		throw new Error(`LLM API error (${response.status}): ${errorText}`);
+	}
+
+	const data = await response.json() as {
+		choices?: {
+			message?: {
+				content?: string | null;
+				tool_calls?: { function?: { name?: string; arguments?: string } }[];
+			};
+		}[];
+		usage?: ApiUsage;
 	};
 
-	return data.choices?.[0]?.message?.content || '';
+	const message = data.choices?.[0]?.message;
+	const content = message?.content?.trim() || '';
+	const call = message?.tool_calls?.[0]?.function;
+	recordLlmCall(
+		calls,
+		'agent',
+		model,
+		data.usage,
+		systemPrompt + userPrompt + JSON.stringify(tools),
+		content + (call?.name || '') + (call?.arguments || ''),
+		config.modelPricing,
+	);
+
+	if (!call?.name) {
+		return { step: content ? parseLLMResponse(content) : null, raw: content };
+	}
+
+	const raw = call.arguments || '{}';
+	try {
+		const params = JSON.parse(raw) as unknown;
+		if (!params || typeof params !== 'object' || Array.isArray(params)) {
+			return { step: null, raw };
+		}
+		return {
+			step: {
+				thinking: content || `Calling ${call.name}`,
+				action: { tool: call.name, params: params as Record<string, unknown> },
+			},
+			raw,
+		};
+	} catch {
+		return { step: null, raw };
+	}
 }
 
 /**
@@ -107,6 +273,8 @@ async function callLLM(
  * @param {Map<string, AcquiredContent>} content - All acquired content
  * @param {OpenAIConfig} config - API config
  * @param {string} model - Model name
+ * @param {LlmCallUsage[]} calls - Call log to record usage in
+ * @param {JsonSchema} [outputSchema] - Schema the answer must match, if any
  * @returns {Promise<string>} Synthesized result
  */
 async function forcedCompletion(
@@ -114,8 +282,11 @@ async function forcedCompletion(
 	content: Map<string, AcquiredContent>,
 	config: OpenAIConfig,
 	model: string,
+	calls: LlmCallUsage[],
+	outputSchema?: JsonSchema,
 ): Promise<string> {
-	const prompt = buildForcedCompletionPrompt(task, content);
+	const prompt = buildForcedCompletionPrompt(task, content, outputSchema);
+	const systemPrompt = 'You are a helpful research assistant. Synthesize information and provide comprehensive, detailed answers. Never return empty responses.';
 	
 	try {
 		const response = await fetch(`${config.baseUrl}/chat/completions`, {
@@ -127,7 +298,7 @@ async function forcedCompletion(
 			body: JSON.stringify({
 				model,
 				messages: [
-					{ role: 'system', content: 'You are a helpful research assistant. Synthesize information and provide comprehensive, detailed answers. Never return empty responses.' },
+					{ role: 'system', content: systemPrompt },
 					{ role: 'user', content: prompt },
 				],
 				temperature: 0.3,
@@ -143,9 +314,11 @@ async function forcedCompletion(
 
 		const data = await response.json() as {
 			choices?: { message?: { content?: string } }[];
+			usage?: ApiUsage;
 		};
 
 		const result = data.choices?.[0]?.message?.content?.trim();
+		recordLlmCall(calls, 'forced_completion', model, data.usage, systemPrompt + prompt, result || '', config.modelPricing);
 		
 		// If LLM returned empty, use fallback
 		if (!result) {
@@ -159,6 +332,63 @@ async function forcedCompletion(
 	}
 }
 
+/**
+ * Parse a structured value returned by the LLM.
+ * 
+ * Accepts objects/arrays as-is and parses JSON strings, including ones
+ * wrapped in markdown code blocks.
+ * 
+ * @param {unknown} value - Raw value from the LLM
+ * @returns {unknown} Parsed value, or undefined if it is not JSON
+ */
+function parseStructuredData(value: unknown): unknown {
+	if (value === undefined || value === null) return undefined;
+	if (typeof value !== 'string') return value;
+
+	const trimmed = value.trim();
+	const codeBlock = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+	try {
+		return JSON.parse(codeBlock ? codeBlock[1].trim() : trimmed);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Build a successful agent result, attaching structured data when a schema is set.
+ */
+function buildResult(
+	text: string,
+	iterations: number,
+	llmCalls: number,
+	calls: LlmCallUsage[],
+	accumulatedContent: Map<string, AcquiredContent>,
+	toolCalling: 'native' | 'react',
+	outputSchema?: JsonSchema,
+	data?: unknown,
+): AgentResult {
+	const result: AgentResult = {
+		success: true,
+		text,
+		iterations,
+		llmCalls,
+		sources: Array.from(accumulatedContent.keys()),
+		estimatedCost: formatCost(getTotalCost(calls)),
+		usage: calls,
+		toolCalling,
+	};
+
+	if (outputSchema) {
+		result.data = data;
+		result.schemaValidation =
+			data === undefined
+				? { valid: false, errors: ['$: no structured result was returned'] }
+				: validateAgainstSchema(data, outputSchema);
+	}
+
+	return result;
+}
+
 /**
  * Build a fallback summary from raw content when LLM fails.
  */
@@ -204,22 +434,60 @@ export async function executeAgent(
 	options: AgentOptions = {},
 ): Promise<AgentResult> {
 	const maxIterations = options.maxIterations || 5;
+	const { outputSchema } = options;
+	const toolCallingMode = options.toolCalling || 'auto';
+	let useNativeTools = toolCallingMode !== 'react';
+	const tools = formatToolsForOpenAI(outputSchema);
 	const scratchpad: ScratchpadEntry[] = [];
 	const accumulatedContent = new Map<string, AcquiredContent>();
 	let llmCalls = 0;
-	let totalCost = 0;
+	const calls: LlmCallUsage[] = [];
 
 	// Add initial content
 	accumulatedContent.set(initialContent.url, initialContent);
 
+	// One FlareSolverr browser for the whole run, started on first use
+	const flareSolverrSession = options.flareSolverrUrl ? createFlareSolverrSession(options.flareSolverrUrl) : undefined;
+
 	// Tool execution context
 	const toolContext: ToolContext = {
 		flareSolverrUrl: options.flareSolverrUrl,
 		crawl4aiBaseUrl: options.crawl4aiBaseUrl,
+		politeness: options.politeness,
+		cache: options.cache,
+		proxyPool: options.proxyPool,
+		session: options.session,
+		flareSolverrSession,
 		acquiredContent: accumulatedContent,
 	};
 
-	const systemPrompt = buildSystemPrompt();
+	// Add new calls to the shared budget right away, so agents running in
+	// parallel for other URLs and items see them before their next call
+	let budgetedCalls = 0;
+	const recordBudgetUsage = () => {
+		if (options.budget) addBudgetUsage(options.budget, calls.slice(budgetedCalls));
+		budgetedCalls = calls.length;
+	};
+
+	// Check the budget before a call with the given prompt
+	const getBudgetExceeded = (promptText: string): string | undefined =>
+		options.budget
+			? checkBudget(options.budget, calls.slice(budgetedCalls), model, promptText, llmConfig.modelPricing)
+			: undefined;
+
+	// Stop cleanly with a partial answer built from the gathered content
+	const stopForBudget = (reason: string, iterations: number): AgentResult => ({
+		...buildResult(
+			buildFallbackSummary(task, accumulatedContent),
+			iterations,
+			llmCalls,
+			calls,
+			accumulatedContent,
+			useNativeTools ? 'native' : 'react',
+			outputSchema,
+		),
+		budgetExceeded: reason,
+	});
 
 	try {
 		for (let iteration = 1; iteration <= maxIterations; iteration++) {
@@ -232,23 +500,57 @@ export async function executeAgent(
 				nonLlmAttempt,
 				scratchpad,
 				accumulatedContent,
+				outputSchema,
 			};
 
-			const userPrompt = buildUserPrompt(promptContext);
+			// Check budget before calling the LLM
+			const budgetExceeded = getBudgetExceeded(
+				buildSystemPrompt(useNativeTools) +
+					buildUserPrompt({ ...promptContext, nativeTools: useNativeTools }) +
+					(useNativeTools ? JSON.stringify(tools) : ''),
+			);
+			if (budgetExceeded) {
+				return stopForBudget(budgetExceeded, iteration - 1);
+			}
 
 			// Call LLM
 			llmCalls++;
-			totalCost += estimateCostPerCall(model);
-			const llmResponse = await callLLM(systemPrompt, userPrompt, llmConfig, model);
+			let reply: AgentReply | undefined;
+			if (useNativeTools) {
+				try {
+					reply = await callLLMWithTools(
+						buildSystemPrompt(true),
+						buildUserPrompt({ ...promptContext, nativeTools: true }),
+						tools,
+						llmConfig,
+						model,
+						calls,
+					);
+					recordBudgetUsage();
+				} catch (error) {
+					if (!(error instanceof ToolCallingUnsupportedError) || toolCallingMode === 'native') {
+						throw error;
+					}
+					// Provider has no tool support: switch to the ReAct text protocol for the rest of the run.
+					// The failed native call still counts, and the ReAct retry is another call
+					useNativeTools = false;
+					llmCalls++;
+				}
+			}
+			if (!reply) {
+				const llmResponse = await callLLM(buildSystemPrompt(), buildUserPrompt(promptContext), llmConfig, model, calls);
+				recordBudgetUsage();
+				reply = { step: parseLLMResponse(llmResponse), raw: llmResponse };
+			}
 
 			// Parse response
-			const parsed = parseLLMResponse(llmResponse);
+			const parsed = reply.step;
 			if (!parsed) {
 				// LLM gave invalid response, add to scratchpad and continue
 				scratchpad.push({
 					iteration,
 					thinking: 'Failed to parse response',
-					action: { tool: 'error', params: { raw: llmResponse.slice(0, 200) } },
+					action: { tool: 'error', params: { raw: reply.raw.slice(0, 200) } },
 					result: 'Invalid response format',
 				});
 				continue;
@@ -257,31 +559,61 @@ export async function executeAgent(
 			// Check if complete
 			if (parsed.action.tool === 'complete') {
 				const result = (parsed.action.params.result as string) || '';
-				
+				const data = outputSchema
+					? (parseStructuredData(parsed.action.params.data) ?? parseStructuredData(result))
+					: undefined;
+
+				// With an output schema, give the agent a chance to fix invalid data
+				if (outputSchema && iteration < maxIterations) {
+					const validation =
+						data === undefined
+							? { valid: false, errors: ['$: "data" parameter is missing or not valid JSON'] }
+							: validateAgainstSchema(data, outputSchema);
+					if (!validation.valid) {
+						scratchpad.push({
+							iteration,
+							thinking: parsed.thinking,
+							action: parsed.action,
+							result: `Error: data does not match OUTPUT SCHEMA: ${validation.errors.slice(0, 10).join('; ')}`,
+						});
+						continue;
+					}
+				}
+
 				// If result is empty, force a proper synthesis
-				if (!result.trim()) {
+				if (!result.trim() && data === undefined) {
 					// Agent called complete without a result - force synthesis
+					const synthesisBudgetExceeded = getBudgetExceeded(
+						buildForcedCompletionPrompt(task, accumulatedContent, outputSchema),
+					);
+					if (synthesisBudgetExceeded) {
+						return stopForBudget(synthesisBudgetExceeded, iteration);
+					}
 					llmCalls++;
-					totalCost += estimateCostPerCall(model);
-					const synthesizedResult = await forcedCompletion(task, accumulatedContent, llmConfig, model);
-					return {
-						success: true,
-						text: synthesizedResult,
-						iterations: iteration,
+					const synthesizedResult = await forcedCompletion(task, accumulatedContent, llmConfig, model, calls, outputSchema);
+					recordBudgetUsage();
+					return buildResult(
+						synthesizedResult,
+						iteration,
 						llmCalls,
-						sources: Array.from(accumulatedContent.keys()),
-						estimatedCost: formatCost(totalCost),
-					};
+						calls,
+						accumulatedContent,
+						useNativeTools ? 'native' : 'react',
+						outputSchema,
+						parseStructuredData(synthesizedResult),
+					);
 				}
-				
-				return {
-					success: true,
-					text: result,
-					iterations: iteration,
+
+				return buildResult(
+					result.trim() ? result : JSON.stringify(data),
+					iteration,
 					llmCalls,
-					sources: Array.from(accumulatedContent.keys()),
-					estimatedCost: formatCost(totalCost),
-				};
+					calls,
+					accumulatedContent,
+					useNativeTools ? 'native' : 'react',
+					outputSchema,
+					data,
+				);
 			}
 
 			// Execute tool
@@ -306,18 +638,26 @@ export async function executeAgent(
 		}
 
 		// Max iterations reached - force completion
+		const completionBudgetExceeded = getBudgetExceeded(
+			buildForcedCompletionPrompt(task, accumulatedContent, outputSchema),
+		);
+		if (completionBudgetExceeded) {
+			return stopForBudget(completionBudgetExceeded, maxIterations);
+		}
 		llmCalls++;
-		totalCost += estimateCostPerCall(model);
-		const finalResult = await forcedCompletion(task, accumulatedContent, llmConfig, model);
+		const finalResult = await forcedCompletion(task, accumulatedContent, llmConfig, model, calls, outputSchema);
+		recordBudgetUsage();
 
-		return {
-			success: true,
-			text: finalResult,
-			iterations: maxIterations,
+		return buildResult(
+			finalResult,
+			maxIterations,
 			llmCalls,
-			sources: Array.from(accumulatedContent.keys()),
-			estimatedCost: formatCost(totalCost),
-		};
+			calls,
+			accumulatedContent,
+			useNativeTools ? 'native' : 'react',
+			outputSchema,
+			outputSchema ? parseStructuredData(finalResult) : undefined,
+		);
 	} catch (error) {
 		return {
 			success: false,
@@ -325,9 +665,14 @@ export async function executeAgent(
 			iterations: scratchpad.length,
 			llmCalls,
 			sources: Array.from(accumulatedContent.keys()),
-			estimatedCost: formatCost(totalCost),
+			estimatedCost: formatCost(getTotalCost(calls)),
+			usage: calls,
+			toolCalling: useNativeTools ? 'native' : 'react',
 			error: error instanceof Error ? error.message : 'Unknown error',
 		};
+	} finally {
+		recordBudgetUsage();
+		await flareSolverrSession?.destroy();
 	}
 }
 
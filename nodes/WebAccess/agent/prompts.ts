@@ -8,6 +8,7 @@
 import type { AcquiredContent } from '../stages/acquire';
 import type { ExtractionAttempt } from '../stages/extract';
 import { formatToolsForLLM } from './tools';
+import type { JsonSchema } from '../utils/schema';
 
 /**
  * Entry in the agent's scratchpad (memory).
@@ -33,22 +34,43 @@ export interface PromptContext {
 	nonLlmAttempt: ExtractionAttempt;
 	scratchpad: ScratchpadEntry[];
 	accumulatedContent: Map<string, AcquiredContent>;
+	/** JSON Schema the structured answer must match */
+	outputSchema?: JsonSchema;
+	/** Whether tools are offered through native tool calling instead of the JSON text protocol */
+	nativeTools?: boolean;
 }
 
 /**
- * Build the system prompt for the agent.
- * 
- * @returns {string} System prompt
+ * Shared opening of the system prompt: role and rules.
  */
-export function buildSystemPrompt(): string {
-	return `You are a web research agent. Your goal is to complete the user's task by gathering and synthesizing information from web pages.
+const SYSTEM_PROMPT_RULES = `You are a web research agent. Your goal is to complete the user's task by gathering and synthesizing information from web pages.
 
 ## IMPORTANT RULES
 1. Think step-by-step before taking action
 2. Don't repeat actions that were already tried
 3. Use the simplest approach that works
 4. When you have enough information, call complete() with your answer
-5. CRITICAL: When calling complete(), you MUST provide a detailed, useful answer in the "result" parameter. Never leave it empty.
+5. CRITICAL: When calling complete(), you MUST provide a detailed, useful answer in the "result" parameter. Never leave it empty.`;
+
+/**
+ * Build the system prompt for the agent.
+ * 
+ * With native tool calling the tools are sent as function definitions,
+ * so the prompt only asks for one tool call per turn. Otherwise the
+ * tools and the JSON response format are described in text (ReAct).
+ * 
+ * @param {boolean} [nativeTools=false] - Whether native tool calling is used
+ * @returns {string} System prompt
+ */
+export function buildSystemPrompt(nativeTools = false): string {
+	if (nativeTools) {
+		return `${SYSTEM_PROMPT_RULES}
+
+## RESPONSE FORMAT
+Respond by calling exactly one of the provided tools. Write your step-by-step reasoning as the message text alongside the tool call.`;
+	}
+
+	return `${SYSTEM_PROMPT_RULES}
 
 ## AVAILABLE TOOLS
 ${formatToolsForLLM()}
@@ -91,6 +113,8 @@ export function buildUserPrompt(context: PromptContext): string {
 		nonLlmAttempt,
 		scratchpad,
 		accumulatedContent,
+		outputSchema,
+		nativeTools,
 	} = context;
 
 	const parts: string[] = [];
@@ -112,13 +136,17 @@ export function buildUserPrompt(context: PromptContext): string {
 	parts.push(`\n## INITIAL CONTENT (from Stage 1)`);
 	parts.push(`URL: ${initialContent.url}`);
 	parts.push(`Method used: ${initialContent.method}`);
+	if (initialContent.document) {
+		parts.push(`Content type: ${initialContent.document.kind.toUpperCase()} document (text below is extracted from it)`);
+	}
 	parts.push(`Scrape time: ${initialContent.scrapeTime}ms`);
 	if (initialContent.success) {
 		// Truncate text preview to avoid token overload
-		const preview = initialContent.text.slice(0, 3000);
-		parts.push(`\nContent preview:\n"""\n${preview}\n"""`);
-		if (initialContent.text.length > 3000) {
-			parts.push(`... (${initialContent.text.length - 3000} more characters)`);
+		const pageText = getPromptText(initialContent);
+		const preview = pageText.slice(0, 3000);
+		parts.push(`\nContent preview${initialContent.markdown ? ' (main content as Markdown)' : ''}:\n"""\n${preview}\n"""`);
+		if (pageText.length > 3000) {
+			parts.push(`... (${pageText.length - 3000} more characters)`);
 		}
 	} else {
 		parts.push(`Error: ${initialContent.error}`);
@@ -130,11 +158,21 @@ export function buildUserPrompt(context: PromptContext): string {
 	parts.push(`Result: ${nonLlmAttempt.success ? 'Success' : 'Failed'}`);
 	parts.push(`Reason: ${nonLlmAttempt.reason}`);
 	if (nonLlmAttempt.data) {
-		const dataStr = JSON.stringify(nonLlmAttempt.data, null, 2);
+		// Structured data and tables get their own sections so they aren't hidden in a large object
+		const { structuredData, tables, ...found } = nonLlmAttempt.data;
+		const dataStr = JSON.stringify(found, null, 2);
 		if (dataStr.length < 1000) {
 			parts.push(`Data found:\n${dataStr}`);
 		} else {
-			parts.push(`Data found: (large object, ${Object.keys(nonLlmAttempt.data).join(', ')})`);
+			parts.push(`Data found: (large object, ${Object.keys(found).join(', ')})`);
+		}
+		if (structuredData) {
+			const structuredStr = JSON.stringify(structuredData);
+			parts.push(`Structured data on the page (JSON-LD, microdata, RDFa, OpenGraph, Twitter):\n${structuredStr.slice(0, 3000)}${structuredStr.length > 3000 ? '...' : ''}`);
+		}
+		if (tables?.length) {
+			const tablesStr = JSON.stringify(tables);
+			parts.push(`Tables on the page (${tables.length}, rows keyed by column name):\n${tablesStr.slice(0, 3000)}${tablesStr.length > 3000 ? '...' : ''}`);
 		}
 	}
 	parts.push(`\nDetected intent: ${formatIntent(nonLlmAttempt.detectedIntent)}`);
@@ -161,18 +199,25 @@ export function buildUserPrompt(context: PromptContext): string {
 			if (url === initialContent.url) continue; // Skip initial, already shown
 			parts.push(`\n### ${url}`);
 			if (content.success) {
-				const preview = content.text.slice(0, 1000);
-				parts.push(`Content: ${preview}${content.text.length > 1000 ? '...' : ''}`);
+				const pageText = getPromptText(content);
+				parts.push(`Content: ${pageText.slice(0, 1000)}${pageText.length > 1000 ? '...' : ''}`);
 			} else {
 				parts.push(`Error: ${content.error}`);
 			}
 		}
 	}
 
+	// Output schema for structured answers
+	if (outputSchema) {
+		parts.push(`\n## OUTPUT SCHEMA`);
+		parts.push(`When calling complete(), include a "data" parameter with a JSON value that validates against this JSON Schema:`);
+		parts.push(JSON.stringify(outputSchema, null, 2));
+	}
+
 	// Final instruction
 	parts.push(`\n## YOUR TURN`);
 	parts.push(`Think about what you need to do to complete the task, then take action.`);
-	parts.push(`Remember: Respond with valid JSON only.`);
+	parts.push(nativeTools ? `Remember: Call exactly one tool.` : `Remember: Respond with valid JSON only.`);
 
 	return parts.join('\n');
 }
@@ -192,6 +237,9 @@ function formatIntent(intent: ExtractionAttempt['detectedIntent']): string {
 	if (intent.isComplexTask) flags.push('complex-multi-step');
 	if (intent.requiresNavigation) flags.push('requires-navigation');
 	if (intent.wantsStructuredData) flags.push('structured-data');
+	if (intent.wantsTable) flags.push('table');
+	if (intent.wantsAddress) flags.push('address');
+	if (intent.wantsHours) flags.push('hours');
 	if (intent.isGeneral) flags.push('general');
 	return flags.join(', ') || 'none detected';
 }
@@ -257,11 +305,13 @@ export function parseLLMResponse(response: string): {
  * 
  * @param {string} task - Original task
  * @param {Map<string, AcquiredContent>} content - All acquired content
+ * @param {JsonSchema} [outputSchema] - Schema the answer must match, if any
  * @returns {string} Prompt for forced completion
  */
 export function buildForcedCompletionPrompt(
 	task: string,
 	content: Map<string, AcquiredContent>,
+	outputSchema?: JsonSchema,
 ): string {
 	const parts: string[] = [];
 
@@ -273,7 +323,7 @@ export function buildForcedCompletionPrompt(
 	for (const [url, c] of content) {
 		parts.push(`\n### ${url}`);
 		if (c.success) {
-			parts.push(c.text.slice(0, 2000));
+			parts.push(getPromptText(c).slice(0, 2000));
 		} else {
 			parts.push(`(Failed to load: ${c.error})`);
 		}
@@ -283,6 +333,19 @@ export function buildForcedCompletionPrompt(
 	parts.push(`Synthesize all the information above and provide a comprehensive answer to the task.`);
 	parts.push(`Be specific and include relevant details from the scraped content.`);
 
+	if (outputSchema) {
+		parts.push(`\n## OUTPUT SCHEMA`);
+		parts.push(`Respond with ONLY a JSON value that validates against this JSON Schema, no other text:`);
+		parts.push(JSON.stringify(outputSchema, null, 2));
+	}
+
 	return parts.join('\n');
 }
 
+/**
+ * Page content for prompts: the main content as Markdown when available,
+ * which carries more of the page per token than the flattened body text.
+ */
+function getPromptText(content: AcquiredContent): string {
+	return content.markdown || content.text;
+}
@@ -8,14 +8,19 @@
 import { acquireContent, type AcquiredContent, type AcquireOptions } from '../stages/acquire';
 import { extractInternalLinks } from '../utils/extraction';
 import { crawl4aiCrawl } from '../strategies/crawl4ai';
-import type { CrawledPage } from '../utils/types';
+import { filterByRobotsTxt } from '../utils/politeness';
+import type { ProxyPool } from '../utils/proxy';
+import type { RequestSession } from '../utils/session';
+import type { FlareSolverrSession } from '../strategies/flaresolverr';
+import type { CacheOptions, CrawledPage, PolitenessOptions } from '../utils/types';
+import type { JsonSchema } from '../utils/schema';
 
 /**
  * Tool parameter definition.
  */
 export interface ToolParam {
 	name: string;
-	type: 'string' | 'number' | 'boolean';
+	type: 'string' | 'number' | 'boolean' | 'object';
 	description: string;
 	required: boolean;
 	default?: string | number | boolean;
@@ -38,6 +43,18 @@ export interface ToolCall {
 	params: Record<string, unknown>;
 }
 
+/**
+ * Tool definition in the OpenAI `tools` request format.
+ */
+export interface OpenAITool {
+	type: 'function';
+	function: {
+		name: string;
+		description: string;
+		parameters: JsonSchema;
+	};
+}
+
 /**
  * Result of a tool execution.
  */
@@ -55,6 +72,11 @@ export interface ToolResult {
 export interface ToolContext {
 	flareSolverrUrl?: string;
 	crawl4aiBaseUrl?: string;
+	politeness?: PolitenessOptions;
+	cache?: CacheOptions;
+	proxyPool?: ProxyPool;
+	session?: RequestSession;
+	flareSolverrSession?: FlareSolverrSession;
 	acquiredContent: Map<string, AcquiredContent>;
 }
 
@@ -110,6 +132,12 @@ export const AGENT_TOOLS: AgentTool[] = [
 				description: 'Your complete text answer to the task. Be detailed and comprehensive.',
 				required: true,
 			},
+			{
+				name: 'data',
+				type: 'object',
+				description: 'Structured answer as a JSON value matching the OUTPUT SCHEMA. Required only when an output schema is given.',
+				required: false,
+			},
 		],
 	},
 ];
@@ -166,7 +194,7 @@ async function executeScrapeTool(
 			content: existing,
 			data: {
 				alreadyScraped: true,
-				textPreview: existing.text.slice(0, 500),
+				textPreview: (existing.markdown || existing.text).slice(0, 500),
 			},
 		};
 	}
@@ -174,6 +202,11 @@ async function executeScrapeTool(
 	const options: AcquireOptions = {
 		flareSolverrUrl: context.flareSolverrUrl,
 		preferredMethod: method as 'http' | 'flaresolverr' | 'puppeteer',
+		politeness: context.politeness,
+		cache: context.cache,
+		proxyPool: context.proxyPool,
+		session: context.session,
+		flareSolverrSession: context.flareSolverrSession,
 	};
 
 	const content = await acquireContent(url, options);
@@ -185,8 +218,9 @@ async function executeScrapeTool(
 			content,
 			data: {
 				method: content.method,
+				contentKind: content.contentKind,
 				textLength: content.text.length,
-				textPreview: content.text.slice(0, 1000),
+				textPreview: (content.markdown || content.text).slice(0, 1000),
 			},
 		};
 	}
@@ -214,7 +248,9 @@ async function executeCrawlLinksTool(
 	// Try Crawl4AI if available
 	if (context.crawl4aiBaseUrl) {
 		try {
-			const pages = await crawl4aiCrawl(context.crawl4aiBaseUrl, url, maxPages);
+			const crawled = await crawl4aiCrawl(context.crawl4aiBaseUrl, url, maxPages);
+			const allowed = new Set(await filterByRobotsTxt(crawled.map(p => p.url), context.politeness));
+			const pages = crawled.filter(p => allowed.has(p.url));
 			if (pages.length > 0) {
 				return {
 					success: true,
@@ -236,14 +272,21 @@ async function executeCrawlLinksTool(
 	// Fallback: Get page content and extract links
 	let content = context.acquiredContent.get(url);
 	if (!content) {
-		content = await acquireContent(url, { flareSolverrUrl: context.flareSolverrUrl });
+		content = await acquireContent(url, {
+			flareSolverrUrl: context.flareSolverrUrl,
+			politeness: context.politeness,
+			cache: context.cache,
+			proxyPool: context.proxyPool,
+			session: context.session,
+			flareSolverrSession: context.flareSolverrSession,
+		});
 		if (content.success) {
 			context.acquiredContent.set(url, content);
 		}
 	}
 
 	if (content && content.html) {
-		const links = extractInternalLinks(content.html, url);
+		const links = await filterByRobotsTxt(extractInternalLinks(content.html, url), context.politeness);
 		const pages = links.slice(0, maxPages).map(linkUrl => ({
 			url: linkUrl,
 			title: undefined,
@@ -292,3 +335,36 @@ export function formatToolsForLLM(): string {
 	}).join('\n\n');
 }
 
+/**
+ * Format tools as OpenAI function definitions for native tool calling.
+ * 
+ * When an output schema is given, it becomes the JSON schema of the
+ * complete tool's `data` parameter.
+ * 
+ * @param {JsonSchema} [outputSchema] - Schema for the structured answer, if any
+ * @returns {OpenAITool[]} Tool definitions for the `tools` request field
+ */
+export function formatToolsForOpenAI(outputSchema?: JsonSchema): OpenAITool[] {
+	return AGENT_TOOLS.map(tool => {
+		const properties: Record<string, JsonSchema> = {};
+		for (const p of tool.params) {
+			properties[p.name] =
+				tool.name === 'complete' && p.name === 'data' && outputSchema
+					? { ...outputSchema, description: p.description }
+					: { type: p.type, description: p.description };
+		}
+
+		return {
+			type: 'function' as const,
+			function: {
+				name: tool.name,
+				description: tool.description,
+				parameters: {
+					type: 'object',
+					properties,
+					required: tool.params.filter(p => p.required).map(p => p.name),
+				},
+			},
+		};
+	});
+}
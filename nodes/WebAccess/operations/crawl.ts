@@ -0,0 +1,438 @@
+/**
+ * Crawl Operation
+ *
+ * Multi-page variant of Stage 2: discovers internal links from the seed
+ * page, acquires them and runs non-LLM extraction on each page, merging
+ * the results into a single extraction attempt. The contact crawl does
+ * the same for the few pages most likely to hold contact details.
+ */
+
+import { acquireContent, type AcquiredContent } from '../stages/acquire';
+import { tryNonLlmExtraction, type ExtractionAttempt, type ExtractionData } from '../stages/extract';
+import { crawl4aiCrawl } from '../strategies/crawl4ai';
+import { extractInternalPages, getContactPageUrls } from '../utils/extraction';
+import { extractPostalAddresses } from '../utils/addresses';
+import { extractEmailAddresses } from '../utils/emails';
+import { extractPhoneNumbers, getDefaultRegion } from '../utils/phones';
+import { extractSocialProfiles } from '../utils/social';
+import { extractStructuredData, getStructuredContacts } from '../utils/structuredData';
+import { scorePageForIntent } from '../utils/taskIntent';
+import { DEFAULT_CONTACT_PAGES, MAX_CRAWL_CANDIDATES } from '../utils/config';
+import type { ProxyPool } from '../utils/proxy';
+import type { RequestSession } from '../utils/session';
+import type {
+	CacheOptions,
+	ContactPageData,
+	CrawledPage,
+	CrawlEmailData,
+	PolitenessOptions,
+	TaskIntent,
+} from '../utils/types';
+
+/**
+ * Default number of pages to visit besides the seed page.
+ */
+const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * Intent used to rank pages by how likely they hold contact details.
+ */
+const CONTACT_INTENT: TaskIntent = { wantsEmail: true, wantsPhone: true };
+
+/**
+ * Score bonus for pages the seed links to over guessed paths, which may not exist.
+ */
+const LINKED_PAGE_BONUS = 5;
+
+/**
+ * Options for a crawl.
+ */
+export interface CrawlOptions {
+	/** FlareSolverr URL for bypassing Cloudflare */
+	flareSolverrUrl?: string;
+	/** Crawl4AI base URL, used for link discovery when set */
+	crawl4aiBaseUrl?: string;
+	/** Maximum pages to visit besides the seed page */
+	maxPages?: number;
+	/** robots.txt, rate limit and user agent settings */
+	politeness?: PolitenessOptions;
+	/** Content cache settings */
+	cache?: CacheOptions;
+	/** Proxies for page requests */
+	proxyPool?: ProxyPool;
+	/** Custom headers and cookies for page requests */
+	session?: RequestSession;
+}
+
+/**
+ * Result of a crawl: a merged extraction attempt plus crawl statistics.
+ */
+export interface CrawlAttempt extends ExtractionAttempt {
+	/** Number of pages that were acquired and inspected (including the seed) */
+	pagesChecked: number;
+	/** Number of pages that yielded emails, phones, products or tables */
+	pagesWithData: number;
+	/** URLs of pages that yielded data */
+	sources: string[];
+}
+
+/**
+ * Result of a contact crawl: the merged extraction attempt plus the
+ * contact details found on each page.
+ */
+export interface ContactCrawlAttempt extends CrawlAttempt {
+	/** Emails, phones, addresses and social profiles, overall and per page */
+	contacts: CrawlEmailData;
+}
+
+/**
+ * Crawl internal pages from a seed page and extract data from each.
+ *
+ * Link discovery uses Crawl4AI when configured, otherwise the seed page's
+ * internal links. For contact-style tasks, links are visited in order of
+ * scorePageForIntent. Tables Crawl4AI found in a page fill in for pages whose
+ * HTML has none (e.g. tables built by scripts). Stops early when a contact-style task is satisfied;
+ * product tasks keep collecting across all pages.
+ *
+ * @param {AcquiredContent} seed - Content of the seed page from Stage 1
+ * @param {string} task - Task description
+ * @param {CrawlOptions} options - Crawl options
+ * @returns {Promise<CrawlAttempt>} Merged extraction result with crawl statistics
+ */
+export async function crawlAndExtract(
+	seed: AcquiredContent,
+	task: string,
+	options: CrawlOptions = {},
+): Promise<CrawlAttempt> {
+	const maxPages = Math.min(options.maxPages || DEFAULT_MAX_PAGES, MAX_CRAWL_CANDIDATES);
+	const seedAttempt = tryNonLlmExtraction(seed, task);
+	const intent = seedAttempt.detectedIntent;
+
+	const merged: ExtractionData = { ...(seedAttempt.data || {}) };
+	const sources: string[] = hasFindings(seedAttempt.data) ? [seed.url] : [];
+	let pagesChecked = 1;
+
+	const whatWasTried = [...seedAttempt.whatWasTried, 'internal_link_discovery', 'multi_page_extraction'];
+
+	if (!(seedAttempt.success && !intent.wantsProducts)) {
+		const discovered = (await discoverLinks(seed, maxPages, options.crawl4aiBaseUrl)).filter(
+			(link) => link.url !== seed.url,
+		);
+		// Contact details are usually on a few well-named pages; visit those first
+		const wantsContacts = intent.wantsEmail || intent.wantsPhone || intent.wantsAddress || intent.wantsHours;
+		const links = (
+			wantsContacts && !intent.wantsProducts
+				? [...discovered].sort(
+						(a, b) => scorePageForIntent(b, CONTACT_INTENT) - scorePageForIntent(a, CONTACT_INTENT),
+					)
+				: discovered
+		).slice(0, maxPages);
+
+		for (const link of links) {
+			const page = await acquireContent(link.url, {
+				flareSolverrUrl: options.flareSolverrUrl,
+				politeness: options.politeness,
+				cache: options.cache,
+				proxyPool: options.proxyPool,
+				session: options.session,
+				skipPuppeteer: seed.method !== 'puppeteer',
+			});
+			if (!page.success) continue;
+
+			pagesChecked++;
+			const attempt = tryNonLlmExtraction(page, task);
+			if (intent.wantsTable && !attempt.data?.tables?.length && link.tables?.length) {
+				attempt.data = { ...(attempt.data || {}), tables: link.tables };
+			}
+			if (hasFindings(attempt.data)) {
+				sources.push(link.url);
+				mergeExtractionData(merged, attempt.data as ExtractionData);
+			}
+
+			if (isSatisfied(merged, intent) && !intent.wantsProducts) break;
+		}
+	}
+
+	const pagesWithData = sources.length;
+	const success = isSatisfied(merged, intent) || (seedAttempt.success && pagesWithData > 0);
+
+	return {
+		success,
+		data: hasFindings(merged) || merged.text ? merged : null,
+		whatWasTried,
+		reason: success
+			? `Found data on ${pagesWithData} of ${pagesChecked} page(s)`
+			: `No matching data found on ${pagesChecked} crawled page(s)`,
+		detectedIntent: intent,
+		pagesChecked,
+		pagesWithData,
+		sources,
+	};
+}
+
+/**
+ * Look for contact details on the pages of a site most likely to hold them.
+ *
+ * Candidates are the seed page's internal links and conventional paths
+ * (/contact, /about-us, /support...), ranked with scorePageForIntent on
+ * their URL and link text. Linked pages get a bonus over guessed paths,
+ * and pages with no contact signal are not visited. Pages are
+ * fetched with the method that worked for the seed. Stops once the
+ * task's emails, phone numbers, addresses or opening hours are found.
+ * No LLM calls are made.
+ *
+ * @param {AcquiredContent} seed - Content of the seed page from Stage 1
+ * @param {string} task - Task description
+ * @param {CrawlOptions} options - Crawl options; maxPages defaults to DEFAULT_CONTACT_PAGES
+ * @returns {Promise<ContactCrawlAttempt>} Merged extraction result with the contact details per page
+ */
+export async function crawlContactPages(
+	seed: AcquiredContent,
+	task: string,
+	options: CrawlOptions = {},
+): Promise<ContactCrawlAttempt> {
+	const maxPages = Math.min(options.maxPages ?? DEFAULT_CONTACT_PAGES, MAX_CRAWL_CANDIDATES);
+	const seedAttempt = tryNonLlmExtraction(seed, task);
+	const intent = seedAttempt.detectedIntent;
+
+	const merged: ExtractionData = { ...(seedAttempt.data || {}) };
+	const sources: string[] = hasFindings(seedAttempt.data) ? [seed.url] : [];
+	const contacts: CrawlEmailData = { emails: [], phones: [], addresses: [], socialProfiles: [], pages: [] };
+	addPageContacts(contacts, getPageContacts(seed));
+	const seenTexts = new Set([seed.text]);
+	let pagesChecked = 1;
+
+	for (const url of rankContactPages(seed, maxPages)) {
+		if (isSatisfied(merged, intent)) break;
+
+		const page = await acquireContent(url, {
+			flareSolverrUrl: options.flareSolverrUrl,
+			politeness: options.politeness,
+			cache: options.cache,
+			proxyPool: options.proxyPool,
+			session: options.session,
+			preferredMethod: seed.method,
+			skipFlareSolverr: seed.method !== 'flaresolverr',
+			skipPuppeteer: seed.method !== 'puppeteer',
+		});
+		// Guessed paths often redirect to a page already seen, such as the home page
+		if (!page.success || seenTexts.has(page.text)) continue;
+		seenTexts.add(page.text);
+
+		pagesChecked++;
+		addPageContacts(contacts, getPageContacts(page));
+		const attempt = tryNonLlmExtraction(page, task);
+		if (hasFindings(attempt.data)) {
+			sources.push(page.url);
+			mergeExtractionData(merged, attempt.data as ExtractionData);
+		}
+	}
+
+	const pagesWithData = sources.length;
+	const success = isSatisfied(merged, intent);
+
+	return {
+		success,
+		data: hasFindings(merged) || merged.text ? merged : null,
+		whatWasTried: [...seedAttempt.whatWasTried, 'contact_page_discovery', 'multi_page_extraction'],
+		reason: success
+			? `Found contact details on ${pagesWithData} of ${pagesChecked} page(s)`
+			: `No matching contact details found on ${pagesChecked} page(s)`,
+		detectedIntent: intent,
+		pagesChecked,
+		pagesWithData,
+		sources,
+		contacts,
+	};
+}
+
+/**
+ * Rank the seed page's links and conventional contact paths, best first.
+ */
+function rankContactPages(seed: AcquiredContent, maxPages: number): string[] {
+	const seen = new Set([normalizePageUrl(seed.url)]);
+	const candidates: Array<{ url: string; score: number }> = [];
+	const add = (page: CrawledPage, bonus: number) => {
+		const key = normalizePageUrl(page.url);
+		if (seen.has(key)) return;
+		seen.add(key);
+		const score = scorePageForIntent(page, CONTACT_INTENT);
+		if (score > 0) candidates.push({ url: page.url, score: score + bonus });
+	};
+
+	if (!seed.document) {
+		extractInternalPages(seed.html, seed.url).forEach((page) => add(page, LINKED_PAGE_BONUS));
+	}
+	getContactPageUrls(seed.url).forEach((url) => add({ url }, 0));
+
+	return candidates
+		.sort((a, b) => b.score - a.score)
+		.slice(0, maxPages)
+		.map((candidate) => candidate.url);
+}
+
+/**
+ * Read all contact details of a page, whatever the task asked for.
+ */
+function getPageContacts(content: AcquiredContent): ContactPageData {
+	const html = content.document ? undefined : content.html;
+	const structured = html
+		? getStructuredContacts(extractStructuredData(html))
+		: { emails: [], phones: [], addresses: [], openingHours: [], profiles: [] };
+
+	return {
+		url: content.url,
+		emails: extractEmailAddresses({
+			html,
+			text: content.text,
+			structured: structured.emails,
+			pageUrl: content.url,
+		}).map((email) => email.address),
+		phones: extractPhoneNumbers({
+			html,
+			text: content.text,
+			structured: structured.phones,
+			defaultRegion: getDefaultRegion(content.url, html),
+		}).map((phone) => phone.e164),
+		addresses: extractPostalAddresses({
+			html,
+			text: content.text,
+			structured: structured.addresses,
+			defaultRegion: getDefaultRegion(content.url, html),
+		}).map((address) => address.formatted),
+		socialProfiles: html ? extractSocialProfiles(html, content.url, structured.profiles) : [],
+	};
+}
+
+/**
+ * Add a page's contact details to the crawl totals, deduplicating.
+ * Pages without any are not listed.
+ */
+function addPageContacts(contacts: CrawlEmailData, page: ContactPageData): void {
+	if (!page.emails.length && !page.phones.length && !page.addresses.length && !page.socialProfiles.length) return;
+
+	contacts.pages.push(page);
+	contacts.emails = [...new Set([...contacts.emails, ...page.emails])];
+	contacts.phones = [...new Set([...contacts.phones, ...page.phones])];
+	contacts.addresses = [...new Set([...contacts.addresses, ...page.addresses])];
+	const seenProfiles = new Set(contacts.socialProfiles.map((profile) => profile.url));
+	contacts.socialProfiles.push(...page.socialProfiles.filter((profile) => !seenProfiles.has(profile.url)));
+}
+
+/**
+ * Normalize a page URL for comparison: no fragment, no trailing slash.
+ */
+function normalizePageUrl(url: string): string {
+	return url.replace(/#.*$/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Discover internal pages from the seed page.
+ */
+async function discoverLinks(
+	seed: AcquiredContent,
+	maxPages: number,
+	crawl4aiBaseUrl?: string,
+): Promise<CrawledPage[]> {
+	if (crawl4aiBaseUrl) {
+		try {
+			const pages = await crawl4aiCrawl(crawl4aiBaseUrl, seed.url, maxPages + 1);
+			if (pages.length > 0) {
+				return pages;
+			}
+		} catch {
+			// Fall through to HTML parsing
+		}
+	}
+
+	return extractInternalPages(seed.html, seed.url);
+}
+
+/**
+ * Check whether extraction data contains emails, phones, addresses, opening hours, products or tables.
+ */
+function hasFindings(data: ExtractionData | null): boolean {
+	if (!data) return false;
+	return Boolean(
+		data.emails?.length ||
+			data.phones?.length ||
+			data.addresses?.length ||
+			data.openingHours?.length ||
+			data.products?.length ||
+			data.tables?.length,
+	);
+}
+
+/**
+ * Check whether merged data satisfies the specific things the task asked for.
+ */
+function isSatisfied(data: ExtractionData, intent: ExtractionAttempt['detectedIntent']): boolean {
+	if (
+		!intent.wantsEmail &&
+		!intent.wantsPhone &&
+		!intent.wantsAddress &&
+		!intent.wantsHours &&
+		!intent.wantsProducts &&
+		!intent.wantsTable
+	) {
+		return false;
+	}
+	if (intent.wantsEmail && !data.emails?.length) return false;
+	if (intent.wantsPhone && !data.phones?.length) return false;
+	if (intent.wantsAddress && !data.addresses?.length) return false;
+	if (intent.wantsHours && !data.openingHours?.length) return false;
+	if (intent.wantsProducts && !data.products?.length) return false;
+	if (intent.wantsTable && !data.tables?.length) return false;
+	return true;
+}
+
+/**
+ * Merge findings from one page into the accumulated data, deduplicating.
+ */
+function mergeExtractionData(target: ExtractionData, source: ExtractionData): void {
+	if (source.emails?.length) {
+		target.emails = [...new Set([...(target.emails || []), ...source.emails])];
+	}
+	if (source.emailDetails?.length) {
+		const seenAddresses = new Set((target.emailDetails || []).map((email) => email.address));
+		target.emailDetails = [
+			...(target.emailDetails || []),
+			...source.emailDetails.filter((email) => !seenAddresses.has(email.address)),
+		];
+	}
+	if (source.phones?.length) {
+		target.phones = [...new Set([...(target.phones || []), ...source.phones])];
+	}
+	if (source.phoneDetails?.length) {
+		const seenNumbers = new Set((target.phoneDetails || []).map((phone) => phone.e164));
+		target.phoneDetails = [
+			...(target.phoneDetails || []),
+			...source.phoneDetails.filter((phone) => !seenNumbers.has(phone.e164)),
+		];
+	}
+	if (source.addressDetails?.length) {
+		const seenAddresses = new Set((target.addressDetails || []).map((address) => address.formatted));
+		target.addressDetails = [
+			...(target.addressDetails || []),
+			...source.addressDetails.filter((address) => !seenAddresses.has(address.formatted)),
+		];
+		target.addresses = target.addressDetails.map((address) => address.formatted);
+	}
+	if (source.openingHoursDetails?.length && !target.openingHoursDetails?.length) {
+		// Hours of different pages may be for different branches; keep the first page's
+		target.openingHoursDetails = source.openingHoursDetails;
+		target.openingHours = source.openingHours;
+	}
+	if (source.products?.length) {
+		// Products without their own link share the page URL; tell them apart by name
+		const getKey = (product: { name: string; url: string }) => `${product.url} ${product.name}`;
+		const seenProducts = new Set((target.products || []).map(getKey));
+		target.products = [
+			...(target.products || []),
+			...source.products.filter((product) => !seenProducts.has(getKey(product))),
+		];
+	}
+	if (source.tables?.length) {
+		target.tables = [...(target.tables || []), ...source.tables];
+	}
+}
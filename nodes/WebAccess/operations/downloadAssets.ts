@@ -0,0 +1,244 @@
+/**
+ * Download Assets Operation
+ *
+ * Finds PDFs, images and CSVs linked from a page, downloads them and
+ * returns them as binary data: one property per file, or a single zip.
+ */
+
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for zipping assets in self-hosted deployments
+import JSZip from 'jszip';
+import { acquireContent } from '../stages/acquire';
+import { downloadAsset } from '../strategies/http';
+import { extractAssetUrls } from '../utils/extraction';
+import { getAssetTypeFromTask } from '../utils/taskIntent';
+import { MAX_ASSETS } from '../utils/config';
+import type {
+	AssetType,
+	BinaryData,
+	DownloadAssetsData,
+	DownloadAssetsOptions,
+	DownloadedAsset,
+} from '../utils/types';
+
+/**
+ * All supported asset types, used when neither options nor task narrow it down.
+ */
+const ALL_ASSET_TYPES: AssetType[] = ['pdf', 'image', 'csv'];
+
+/**
+ * MIME types by file extension, used when the server sends a generic type.
+ */
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+	pdf: 'application/pdf',
+	csv: 'text/csv',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	png: 'image/png',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	avif: 'image/avif',
+	svg: 'image/svg+xml',
+	bmp: 'image/bmp',
+};
+
+/**
+ * Result of a download assets operation.
+ */
+export interface DownloadAssetsResult {
+	/** Whether at least one asset was downloaded */
+	success: boolean;
+	/** Metadata about the downloaded assets */
+	data: DownloadAssetsData | null;
+	/** Binary files keyed by property name */
+	binary?: Record<string, BinaryData>;
+	/** Method used to acquire the source page */
+	scrapeMethod?: string;
+	/** Whether the source page came from the content cache */
+	cacheHit?: boolean;
+	/** Proxy the source page was fetched through */
+	proxy?: string;
+	/** Error message if nothing could be downloaded */
+	error?: string;
+}
+
+/**
+ * Download assets linked from a URL.
+ *
+ * Asset types come from the options when set, otherwise from the task
+ * (e.g. "download all PDFs"), otherwise all supported types are collected.
+ *
+ * @param {string} url - Page to collect assets from
+ * @param {string} task - Task description
+ * @param {DownloadAssetsOptions} options - Download options
+ * @returns {Promise<DownloadAssetsResult>} Downloaded files and metadata
+ */
+export async function executeDownloadAssets(
+	url: string,
+	task: string,
+	options: DownloadAssetsOptions = {},
+): Promise<DownloadAssetsResult> {
+	const content = await acquireContent(url, {
+		flareSolverrUrl: options.flareSolverrUrl,
+		politeness: options.politeness,
+		cache: options.cache,
+		proxyPool: options.proxyPool,
+		session: options.session,
+	});
+	if (!content.success) {
+		return {
+			success: false,
+			data: null,
+			scrapeMethod: content.method,
+			cacheHit: content.cacheHit,
+			proxy: content.proxy,
+			error: content.error || 'Failed to acquire content',
+		};
+	}
+
+	const taskAssetType = getAssetTypeFromTask(task);
+	const assetTypes =
+		options.assetTypes && options.assetTypes.length > 0
+			? options.assetTypes
+			: taskAssetType
+				? [taskAssetType]
+				: ALL_ASSET_TYPES;
+	const maxAssets = Math.min(options.maxAssets || MAX_ASSETS, MAX_ASSETS);
+	const outputMode = options.outputMode || 'zip';
+	const binaryPropertyName = options.binaryPropertyName || 'assets';
+
+	// Collect candidate URLs per type, keeping the first type that claims a URL
+	const candidates: Array<{ url: string; assetType: AssetType }> = [];
+	const seenUrls = new Set<string>();
+	for (const assetType of assetTypes) {
+		for (const assetUrl of extractAssetUrls(content.html, content.url, assetType)) {
+			if (seenUrls.has(assetUrl)) continue;
+			seenUrls.add(assetUrl);
+			candidates.push({ url: assetUrl, assetType });
+		}
+	}
+
+	if (candidates.length === 0) {
+		return {
+			success: false,
+			data: null,
+			scrapeMethod: content.method,
+			cacheHit: content.cacheHit,
+			proxy: content.proxy,
+			error: `No ${assetTypes.join('/')} assets found on page`,
+		};
+	}
+
+	const assets: DownloadedAsset[] = [];
+	const files: BinaryData[] = [];
+	const failed: Array<{ url: string; error: string }> = [];
+	const usedFileNames = new Set<string>();
+
+	for (const candidate of candidates.slice(0, maxAssets)) {
+		const downloaded = await downloadAsset(candidate.url, {
+			proxy: options.proxyPool?.select(candidate.url),
+			session: options.session,
+		});
+		if (!downloaded) {
+			failed.push({ url: candidate.url, error: 'Download failed' });
+			continue;
+		}
+
+		const fileName = getUniqueFileName(candidate.url, candidate.assetType, usedFileNames);
+		const mimeType = resolveMimeType(downloaded.mimeType, fileName);
+
+		assets.push({
+			url: candidate.url,
+			fileName,
+			mimeType,
+			size: downloaded.buffer.length,
+			assetType: candidate.assetType,
+			sourcePage: content.url,
+		});
+		files.push({ data: downloaded.buffer, mimeType, fileName });
+	}
+
+	if (assets.length === 0) {
+		return {
+			success: false,
+			data: null,
+			scrapeMethod: content.method,
+			cacheHit: content.cacheHit,
+			proxy: content.proxy,
+			error: `Found ${candidates.length} asset(s) but none could be downloaded`,
+		};
+	}
+
+	const binary: Record<string, BinaryData> = {};
+	const zipped = outputMode === 'zip';
+
+	if (zipped) {
+		const zip = new JSZip();
+		files.forEach((file) => zip.file(file.fileName as string, file.data));
+		binary[binaryPropertyName] = {
+			data: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }),
+			mimeType: 'application/zip',
+			fileName: `${binaryPropertyName}.zip`,
+		};
+	} else {
+		files.forEach((file, index) => {
+			const property = `${binaryPropertyName}_${index}`;
+			assets[index].binaryProperty = property;
+			binary[property] = file;
+		});
+	}
+
+	return {
+		success: true,
+		data: {
+			assetsCount: assets.length,
+			assetType: assetTypes.join(','),
+			zipped,
+			assets,
+			failed,
+		},
+		binary,
+		scrapeMethod: content.method,
+		cacheHit: content.cacheHit,
+		proxy: content.proxy,
+	};
+}
+
+/**
+ * Derive a unique file name for an asset from its URL.
+ */
+function getUniqueFileName(url: string, assetType: AssetType, usedFileNames: Set<string>): string {
+	let baseName = '';
+	try {
+		baseName = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+	} catch {
+		baseName = '';
+	}
+	baseName = baseName.replace(/[^a-z0-9._-]/gi, '_') || assetType;
+	if (!baseName.includes('.')) {
+		baseName = `${baseName}.${assetType === 'image' ? 'bin' : assetType}`;
+	}
+
+	let fileName = baseName;
+	let counter = 1;
+	while (usedFileNames.has(fileName.toLowerCase())) {
+		const dot = baseName.lastIndexOf('.');
+		fileName = `${baseName.slice(0, dot)}-${counter}${baseName.slice(dot)}`;
+		counter++;
+	}
+	usedFileNames.add(fileName.toLowerCase());
+
+	return fileName;
+}
+
+/**
+ * Prefer the server's MIME type unless it is missing or generic.
+ */
+function resolveMimeType(serverMimeType: string, fileName: string): string {
+	const mimeType = serverMimeType.split(';')[0].trim().toLowerCase();
+	if (mimeType && mimeType !== 'application/octet-stream' && mimeType !== 'binary/octet-stream') {
+		return mimeType;
+	}
+
+	const extension = fileName.split('.').pop()?.toLowerCase() || '';
+	return MIME_TYPES_BY_EXTENSION[extension] || 'application/octet-stream';
+}
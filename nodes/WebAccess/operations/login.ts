@@ -0,0 +1,63 @@
+/**
+ * Login Operation
+ *
+ * Runs a user-supplied login flow in Puppeteer once per execution and
+ * stores the session cookies it produces, so later HTTP, Puppeteer and
+ * FlareSolverr fetches are authenticated.
+ */
+
+import { runLoginScript } from '../strategies/puppeteer';
+import { validateUrlResolved } from '../utils/network';
+import type { RequestSession } from '../utils/session';
+import type { LoginScriptOptions, PuppeteerOptions } from '../utils/types';
+
+/**
+ * Result of a login.
+ */
+export interface LoginResult {
+	/** Whether the login script ran and the page settled */
+	success: boolean;
+	/** Number of cookies captured into the session */
+	cookieCount?: number;
+	/** Error message if the login failed */
+	error?: string;
+}
+
+/**
+ * Log in by running a script on the login page.
+ *
+ * @param {string} url - Login page URL
+ * @param {string} script - JavaScript function body that performs the login in the page
+ * @param {RequestSession} session - Session that receives the cookies
+ * @param {LoginScriptOptions} options - Success selector and script time limit
+ * @param {PuppeteerOptions} [pageOptions] - Proxy for the browser page
+ * @returns {Promise<LoginResult>} Number of captured cookies or error details
+ */
+export async function executeLogin(
+	url: string,
+	script: string,
+	session: RequestSession,
+	options: LoginScriptOptions = {},
+	pageOptions: PuppeteerOptions = {},
+): Promise<LoginResult> {
+	const urlValidation = await validateUrlResolved(url);
+	if (!urlValidation.valid) {
+		return {
+			success: false,
+			error: urlValidation.error || 'Invalid URL',
+		};
+	}
+
+	try {
+		const cookieCount = await runLoginScript(url, script, session, pageOptions, options);
+		return {
+			success: true,
+			cookieCount,
+		};
+	} catch (error) {
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : 'Unknown error',
+		};
+	}
+}
@@ -0,0 +1,68 @@
+/**
+ * Run Script Operation
+ *
+ * Runs a user-supplied JavaScript function body in the page after
+ * navigation and returns its serialized result.
+ */
+
+import { runPageScript, ScriptExecutionError } from '../strategies/puppeteer';
+import { validateUrlResolved } from '../utils/network';
+import type { PuppeteerOptions, RunScriptOptions, ScriptError } from '../utils/types';
+
+/**
+ * Result of a run script operation.
+ */
+export interface RunScriptResult {
+	/** Whether the script ran without throwing */
+	success: boolean;
+	/** JSON-safe return value of the script */
+	result?: unknown;
+	/** Error message if the script or navigation failed */
+	error?: string;
+	/** Error raised inside the page, with the script's stack trace */
+	scriptError?: ScriptError;
+}
+
+/**
+ * Run a custom script on a URL.
+ *
+ * @param {string} url - URL to navigate to
+ * @param {string} script - JavaScript function body; receives `pageContext`
+ * @param {RunScriptOptions} options - Wait-for-selector and size/runtime limits
+ * @param {PuppeteerOptions} [pageOptions] - Proxy and session for the browser page
+ * @returns {Promise<RunScriptResult>} Script result or error details
+ */
+export async function executeRunScript(
+	url: string,
+	script: string,
+	options: RunScriptOptions = {},
+	pageOptions: PuppeteerOptions = {},
+): Promise<RunScriptResult> {
+	const urlValidation = await validateUrlResolved(url);
+	if (!urlValidation.valid) {
+		return {
+			success: false,
+			error: urlValidation.error || 'Invalid URL',
+		};
+	}
+
+	try {
+		const result = await runPageScript(url, script, pageOptions, options);
+		return {
+			success: true,
+			result,
+		};
+	} catch (error) {
+		if (error instanceof ScriptExecutionError) {
+			return {
+				success: false,
+				error: error.message,
+				scriptError: error.scriptError,
+			};
+		}
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : 'Unknown error',
+		};
+	}
+}
@@ -0,0 +1,121 @@
+/**
+ * Screenshot Operation
+ *
+ * Captures a visual snapshot of a page with Puppeteer and returns it
+ * as binary image data (PNG, JPEG or WebP).
+ */
+
+import { captureScreenshot } from '../strategies/puppeteer';
+import { validateUrlResolved } from '../utils/network';
+import { wantsFullPageScreenshot } from '../utils/taskIntent';
+import type {
+	BinaryData,
+	PuppeteerOptions,
+	ScreenshotData,
+	ScreenshotFormat,
+	ScreenshotOptions,
+} from '../utils/types';
+
+/**
+ * MIME types for each screenshot format.
+ */
+const SCREENSHOT_MIME_TYPES: Record<ScreenshotFormat, string> = {
+	png: 'image/png',
+	jpeg: 'image/jpeg',
+	webp: 'image/webp',
+};
+
+/**
+ * Result of a screenshot operation.
+ */
+export interface ScreenshotResult {
+	/** Whether the screenshot was captured */
+	success: boolean;
+	/** Metadata about the captured image */
+	data: ScreenshotData | null;
+	/** The image file */
+	binary?: BinaryData;
+	/** Error message if capture failed */
+	error?: string;
+}
+
+/**
+ * Capture a screenshot of a URL.
+ *
+ * Full-page capture is taken from the options when set explicitly,
+ * otherwise inferred from the task (e.g. "full page screenshot").
+ *
+ * @param {string} url - URL to capture
+ * @param {string} task - Task description
+ * @param {ScreenshotOptions} options - Screenshot options
+ * @param {PuppeteerOptions} [pageOptions] - Proxy and session for the browser page
+ * @returns {Promise<ScreenshotResult>} Captured image and metadata
+ */
+export async function executeScreenshot(
+	url: string,
+	task: string,
+	options: ScreenshotOptions = {},
+	pageOptions: PuppeteerOptions = {},
+): Promise<ScreenshotResult> {
+	const urlValidation = await validateUrlResolved(url);
+	if (!urlValidation.valid) {
+		return {
+			success: false,
+			data: null,
+			error: urlValidation.error || 'Invalid URL',
+		};
+	}
+
+	const format = options.format || 'png';
+	const fullPage = options.fullPage ?? wantsFullPageScreenshot(task);
+
+	try {
+		const { buffer, viewport } = await captureScreenshot(
+			url,
+			{
+				...options,
+				format,
+				fullPage,
+			},
+			pageOptions,
+		);
+
+		const mimeType = SCREENSHOT_MIME_TYPES[format];
+
+		return {
+			success: true,
+			data: {
+				fullPage,
+				format,
+				mimeType,
+				fileSize: buffer.length,
+				viewport,
+				selector: options.selector || undefined,
+				device: options.device || undefined,
+			},
+			binary: {
+				data: buffer,
+				mimeType,
+				fileName: `${getFileBaseName(url)}.${format === 'jpeg' ? 'jpg' : format}`,
+			},
+		};
+	} catch (error) {
+		return {
+			success: false,
+			data: null,
+			error: `Failed to capture screenshot: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		};
+	}
+}
+
+/**
+ * Build a file-system friendly base name from a URL.
+ */
+function getFileBaseName(url: string): string {
+	try {
+		const hostname = new URL(url).hostname.replace(/^www\./, '');
+		return `screenshot-${hostname.replace(/[^a-z0-9.-]/gi, '_')}`;
+	} catch {
+		return 'screenshot';
+	}
+}
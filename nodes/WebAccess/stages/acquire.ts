@@ -5,12 +5,56 @@
  * 1. HTTP fetch (fastest, cheapest)
  * 2. FlareSolverr (if HTTP fails due to Cloudflare)
  * 3. Puppeteer (for JS rendering or as final fallback)
+ *
+ * Every attempt goes through the politeness layer: robots.txt is checked
+ * once per URL and each request waits for the host's rate limit.
+ *
+ * When a content cache is configured, fresh cached pages are returned
+ * without any request, and expired HTTP pages are revalidated with
+ * ETag / Last-Modified before refetching.
+ *
+ * Once FlareSolverr has solved a challenge for a domain, HTTP requests to
+ * that domain replay the clearance cookies and user agent until they
+ * expire, so later pages skip FlareSolverr.
+ *
+ * Failed attempts are classified with a block reason. A rate limited site
+ * ends the chain instead of being hit by every method, and CAPTCHA pages
+ * skip FlareSolverr, which only solves Cloudflare challenges.
+ *
+ * PDF, JSON, XML, CSV and plain text responses are parsed by the HTTP
+ * stage into a `document`; browsers cannot read those any better, so a
+ * document that fails to parse ends the chain.
  */
 
 import { httpFetch } from '../strategies/http';
-import { flareSolverrFetch } from '../strategies/flaresolverr';
+import { flareSolverrFetch, type FlareSolverrSession } from '../strategies/flaresolverr';
 import { getPageContent, closeBrowser } from '../strategies/puppeteer';
-import { validateUrl } from '../utils/extraction';
+import { validateUrl, validateUrlResolved } from '../utils/network';
+import { createKeyedLimiter, getDomainKey, mapWithConcurrency } from '../utils/concurrency';
+import { DEFAULT_CONCURRENCY_PER_DOMAIN } from '../utils/config';
+import { checkRobotsTxt, waitForHostSlot } from '../utils/politeness';
+import { getCacheKey, getContentCache, isCacheEntryFresh, type CacheEntry } from '../utils/cache';
+import { dropClearance, getClearance } from '../utils/clearance';
+import { assessContentQuality } from '../utils/contentQuality';
+import { describeBlock, detectBlock } from '../utils/blockDetection';
+import { extractMainContent } from '../utils/readability';
+import { htmlToMarkdown } from '../utils/markdown';
+import type { ProxyPool } from '../utils/proxy';
+import type { RequestSession } from '../utils/session';
+import type {
+	BlockReason,
+	CacheOptions,
+	ContentKind,
+	DocumentContent,
+	MethodAttempt,
+	PolitenessOptions,
+	ProxyEndpoint,
+} from '../utils/types';
+
+/**
+ * Acquisition methods in fallback order.
+ */
+const METHOD_ORDER: Array<'http' | 'flaresolverr' | 'puppeteer'> = ['http', 'flaresolverr', 'puppeteer'];
 
 /**
  * Represents acquired content from a URL.
@@ -22,6 +66,12 @@ export interface AcquiredContent {
 	html: string;
 	/** Extracted text content */
 	text: string;
+	/** Kind of content (HTML unless a document such as a PDF or JSON was fetched) */
+	contentKind?: ContentKind;
+	/** Parsed document (JSON value, feed items, CSV rows...) for non-HTML content; `html` is empty */
+	document?: DocumentContent;
+	/** Main content of an HTML page as Markdown, without navigation and other boilerplate */
+	markdown?: string;
 	/** Method used to acquire content */
 	method: 'http' | 'flaresolverr' | 'puppeteer';
 	/** Time taken to acquire content in milliseconds */
@@ -31,7 +81,17 @@ export interface AcquiredContent {
 	/** Error message if acquisition failed */
 	error?: string;
 	/** Methods that were tried and their results */
-	methodsTried?: Array<{ method: string; success: boolean; error?: string }>;
+	methodsTried?: MethodAttempt[];
+	/** Why the site refused the request, when acquisition failed on a block page */
+	blockReason?: BlockReason;
+	/** Whether the content came from the cache (fresh, or revalidated with a 304) */
+	cacheHit?: boolean;
+	/** ETag of the HTTP response, kept for cache revalidation */
+	etag?: string;
+	/** Last-Modified of the HTTP response, kept for cache revalidation */
+	lastModified?: string;
+	/** Proxy the content was fetched through (protocol://host:port) */
+	proxy?: string;
 }
 
 /**
@@ -46,13 +106,27 @@ export interface AcquireOptions {
 	skipPuppeteer?: boolean;
 	/** Preferred method to start with */
 	preferredMethod?: 'http' | 'flaresolverr' | 'puppeteer';
+	/** robots.txt, rate limit and user agent settings */
+	politeness?: PolitenessOptions;
+	/** Content cache settings */
+	cache?: CacheOptions;
+	/** Proxies to fetch through; one is selected per URL and used by every method */
+	proxyPool?: ProxyPool;
+	/** Custom headers and cookies, shared by every method */
+	session?: RequestSession;
+	/** FlareSolverr browser session to reuse across requests */
+	flareSolverrSession?: FlareSolverrSession;
 }
 
 /**
- * Acquire content from a URL using fallback chain.
+ * Acquire content from a URL, using the content cache when configured.
  * 
- * Tries HTTP first (fastest), then FlareSolverr (if configured and needed),
- * then Puppeteer (for JS rendering).
+ * Cache entries are keyed by normalized URL, method and proxy. A fresh
+ * entry is returned as-is; an expired HTTP entry with validators is
+ * revalidated by a conditional request; anything else goes through the
+ * fallback chain and successful results are stored. Pages fetched with a
+ * session are never cached, since they may be personalized for the
+ * logged-in user. Successful HTML pages get their main content as Markdown.
  * 
  * @param {string} url - URL to acquire content from
  * @param {AcquireOptions} options - Acquisition options
@@ -61,12 +135,99 @@ export interface AcquireOptions {
 export async function acquireContent(
 	url: string,
 	options: AcquireOptions = {},
+): Promise<AcquiredContent> {
+	// All methods go through the same proxy, which also keys the cache
+	const proxy = options.proxyPool?.select(url);
+
+	const cache = options.session ? undefined : getContentCache(options.cache);
+	if (!cache || !validateUrl(url).valid) {
+		return withMarkdown(await fetchFromSite(url, options, proxy));
+	}
+
+	const startTime = Date.now();
+	const { ttl, revalidate = true } = options.cache || {};
+	const methods = options.preferredMethod ? [options.preferredMethod] : METHOD_ORDER;
+
+	let stale: CacheEntry | undefined;
+	for (const method of methods) {
+		const entry = await cache.get(getCacheKey(url, method, proxy?.label));
+		if (!entry) continue;
+
+		if (isCacheEntryFresh(entry, ttl)) {
+			return withMarkdown({
+				url,
+				html: entry.html,
+				text: entry.text,
+				contentKind: entry.contentKind,
+				document: entry.document,
+				method: entry.method,
+				scrapeTime: Date.now() - startTime,
+				success: true,
+				methodsTried: [{ method: 'cache', success: true }],
+				cacheHit: true,
+				etag: entry.etag,
+				lastModified: entry.lastModified,
+			});
+		}
+
+		if (!stale && revalidate && entry.method === 'http' && (entry.etag || entry.lastModified)) {
+			stale = entry;
+		}
+	}
+
+	const content = await fetchFromSite(url, options, proxy, stale);
+	if (content.success) {
+		await cache.set(getCacheKey(url, content.method, proxy?.label), {
+			url,
+			method: content.method,
+			html: content.html,
+			text: content.text,
+			contentKind: content.contentKind,
+			document: content.document,
+			etag: content.etag,
+			lastModified: content.lastModified,
+			storedAt: Date.now(),
+		});
+	}
+
+	return withMarkdown(content);
+}
+
+/**
+ * Add the Markdown of the main content to a successfully acquired HTML page.
+ */
+function withMarkdown(content: AcquiredContent): AcquiredContent {
+	if (!content.success || !content.html || content.document) {
+		return content;
+	}
+	return { ...content, markdown: htmlToMarkdown(extractMainContent(content.html), content.url) };
+}
+
+/**
+ * Acquire content from the site using the fallback chain.
+ * 
+ * Tries HTTP first (fastest), then FlareSolverr (if configured and needed),
+ * then Puppeteer (for JS rendering). HTTP pages that score low on content
+ * quality (JavaScript shells) skip FlareSolverr and are rendered with
+ * Puppeteer; the shell is returned if rendering fails.
+ * 
+ * @param {string} url - URL to acquire content from
+ * @param {AcquireOptions} options - Acquisition options
+ * @param {ProxyEndpoint} [proxy] - Proxy selected for the URL
+ * @param {CacheEntry} [stale] - Expired HTTP cache entry to revalidate
+ * @returns {Promise<AcquiredContent>} Acquired content with metadata
+ */
+async function fetchFromSite(
+	url: string,
+	options: AcquireOptions,
+	proxy?: ProxyEndpoint,
+	stale?: CacheEntry,
 ): Promise<AcquiredContent> {
 	const startTime = Date.now();
-	const methodsTried: Array<{ method: string; success: boolean; error?: string }> = [];
+	const methodsTried: MethodAttempt[] = [];
 
 	// Validate URL first
-	const urlValidation = validateUrl(url);
+	const urlValidation = await validateUrlResolved(url);
 	if (!urlValidation.valid) {
 		return {
 			url,
@@ -80,63 +241,150 @@ export async function acquireContent(
 		};
 	}
 
-	const { flareSolverrUrl, skipFlareSolverr, skipPuppeteer, preferredMethod } = options;
+	const { flareSolverrUrl, skipFlareSolverr, skipPuppeteer, preferredMethod, politeness = {} } = options;
+
+	// Honor robots.txt before any request to the page
+	let crawlDelay: number | undefined;
+	if (politeness.respectRobotsTxt !== false) {
+		const robots = await checkRobotsTxt(url, politeness.userAgent);
+		if (!robots.allowed) {
+			const error = `Blocked by robots.txt: ${robots.reason}`;
+			methodsTried.push({ method: 'robots', success: false, error });
+			return {
+				url,
+				html: '',
+				text: '',
+				method: 'http',
+				scrapeTime: Date.now() - startTime,
+				success: false,
+				error,
+				methodsTried,
+			};
+		}
+		crawlDelay = robots.crawlDelay;
+	}
+
+	// Each attempt waits for the host's rate limit
+	const attempt = async (method: 'http' | 'flaresolverr' | 'puppeteer') => {
+		await waitForHostSlot(url, politeness, crawlDelay);
+		const result = await tryMethod(url, method, {
+			flareSolverrUrl,
+			userAgent: politeness.userAgent,
+			proxy,
+			session: options.session,
+			flareSolverrSession: options.flareSolverrSession,
+			stale,
+		});
+		return { ...result, proxy: proxy?.label };
+	};
+
+	// HTTP can "succeed" with an unrendered JavaScript shell; such pages go to Puppeteer
+	let shell: Omit<AcquiredContent, 'scrapeTime'> | undefined;
+	const record = (method: 'http' | 'flaresolverr' | 'puppeteer', result: Omit<AcquiredContent, 'scrapeTime'>) => {
+		const quality =
+			method === 'http' && result.success && !result.cacheHit && !result.document && !skipPuppeteer
+				? assessContentQuality(result.html, result.text)
+				: undefined;
+		if (quality?.needsRendering) {
+			shell = result;
+			methodsTried.push({
+				method,
+				success: false,
+				error: `Page needs JavaScript rendering (quality score ${quality.score}: ${quality.reasons.join(', ')})`,
+			});
+			return false;
+		}
+		methodsTried.push({ method, success: result.success, error: result.error, blockReason: result.blockReason });
+		return result.success;
+	};
+
+	// Retrying a rate limited site or an unreadable document with heavier methods doesn't help
+	const stop = (result: Omit<AcquiredContent, 'scrapeTime'>): AcquiredContent => ({
+		...result,
+		success: false,
+		scrapeTime: Date.now() - startTime,
+		methodsTried,
+	});
 
 	// If a specific method is preferred, try it first
 	if (preferredMethod) {
-		const result = await tryMethod(url, preferredMethod, flareSolverrUrl);
-		methodsTried.push({ method: preferredMethod, success: result.success, error: result.error });
-		if (result.success) {
+		const result = await attempt(preferredMethod);
+		if (record(preferredMethod, result)) {
 			return {
 				...result,
 				scrapeTime: Date.now() - startTime,
 				methodsTried,
 			};
 		}
+		if (result.blockReason === 'rate_limited') {
+			return stop(result);
+		}
 	}
 
 	// Stage 1: Try HTTP fetch (fastest, cheapest)
 	if (preferredMethod !== 'http') {
-		const httpResult = await tryMethod(url, 'http', flareSolverrUrl);
-		methodsTried.push({ method: 'http', success: httpResult.success, error: httpResult.error });
-		if (httpResult.success) {
+		const httpResult = await attempt('http');
+		if (record('http', httpResult)) {
 			return {
 				...httpResult,
 				scrapeTime: Date.now() - startTime,
 				methodsTried,
 			};
 		}
+		if (httpResult.blockReason === 'rate_limited' || (httpResult.contentKind && httpResult.contentKind !== 'html')) {
+			return stop(httpResult);
+		}
 
 		// Stage 2: Try FlareSolverr if configured
-		// Try FlareSolverr whenever HTTP fails (not just on blocked patterns)
-		// FlareSolverr handles Cloudflare, rate limits, and other protections
-		if (!skipFlareSolverr && flareSolverrUrl) {
-			const flareResult = await tryMethod(url, 'flaresolverr', flareSolverrUrl);
-			methodsTried.push({ method: 'flaresolverr', success: flareResult.success, error: flareResult.error });
-			if (flareResult.success) {
-				return {
-					...flareResult,
-					scrapeTime: Date.now() - startTime,
-					methodsTried,
-				};
+		// Try FlareSolverr whenever HTTP fails, except on pages it cannot help with:
+		// a JavaScript shell is not blocked and a non-Cloudflare CAPTCHA is not
+		// solvable, so both go straight to Puppeteer
+		if (!shell) {
+			if (httpResult.blockReason === 'captcha') {
+				methodsTried.push({
+					method: 'flaresolverr',
+					success: false,
+					error: 'Skipped: FlareSolverr cannot solve this CAPTCHA',
+					blockReason: 'captcha',
+				});
+			} else if (!skipFlareSolverr && flareSolverrUrl) {
+				const flareResult = await attempt('flaresolverr');
+				if (record('flaresolverr', flareResult)) {
+					return {
+						...flareResult,
+						scrapeTime: Date.now() - startTime,
+						methodsTried,
+					};
+				}
+			} else if (!flareSolverrUrl) {
+				methodsTried.push({ method: 'flaresolverr', success: false, error: 'FlareSolverr URL not configured' });
 			}
-		} else if (!flareSolverrUrl) {
-			methodsTried.push({ method: 'flaresolverr', success: false, error: 'FlareSolverr URL not configured' });
 		}
 	}
 
 	// Stage 3: Try Puppeteer as final fallback
 	if (!skipPuppeteer && preferredMethod !== 'puppeteer') {
-		const puppeteerResult = await tryMethod(url, 'puppeteer', flareSolverrUrl);
-		methodsTried.push({ method: 'puppeteer', success: puppeteerResult.success, error: puppeteerResult.error });
+		const puppeteerResult = await attempt('puppeteer');
+		if (record('puppeteer', puppeteerResult) || !shell) {
+			return {
+				...puppeteerResult,
+				scrapeTime: Date.now() - startTime,
+				methodsTried,
+			};
+		}
+	}
+
+	// Rendering failed; the shell is still better than nothing
+	if (shell) {
 		return {
-			...puppeteerResult,
+			...shell,
 			scrapeTime: Date.now() - startTime,
 			methodsTried,
 		};
 	}
 
-	// All methods failed
+	// All methods failed; report the last block the site served
+	const blockReason = [...methodsTried].reverse().find((tried) => tried.blockReason)?.blockReason;
 	return {
 		url,
 		html: '',
@@ -144,44 +392,97 @@ export async function acquireContent(
 		method: 'http',
 		scrapeTime: Date.now() - startTime,
 		success: false,
-		error: 'All acquisition methods failed',
+		error: blockReason ? `All acquisition methods failed (blocked: ${blockReason})` : 'All acquisition methods failed',
+		blockReason,
 		methodsTried,
 	};
 }
 
+/**
+ * Settings shared by every acquisition method for one URL.
+ */
+interface MethodSettings {
+	/** FlareSolverr URL if using that method */
+	flareSolverrUrl?: string;
+	/** User agent for HTTP and Puppeteer requests */
+	userAgent?: string;
+	/** Proxy for all methods */
+	proxy?: ProxyEndpoint;
+	/** Custom headers and cookie jar for all methods */
+	session?: RequestSession;
+	/** FlareSolverr browser session to reuse */
+	flareSolverrSession?: FlareSolverrSession;
+	/** Expired cache entry whose validators make the HTTP request conditional */
+	stale?: CacheEntry;
+}
+
 /**
  * Try a specific acquisition method.
  * 
  * @param {string} url - URL to fetch
  * @param {'http' | 'flaresolverr' | 'puppeteer'} method - Method to use
- * @param {string} [flareSolverrUrl] - FlareSolverr URL if using that method
+ * @param {MethodSettings} settings - FlareSolverr URL and session, user agent, proxy, request session and cache entry to revalidate
  * @returns {Promise<AcquiredContent>} Result of the attempt
  */
 async function tryMethod(
 	url: string,
 	method: 'http' | 'flaresolverr' | 'puppeteer',
-	flareSolverrUrl?: string,
+	settings: MethodSettings,
 ): Promise<Omit<AcquiredContent, 'scrapeTime'>> {
+	const { flareSolverrUrl, flareSolverrSession, userAgent, proxy, session, stale } = settings;
 	try {
 		switch (method) {
 			case 'http': {
-				const result = await httpFetch(url);
-				if (result.success && result.html) {
+				// Replay a FlareSolverr clearance; the cookies only work with its user agent
+				const clearance = getClearance(url, proxy, session);
+				const result = await httpFetch(url, {
+					userAgent: clearance?.userAgent || userAgent,
+					proxy,
+					session,
+					cookies: clearance?.cookies,
+					ifNoneMatch: stale?.etag,
+					ifModifiedSince: stale?.lastModified,
+				});
+				if (result.notModified && stale) {
 					return {
 						url,
-						html: result.html,
+						html: stale.html,
+						text: stale.text,
+						contentKind: stale.contentKind,
+						document: stale.document,
+						method: 'http',
+						success: true,
+						cacheHit: true,
+						etag: result.etag || stale.etag,
+						lastModified: result.lastModified || stale.lastModified,
+					};
+				}
+				if (result.success && (result.html || result.document)) {
+					return {
+						url,
+						html: result.html || '',
 						text: result.text || '',
+						contentKind: result.contentKind,
+						document: result.document,
 						method: 'http',
 						success: true,
+						etag: result.etag,
+						lastModified: result.lastModified,
 					};
 				}
+				if (clearance && result.blockReason) {
+					// The site stopped accepting the clearance; let FlareSolverr solve again
+					dropClearance(url, proxy, session);
+				}
 				return {
 					url,
 					html: result.html || '',
 					text: result.text || '',
+					contentKind: result.contentKind,
 					method: 'http',
 					success: false,
 					error: result.error || 'HTTP fetch returned no content',
+					blockReason: result.blockReason,
 				};
 			}
 
@@ -196,12 +497,17 @@ async function tryMethod(
 						error: 'FlareSolverr URL not configured',
 					};
 				}
-				const result = await flareSolverrFetch(url, flareSolverrUrl);
+				const result = await flareSolverrFetch(url, flareSolverrUrl, {
+					proxy,
+					session,
+					sessionId: await flareSolverrSession?.acquire(proxy),
+				});
 				if (result.success && result.html) {
 					return {
 						url,
 						html: result.html,
 						text: result.text || '',
+						contentKind: 'html',
 						method: 'flaresolverr',
 						success: true,
 					};
@@ -213,15 +519,29 @@ async function tryMethod(
 					method: 'flaresolverr',
 					success: false,
 					error: result.error || 'FlareSolverr returned no content',
+					blockReason: result.blockReason,
 				};
 			}
 
 			case 'puppeteer': {
-				const result = await getPageContent(url);
+				const result = await getPageContent(url, { userAgent, proxy, session });
+				const block = detectBlock({ html: result.html, text: result.text });
+				if (block) {
+					return {
+						url,
+						html: result.html,
+						text: result.text,
+						method: 'puppeteer',
+						success: false,
+						error: describeBlock(block),
+						blockReason: block.reason,
+					};
+				}
 				return {
 					url,
 					html: result.html,
 					text: result.text,
+					contentKind: 'html',
 					method: 'puppeteer',
 					success: true,
 				};
@@ -252,20 +572,29 @@ async function tryMethod(
 /**
  * Acquire content from multiple URLs.
  * 
+ * URLs are fetched in parallel up to `concurrency`, with at most
+ * `concurrencyPerDomain` requests to the same domain at once. The map
+ * keeps the input order.
+ * 
  * @param {string[]} urls - URLs to acquire content from
  * @param {AcquireOptions} options - Acquisition options
+ * @param {number} [concurrency=1] - Maximum parallel acquisitions
+ * @param {number} [concurrencyPerDomain] - Maximum parallel acquisitions per domain
  * @returns {Promise<Map<string, AcquiredContent>>} Map of URL to acquired content
  */
 export async function acquireMultipleContent(
 	urls: string[],
 	options: AcquireOptions = {},
+	concurrency: number = 1,
+	concurrencyPerDomain: number = DEFAULT_CONCURRENCY_PER_DOMAIN,
 ): Promise<Map<string, AcquiredContent>> {
-	const results = new Map<string, AcquiredContent>();
+	const domainLimiter = createKeyedLimiter(concurrencyPerDomain);
+	const contents = await mapWithConcurrency(urls, concurrency, (url) =>
+		domainLimiter.run(getDomainKey(url), () => acquireContent(url, options)),
+	);
 
-	for (const url of urls) {
-		const content = await acquireContent(url, options);
-		results.set(url, content);
-	}
+	const results = new Map<string, AcquiredContent>();
+	urls.forEach((url, index) => results.set(url, contents[index]));
 
 	return results;
 }
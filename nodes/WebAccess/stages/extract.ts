@@ -7,12 +7,49 @@
 
 import type { AcquiredContent } from './acquire';
 import {
-	extractEmails,
-	extractPhones,
 	extractTextContent,
 	extractPageTitle,
 	extractProductsFromHtml,
 } from '../utils/extraction';
+import {
+	extractStructuredData,
+	getStructuredContacts,
+	getStructuredProducts,
+	hasStructuredData,
+} from '../utils/structuredData';
+import { extractTables, rowsToTable } from '../utils/tables';
+import { extractPhoneNumbers, getDefaultRegion } from '../utils/phones';
+import { extractEmailAddresses } from '../utils/emails';
+import { extractPostalAddresses } from '../utils/addresses';
+import { extractOpeningHours, formatOpeningHours } from '../utils/hours';
+import type { JsonSchema } from '../utils/schema';
+import type {
+	DocumentContent,
+	EmailAddress,
+	ExtractedTable,
+	OpeningHours,
+	PhoneNumber,
+	PostalAddress,
+	StructuredData,
+} from '../utils/types';
+
+/**
+ * Property name aliases used to map extraction data onto a user schema.
+ * Keys are compared lowercased with non-alphanumerics removed.
+ */
+const SCHEMA_FIELD_ALIASES: Record<string, string[]> = {
+	title: ['title', 'pagetitle', 'heading'],
+	text: ['text', 'content', 'body', 'summary', 'description'],
+	emails: ['emails', 'email', 'emailaddresses', 'emailaddress', 'contactemail', 'contactemails', 'mail'],
+	phones: ['phones', 'phone', 'phonenumbers', 'phonenumber', 'telephone', 'tel', 'contactphone'],
+	addresses: ['addresses', 'address', 'postaladdress', 'streetaddress', 'location', 'locations'],
+	openingHours: ['openinghours', 'hours', 'businesshours', 'openingtimes', 'officehours'],
+	products: ['products', 'product', 'items', 'listings', 'results'],
+	tables: ['tables', 'table'],
+	url: ['url', 'pageurl', 'source', 'sourceurl', 'link'],
+	name: ['name', 'title', 'productname'],
+	price: ['price', 'cost', 'amount'],
+};
 
 /**
  * Result of a non-LLM extraction attempt.
@@ -40,12 +77,30 @@ export interface ExtractionData {
 	text?: string;
 	/** Extracted email addresses */
 	emails?: string[];
-	/** Extracted phone numbers */
+	/** Extracted email addresses with source, label, domain flag and role */
+	emailDetails?: EmailAddress[];
+	/** Extracted phone numbers in E.164 format */
 	phones?: string[];
+	/** Extracted phone numbers with national format, country, type and source */
+	phoneDetails?: PhoneNumber[];
+	/** Extracted postal addresses, formatted on one line */
+	addresses?: string[];
+	/** Extracted postal addresses split into street, postal code, locality and country */
+	addressDetails?: PostalAddress[];
+	/** Opening hours in schema.org form ("Mo-Fr 09:00-17:00") */
+	openingHours?: string[];
+	/** Opening periods by day of the week */
+	openingHoursDetails?: OpeningHours[];
 	/** Extracted products */
 	products?: Array<{ name: string; url: string; price?: string }>;
 	/** Raw data for unstructured extraction */
 	raw?: string;
+	/** Parsed PDF, JSON, XML or CSV document the content came from */
+	document?: DocumentContent;
+	/** JSON-LD, microdata, RDFa, OpenGraph and Twitter card data of the page */
+	structuredData?: StructuredData;
+	/** Tables of the page (or the rows of a CSV document) */
+	tables?: ExtractedTable[];
 }
 
 /**
@@ -66,6 +121,12 @@ export interface DetectedIntent {
 	requiresNavigation: boolean;
 	/** Task asks for structured data extraction */
 	wantsStructuredData: boolean;
+	/** Task asks for tabular data (tables, specs, comparisons) */
+	wantsTable: boolean;
+	/** Task asks for a postal address or location */
+	wantsAddress: boolean;
+	/** Task asks for opening or business hours */
+	wantsHours: boolean;
 }
 
 /**
@@ -120,6 +181,33 @@ export function detectIntent(task: string): DetectedIntent {
 		lowerTask.includes('file') ||
 		lowerTask.includes('save');
 
+	// Whole words only: "specific" isn't "spec", "schedule a demo" isn't a table
+	const wantsTable = 
+		/\b(?:time)?tables?\b/.test(lowerTask) ||
+		/\btabular\b/.test(lowerTask) ||
+		/\bspreadsheets?\b/.test(lowerTask) ||
+		/\bcsv\b/.test(lowerTask) ||
+		/\bspecs?\b/.test(lowerTask) ||
+		/\bspecifications?\b/.test(lowerTask) ||
+		/\bcomparisons?\b/.test(lowerTask);
+
+	// Email, IP and web addresses aren't postal ones
+	const postalTask = lowerTask.replace(/\b(?:e-?mail|ip|web|mac|wallet)[\s-]*(?:address|adresse)(?:es|n)?\b/g, '');
+	// Only explicit address wording: "the London location" names a branch, not a request
+	const wantsAddress = /\b(?:address(?:es)?|adressen?|anschrift|post ?codes?|postal codes?|zip ?codes?)\b/.test(
+		postalTask,
+	);
+
+	const wantsHours = 
+		/\b(?:opening|business|office|store|shop)\s+(?:hours|times)\b/.test(lowerTask) ||
+		/\bhours of operation\b/.test(lowerTask) ||
+		/\b(?:open|opening|closing) time/.test(lowerTask) ||
+		/\bwhen (?:is|are) .*\b(?:open|closed)\b/.test(lowerTask) ||
+		lowerTask.includes('öffnungszeit') ||
+		lowerTask.includes('horaire') ||
+		lowerTask.includes('horario') ||
+		lowerTask.includes('openingstijd');
+
 	const isResearch = 
 		lowerTask.includes('research') ||
 		lowerTask.includes('learn about') ||
@@ -162,7 +250,8 @@ export function detectIntent(task: string): DetectedIntent {
 	// General if no specific intent detected
 	const isGeneral = !wantsEmail && !wantsPhone && !wantsProducts && 
 		!wantsText && !wantsScreenshot && !wantsDownload && !isResearch &&
-		!isComplexTask && !requiresNavigation && !wantsStructuredData;
+		!isComplexTask && !requiresNavigation && !wantsStructuredData && !wantsTable &&
+		!wantsAddress && !wantsHours;
 
 	return {
 		wantsEmail,
@@ -176,6 +265,9 @@ export function detectIntent(task: string): DetectedIntent {
 		isComplexTask,
 		requiresNavigation,
 		wantsStructuredData,
+		wantsTable,
+		wantsAddress,
+		wantsHours,
 	};
 }
 
@@ -184,6 +276,16 @@ export function detectIntent(task: string): DetectedIntent {
  * 
  * Tries pattern matching and DOM parsing based on detected intent.
  * Tracks what was attempted for context if LLM fallback is needed.
+ * Structured data (JSON-LD, microdata, RDFa, OpenGraph) is read first:
+ * its products replace DOM guessing. Emails come from mailto: links,
+ * structured data, decoded obfuscation and text, with their provenance
+ * and role. Phone numbers are read from tel: links, structured data and
+ * text, and normalized to E.164 with the numbering rules of the page's
+ * country. Postal addresses come from structured data, <address>
+ * elements and text lines following the country's conventions; opening
+ * hours from structured data, tables, lists and text. Tables become rows
+ * keyed by column name. Non-HTML documents are searched through their
+ * extracted text and passed along in `data.document`.
  * 
  * @param {AcquiredContent} content - Acquired content from Stage 1
  * @param {string} task - Task description
@@ -198,41 +300,115 @@ export function tryNonLlmExtraction(
 	const data: ExtractionData = {};
 	let foundData = false;
 
+	// Documents have no HTML; their text stands in for it
+	const { document } = content;
+	const html = document ? undefined : content.html;
+
 	// Always extract title
-	data.title = extractPageTitle(content.html);
+	data.title = document ? document.title || '' : extractPageTitle(content.html);
 	whatWasTried.push('page_title_extraction');
 
+	if (document) {
+		data.document = document;
+		whatWasTried.push(`${document.kind}_document_parsing`);
+	}
+
+	// Structured data is what the site publishes for machines; trust it first
+	const structuredData = document ? undefined : extractStructuredData(content.html);
+	if (structuredData && hasStructuredData(structuredData)) {
+		data.structuredData = structuredData;
+		whatWasTried.push('structured_data_extraction');
+	}
+	const contacts = structuredData
+		? getStructuredContacts(structuredData)
+		: { emails: [], phones: [], addresses: [], openingHours: [], profiles: [] };
+
 	// Extract based on intent
 	if (intent.wantsEmail || intent.isResearch || intent.isGeneral) {
-		whatWasTried.push('email_regex_extraction');
-		const emails = extractEmails(content.html);
+		whatWasTried.push('email_extraction');
+		const emails = extractEmailAddresses({
+			html,
+			text: content.text,
+			structured: contacts.emails,
+			pageUrl: content.url,
+		});
 		if (emails.length > 0) {
-			data.emails = emails;
+			data.emails = emails.map((email) => email.address);
+			data.emailDetails = emails;
 			foundData = true;
 		}
 	}
 
 	if (intent.wantsPhone || intent.isResearch || intent.isGeneral) {
-		whatWasTried.push('phone_regex_extraction');
-		const phones = extractPhones(content.text);
+		whatWasTried.push('phone_number_parsing');
+		const phones = extractPhoneNumbers({
+			html,
+			text: content.text,
+			structured: contacts.phones,
+			defaultRegion: getDefaultRegion(content.url, html),
+		});
 		if (phones.length > 0) {
-			data.phones = phones;
+			data.phones = phones.map((phone) => phone.e164);
+			data.phoneDetails = phones;
+			foundData = true;
+		}
+	}
+
+	if (intent.wantsAddress || intent.isResearch || intent.isGeneral) {
+		whatWasTried.push('postal_address_extraction');
+		const addresses = extractPostalAddresses({
+			html,
+			text: content.text,
+			structured: contacts.addresses,
+			defaultRegion: getDefaultRegion(content.url, html),
+		});
+		if (addresses.length > 0) {
+			data.addresses = addresses.map((address) => address.formatted);
+			data.addressDetails = addresses;
+			foundData = true;
+		}
+	}
+
+	if (intent.wantsHours || intent.isResearch || intent.isGeneral) {
+		whatWasTried.push('opening_hours_extraction');
+		const hours = extractOpeningHours({ html, text: content.text, structured: contacts.openingHours });
+		if (hours.length > 0) {
+			data.openingHours = formatOpeningHours(hours);
+			data.openingHoursDetails = hours;
 			foundData = true;
 		}
 	}
 
 	if (intent.wantsProducts) {
-		whatWasTried.push('product_dom_extraction');
-		const products = extractProductsFromHtml(content.html, content.url);
+		let products = structuredData ? getStructuredProducts(structuredData, content.url) : [];
+		if (products.length > 0) {
+			whatWasTried.push('structured_product_extraction');
+		} else {
+			whatWasTried.push('product_dom_extraction');
+			products = extractProductsFromHtml(content.html, content.url);
+		}
 		if (products.length > 0) {
 			data.products = products;
 			foundData = true;
 		}
 	}
 
+	if (intent.wantsTable) {
+		whatWasTried.push('table_extraction');
+		const tables = document
+			? [document.rows ? rowsToTable(undefined, document.rows, document.title) : undefined].filter(
+					(table): table is ExtractedTable => table !== undefined,
+				)
+			: extractTables(content.html);
+		if (tables.length > 0) {
+			data.tables = tables;
+			foundData = true;
+		}
+	}
+
 	if (intent.wantsText) {
 		whatWasTried.push('text_content_extraction');
-		const text = extractTextContent(content.html);
+		const text = document ? content.text : extractTextContent(content.html);
 		if (text.length > 0) {
 			data.text = text;
 			foundData = true;
@@ -266,6 +442,26 @@ export function tryNonLlmExtraction(
 		};
 	}
 
+	if (intent.wantsAddress && (!data.addresses || data.addresses.length === 0)) {
+		return {
+			success: false,
+			data: foundData ? data : null,
+			whatWasTried,
+			reason: 'No postal addresses found in content',
+			detectedIntent: intent,
+		};
+	}
+
+	if (intent.wantsHours && (!data.openingHours || data.openingHours.length === 0)) {
+		return {
+			success: false,
+			data: foundData ? data : null,
+			whatWasTried,
+			reason: 'No opening hours found in content',
+			detectedIntent: intent,
+		};
+	}
+
 	if (intent.wantsProducts && (!data.products || data.products.length === 0)) {
 		return {
 			success: false,
@@ -276,6 +472,16 @@ export function tryNonLlmExtraction(
 		};
 	}
 
+	if (intent.wantsTable && (!data.tables || data.tables.length === 0)) {
+		return {
+			success: false,
+			data: foundData ? data : null,
+			whatWasTried,
+			reason: 'No tables found in content',
+			detectedIntent: intent,
+		};
+	}
+
 	// Complex multi-step tasks require LLM
 	if (intent.isComplexTask) {
 		return {
@@ -366,7 +572,7 @@ export function tryNonLlmExtraction(
 	// Default: need LLM
 	return {
 		success: false,
-		data: { text: content.text },
+		data: { text: content.text, document, structuredData: data.structuredData },
 		whatWasTried,
 		reason: 'Could not extract specific data, LLM needed for interpretation',
 		detectedIntent: intent,
@@ -389,11 +595,25 @@ export function formatExtractionAsText(data: ExtractionData): string {
 	}
 
 	if (data.emails && data.emails.length > 0) {
-		parts.push(`\nEmail${data.emails.length > 1 ? 's' : ''}: ${data.emails.join(', ')}`);
+		const emails = data.emailDetails
+			? data.emailDetails.map((email) => (email.role === 'other' ? email.address : `${email.address} (${email.role})`))
+			: data.emails;
+		parts.push(`\nEmail${emails.length > 1 ? 's' : ''}: ${emails.join(', ')}`);
 	}
 
 	if (data.phones && data.phones.length > 0) {
-		parts.push(`\nPhone${data.phones.length > 1 ? 's' : ''}: ${data.phones.join(', ')}`);
+		const phones = data.phoneDetails
+			? data.phoneDetails.map((phone) => `${phone.e164} (${phone.type.replace(/_/g, ' ')})`)
+			: data.phones;
+		parts.push(`\nPhone${phones.length > 1 ? 's' : ''}: ${phones.join(', ')}`);
+	}
+
+	if (data.addresses && data.addresses.length > 0) {
+		parts.push(`\nAddress${data.addresses.length > 1 ? 'es' : ''}: ${data.addresses.join('; ')}`);
+	}
+
+	if (data.openingHours && data.openingHours.length > 0) {
+		parts.push(`\nOpening hours: ${data.openingHours.join(', ')}`);
 	}
 
 	if (data.products && data.products.length > 0) {
@@ -407,6 +627,23 @@ export function formatExtractionAsText(data: ExtractionData): string {
 		}
 	}
 
+	if (data.tables && data.tables.length > 0) {
+		parts.push(`\n\nTables found: ${data.tables.length}`);
+		data.tables.slice(0, 5).forEach((table, i) => {
+			parts.push(`\n${i + 1}. ${table.caption || 'Table'} (${table.rows.length} row${table.rows.length === 1 ? '' : 's'})`);
+			parts.push(table.headers.join(' | '));
+			table.rows.slice(0, 10).forEach((row) => {
+				parts.push(table.headers.map((header) => row[header]).join(' | '));
+			});
+			if (table.rows.length > 10) {
+				parts.push(`... and ${table.rows.length - 10} more rows`);
+			}
+		});
+		if (data.tables.length > 5) {
+			parts.push(`... and ${data.tables.length - 5} more tables`);
+		}
+	}
+
 	if (parts.length === 0 && data.text) {
 		// Just return text content if no structured data
 		return data.text.slice(0, 5000);
@@ -415,3 +652,113 @@ export function formatExtractionAsText(data: ExtractionData): string {
 	return parts.join('\n');
 }
 
+/**
+ * Shape extraction data into a value matching a user-supplied JSON Schema.
+ * 
+ * Maps schema properties onto extracted fields by name (e.g. "email",
+ * "phoneNumbers", "products"), coercing lists to single values, prices to
+ * numbers and product objects to the schema's item shape. Properties that
+ * cannot be mapped are left out; the caller validates the result.
+ * 
+ * @param {ExtractionData} data - Extracted data
+ * @param {string} url - URL the data was extracted from
+ * @param {JsonSchema} schema - Target schema
+ * @returns {unknown} Value shaped to the schema
+ */
+export function shapeExtractionData(data: ExtractionData, url: string, schema: JsonSchema): unknown {
+	const source: Record<string, unknown> = { ...data, url };
+	const type = getSchemaType(schema);
+
+	// Top-level arrays take the main list that was extracted
+	if (type === 'array') {
+		const list = data.products?.length
+			? data.products
+			: data.tables?.length
+				? data.tables[0].rows
+				: data.emails?.length
+					? data.emails
+					: data.phones || [];
+		return shapeValue(list, schema);
+	}
+
+	if (type === 'object' || schema.properties) {
+		return shapeValue(source, schema);
+	}
+
+	return shapeValue(data.text ?? data.title ?? '', schema);
+}
+
+/**
+ * Get the primary (non-null) type of a schema.
+ */
+function getSchemaType(schema: JsonSchema): string | undefined {
+	if (Array.isArray(schema.type)) {
+		return schema.type.find((type) => type !== 'null');
+	}
+	if (schema.type) return schema.type;
+	if (schema.properties) return 'object';
+	if (schema.items) return 'array';
+	return undefined;
+}
+
+/**
+ * Normalize a property name for alias matching.
+ */
+function normalizeKey(key: string): string {
+	return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Find the source value for a schema property by name or alias.
+ */
+function findSourceValue(source: Record<string, unknown>, propertyName: string): unknown {
+	const wanted = normalizeKey(propertyName);
+	for (const [key, value] of Object.entries(source)) {
+		if (value === undefined) continue;
+		const normalized = normalizeKey(key);
+		if (normalized === wanted) return value;
+		const aliases = SCHEMA_FIELD_ALIASES[key];
+		if (aliases && aliases.includes(wanted)) return value;
+	}
+	return undefined;
+}
+
+/**
+ * Coerce a source value to the shape described by a schema.
+ */
+function shapeValue(value: unknown, schema: JsonSchema): unknown {
+	if (value === undefined || value === null) return value;
+
+	switch (getSchemaType(schema)) {
+		case 'array': {
+			const list = Array.isArray(value) ? value : [value];
+			return schema.items ? list.map((item) => shapeValue(item, schema.items as JsonSchema)) : list;
+		}
+		case 'object': {
+			if (typeof value !== 'object' || Array.isArray(value)) return value;
+			if (!schema.properties) return value;
+			const result: Record<string, unknown> = {};
+			for (const [key, propSchema] of Object.entries(schema.properties)) {
+				const shaped = shapeValue(findSourceValue(value as Record<string, unknown>, key), propSchema);
+				if (shaped !== undefined) result[key] = shaped;
+			}
+			return result;
+		}
+		case 'string':
+			if (Array.isArray(value)) return value.length > 0 ? shapeValue(value[0], schema) : undefined;
+			if (typeof value === 'object') return JSON.stringify(value);
+			return String(value);
+		case 'number':
+		case 'integer': {
+			const scalar = Array.isArray(value) ? value[0] : value;
+			if (typeof scalar === 'number') return scalar;
+			const parsed = parseFloat(String(scalar).replace(/[^0-9.-]/g, ''));
+			if (Number.isNaN(parsed)) return undefined;
+			return getSchemaType(schema) === 'integer' ? Math.round(parsed) : parsed;
+		}
+		case 'boolean':
+			return Array.isArray(value) ? value.length > 0 : Boolean(value);
+		default:
+			return value;
+	}
+}
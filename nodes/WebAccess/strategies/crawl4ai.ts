@@ -6,8 +6,10 @@
 
 /* eslint-disable @n8n/community-nodes/no-restricted-globals -- setTimeout/clearTimeout needed for request timeouts */
 
-import type { StrategyResult, CrawledPage, Crawl4AICrawlConfig } from '../utils/types';
+import type { StrategyResult, CrawledPage, Crawl4AICrawlConfig, ExtractedTable } from '../utils/types';
 import { DEFAULT_CRAWL4AI_TIMEOUT, MAX_CRAWL_PAGES } from '../utils/config';
+import { validateUrlResolved } from '../utils/network';
+import { rowsToTable } from '../utils/tables';
 
 // Default timeout for Crawl4AI requests
 const DEFAULT_TIMEOUT = DEFAULT_CRAWL4AI_TIMEOUT;
@@ -45,6 +47,16 @@ export async function crawl4aiQuery(
 ): Promise<StrategyResult> {
 	const endpoint = `${baseUrl.replace(/\/$/, '')}/md`;
 
+	// Crawl4AI fetches the target itself, so check it first
+	const urlValidation = await validateUrlResolved(targetUrl);
+	if (!urlValidation.valid) {
+		return {
+			success: false,
+			data: null,
+			error: urlValidation.error || 'Invalid URL',
+		};
+	}
+
 	try {
 		const controller = new AbortController();
 		const timeoutId = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT);
@@ -152,6 +164,69 @@ function isSameDomain(url: string, seedHostname: string): boolean {
 	return urlHostname === seedHostname || urlHostname.endsWith(`.${seedHostname}`);
 }
 
+/**
+ * Fields of a Crawl4AI crawl result used for crawled pages.
+ */
+interface Crawl4AIResult {
+	url: string;
+	title?: string;
+	metadata?: { title?: string };
+	content?: string;
+	text?: string;
+	/** Tables from DefaultTableExtraction (older versions report them under media) */
+	tables?: unknown;
+	media?: { tables?: unknown };
+}
+
+/**
+ * Convert a Crawl4AI crawl result into a crawled page.
+ */
+function toCrawledPage(result: Crawl4AIResult): CrawledPage {
+	return {
+		url: result.url,
+		title: result.title || result.metadata?.title,
+		snippet: result.content?.substring(0, 200) || result.text?.substring(0, 200),
+		tables: toTables(result.tables || result.media?.tables),
+	};
+}
+
+/**
+ * A table from Crawl4AI's DefaultTableExtraction.
+ */
+interface Crawl4AITable {
+	headers?: unknown;
+	rows: unknown[];
+	caption?: unknown;
+}
+
+/**
+ * Check whether a value has the shape of a Crawl4AI table (an object with a rows array).
+ */
+function isCrawl4AITable(value: unknown): value is Crawl4AITable {
+	return typeof value === 'object' && value !== null && Array.isArray((value as { rows?: unknown }).rows);
+}
+
+/**
+ * Convert tables from Crawl4AI's DefaultTableExtraction ({ headers, rows, caption }).
+ */
+function toTables(tables: unknown): ExtractedTable[] | undefined {
+	if (!Array.isArray(tables)) return undefined;
+
+	const converted = (tables as unknown[])
+		.filter(isCrawl4AITable)
+		.map((table) =>
+			rowsToTable(
+				Array.isArray(table.headers) ? (table.headers as unknown[]).map(String) : undefined,
+				table.rows
+					.filter((row): row is unknown[] => Array.isArray(row))
+					.map((row) => row.map((cell) => String(cell ?? ''))),
+				typeof table.caption === 'string' ? table.caption : undefined,
+			),
+		)
+		.filter((table): table is ExtractedTable => table !== undefined);
+	return converted.length > 0 ? converted : undefined;
+}
+
 /**
  * Crawl a website using Crawl4AI /crawl endpoint.
  * 
@@ -175,6 +250,11 @@ export async function crawl4aiCrawl(
 		return [];
 	}
 
+	// Crawl4AI fetches the target itself, so check it first
+	if (!(await validateUrlResolved(targetUrl)).valid) {
+		return [];
+	}
+
 	const config: Crawl4AICrawlConfig = {
 		urls: [targetUrl],
 		crawler_config: {
@@ -238,11 +318,7 @@ export async function crawl4aiCrawl(
 					try {
 						const data = JSON.parse(line);
 						if (data.url && isSameDomain(data.url, seedHostname)) {
-							pages.push({
-								url: data.url,
-								title: data.title || data.metadata?.title,
-								snippet: data.content?.substring(0, 200) || data.text?.substring(0, 200),
-							});
+							pages.push(toCrawledPage(data));
 
 							if (pages.length >= maxPages) {
 								reader.cancel();
@@ -260,11 +336,7 @@ export async function crawl4aiCrawl(
 				try {
 					const data = JSON.parse(buffer);
 					if (data.url && isSameDomain(data.url, seedHostname) && pages.length < maxPages) {
-						pages.push({
-							url: data.url,
-							title: data.title || data.metadata?.title,
-							snippet: data.content?.substring(0, 200) || data.text?.substring(0, 200),
-						});
+						pages.push(toCrawledPage(data));
 					}
 				} catch {
 					// Skip
@@ -281,31 +353,19 @@ export async function crawl4aiCrawl(
 				if (Array.isArray(data)) {
 					for (const item of data) {
 						if (item.url && isSameDomain(item.url, seedHostname) && pages.length < maxPages) {
-							pages.push({
-								url: item.url,
-								title: item.title || item.metadata?.title,
-								snippet: item.content?.substring(0, 200) || item.text?.substring(0, 200),
-							});
+							pages.push(toCrawledPage(item));
 						}
 					}
 				}
 				// Handle single object response
 				else if (data.url && isSameDomain(data.url, seedHostname)) {
-					pages.push({
-						url: data.url,
-						title: data.title || data.metadata?.title,
-						snippet: data.content?.substring(0, 200) || data.text?.substring(0, 200),
-					});
+					pages.push(toCrawledPage(data));
 				}
 				// Handle wrapped response
 				else if (data.results && Array.isArray(data.results)) {
 					for (const item of data.results) {
 						if (item.url && isSameDomain(item.url, seedHostname) && pages.length < maxPages) {
-							pages.push({
-								url: item.url,
-								title: item.title || item.metadata?.title,
-								snippet: item.content?.substring(0, 200) || item.text?.substring(0, 200),
-							});
+							pages.push(toCrawledPage(item));
 						}
 					}
 				}
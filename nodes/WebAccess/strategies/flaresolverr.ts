@@ -3,8 +3,12 @@
  * Uses FlareSolverr proxy to solve Cloudflare challenges
  */
 
-import type { StrategyResult } from '../utils/types';
-import { extractTextContent, validateUrl } from '../utils/extraction';
+import type { FlareSolverrOptions, ProxyEndpoint, StrategyResult } from '../utils/types';
+import { extractTextContent } from '../utils/extraction';
+import { describeBlock, detectBlock } from '../utils/blockDetection';
+import { validateUrlResolved } from '../utils/network';
+import { getSessionCookies } from '../utils/session';
+import { storeClearance } from '../utils/clearance';
 import { DEFAULT_FLARESOLVERR_TIMEOUT } from '../utils/config';
 
 // Default timeout for FlareSolverr (challenges can take time)
@@ -41,20 +45,25 @@ interface FlareSolverrResponse {
  * Fetch a URL using FlareSolverr to bypass Cloudflare.
  * 
  * Uses FlareSolverr proxy service to solve Cloudflare challenges
- * and retrieve protected content.
+ * and retrieve protected content. Session cookies are sent with the
+ * request, and the cookies of the solved page are stored in the session.
+ * The solved page's cookies and user agent are also kept in the
+ * clearance store, so HTTP requests to the domain can replay them.
  * 
  * @param {string} url - The URL to fetch
  * @param {string} flareSolverrUrl - FlareSolverr service URL
- * @param {number} maxTimeout - Maximum timeout in milliseconds
+ * @param {FlareSolverrOptions} options - Optional configuration (maxTimeout, proxy, session, sessionId)
  * @returns {Promise<StrategyResult>} Result containing HTML and text content
  */
 export async function flareSolverrFetch(
 	url: string,
 	flareSolverrUrl: string,
-	maxTimeout: number = DEFAULT_TIMEOUT,
+	options: FlareSolverrOptions = {},
 ): Promise<StrategyResult> {
+	const { maxTimeout = DEFAULT_TIMEOUT, proxy, session, sessionId } = options;
+
 	// Validate URL
-	const urlValidation = validateUrl(url);
+	const urlValidation = await validateUrlResolved(url);
 	if (!urlValidation.valid) {
 		return {
 			success: false,
@@ -63,6 +72,8 @@ export async function flareSolverrFetch(
 		};
 	}
 
+	const cookies = session ? getSessionCookies(session, url) : [];
+
 	try {
 		const response = await fetch(flareSolverrUrl, {
 			method: 'POST',
@@ -73,6 +84,13 @@ export async function flareSolverrFetch(
 				cmd: 'request.get',
 				url,
 				maxTimeout,
+				...(sessionId ? { session: sessionId } : {}),
+				...(proxy && !sessionId
+					? { proxy: { url: proxy.label, username: proxy.username, password: proxy.password } }
+					: {}),
+				...(cookies.length > 0
+					? { cookies: cookies.map((cookie) => ({ name: cookie.name, value: cookie.value })) }
+					: {}),
 			}),
 			signal: AbortSignal.timeout(maxTimeout + 10000), // Extra buffer for FlareSolverr processing
 		});
@@ -106,6 +124,22 @@ export async function flareSolverrFetch(
 		const html = data.solution.response;
 		const text = extractTextContent(html);
 
+		// FlareSolverr cannot solve every CAPTCHA; don't keep a failed clearance
+		const block = detectBlock({ html, text, status: data.solution.status, headers: data.solution.headers });
+		if (block) {
+			return {
+				success: false,
+				data: null,
+				html,
+				text,
+				blockReason: block.reason,
+				error: `FlareSolverr could not pass the page: ${describeBlock(block)}`,
+			};
+		}
+
+		session?.jar.setCookies(data.solution.cookies || []);
+		storeClearance(data.solution.url || url, data.solution.cookies || [], data.solution.userAgent, proxy, session);
+
 		return {
 			success: true,
 			data: null,
@@ -135,6 +169,81 @@ export async function flareSolverrFetch(
 	}
 }
 
+/**
+ * A FlareSolverr browser session, created on first use.
+ */
+export interface FlareSolverrSession {
+	/** Get the session id for requests through the proxy, creating the session on first use */
+	acquire(proxy?: ProxyEndpoint): Promise<string | undefined>;
+	/** Destroy the session, if one was created */
+	destroy(): Promise<void>;
+}
+
+/**
+ * Create a lazily started FlareSolverr session.
+ * 
+ * Requests in one session share a warm browser, so challenges solved for
+ * one page carry over to the next. The session is bound to the proxy of
+ * its first request; requests through other proxies get no session id.
+ * If the session cannot be created, requests run without one.
+ * 
+ * @param {string} flareSolverrUrl - FlareSolverr service URL
+ * @returns {FlareSolverrSession} Session handle; call destroy() when done
+ */
+export function createFlareSolverrSession(flareSolverrUrl: string): FlareSolverrSession {
+	let created: Promise<string | undefined> | undefined;
+	let sessionProxy: string | undefined;
+
+	return {
+		acquire(proxy?: ProxyEndpoint): Promise<string | undefined> {
+			if (!created) {
+				sessionProxy = proxy?.label;
+				created = sendSessionCommand(flareSolverrUrl, {
+					cmd: 'sessions.create',
+					...(proxy ? { proxy: { url: proxy.label, username: proxy.username, password: proxy.password } } : {}),
+				})
+					.then((data) => (typeof data.session === 'string' ? data.session : undefined))
+					.catch(() => undefined);
+			}
+			return proxy?.label === sessionProxy ? created : Promise.resolve(undefined);
+		},
+
+		async destroy(): Promise<void> {
+			const sessionId = await created;
+			if (sessionId) {
+				await sendSessionCommand(flareSolverrUrl, { cmd: 'sessions.destroy', session: sessionId }).catch(() => {});
+			}
+		},
+	};
+}
+
+/**
+ * Send a sessions.* command to FlareSolverr.
+ * 
+ * @param {string} flareSolverrUrl - FlareSolverr service URL
+ * @param {Record<string, unknown>} body - Command payload
+ * @returns {Promise<Record<string, unknown>>} Response body
+ * @throws {Error} If the request fails or FlareSolverr reports an error
+ */
+async function sendSessionCommand(
+	flareSolverrUrl: string,
+	body: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+	const response = await fetch(flareSolverrUrl, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify(body),
+		signal: AbortSignal.timeout(DEFAULT_TIMEOUT),
+	});
+	const data = (await response.json()) as Record<string, unknown>;
+	if (!response.ok || data.status !== 'ok') {
+		throw new Error(`FlareSolverr ${String(body.cmd)} failed: ${String(data.message || response.status)}`);
+	}
+	return data;
+}
+
 /**
  * Check if FlareSolverr is available at the given URL.
  * 
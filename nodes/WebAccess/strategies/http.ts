@@ -6,28 +6,41 @@
 /* eslint-disable @n8n/community-nodes/no-restricted-globals -- setTimeout/clearTimeout needed for request timeouts */
 
 import type { StrategyResult, HttpFetchOptions } from '../utils/types';
-import { extractTextContent, isBlockedContent, validateUrl } from '../utils/extraction';
-import { DEFAULT_HTTP_TIMEOUT } from '../utils/config';
+import { extractTextContent } from '../utils/extraction';
+import { describeBlock, detectBlock } from '../utils/blockDetection';
+import { getContentKind, parseDocument } from '../utils/documents';
+import { safeFetch, validateUrl } from '../utils/network';
+import { DEFAULT_HTTP_TIMEOUT, DEFAULT_USER_AGENT, MAX_DOCUMENT_SIZE } from '../utils/config';
 
 // Default timeout in milliseconds
 const DEFAULT_TIMEOUT = DEFAULT_HTTP_TIMEOUT;
 
-// Default user agent
-const DEFAULT_USER_AGENT =
-	'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
-
 /**
  * Fetch a URL using HTTP and return the HTML content.
  * 
- * Handles redirects, timeouts, and common error codes.
- * Validates URL for security before fetching.
+ * PDF, JSON, XML, CSV and plain text responses are parsed into a
+ * `document` with readable text instead of HTML.
+ * Handles redirects, timeouts, and common error codes. Challenge, CAPTCHA,
+ * rate limit and access denied pages fail with a typed `blockReason`.
+ * Validates the URL and every redirect hop for security before fetching.
+ * When cached validators are passed, a 304 response is returned as
+ * success with `notModified` set. Session headers and cookies override
+ * the default headers, and cookies the site sets are kept in the session.
  * 
  * @param {string} url - The URL to fetch
- * @param {HttpFetchOptions} options - Optional configuration (timeout, userAgent)
+ * @param {HttpFetchOptions} options - Optional configuration (timeout, userAgent, proxy, session, cookies, conditional validators)
  * @returns {Promise<StrategyResult>} Result containing HTML and text content
  */
 export async function httpFetch(url: string, options: HttpFetchOptions = {}): Promise<StrategyResult> {
-	const { timeout = DEFAULT_TIMEOUT, userAgent = DEFAULT_USER_AGENT } = options;
+	const {
+		timeout = DEFAULT_TIMEOUT,
+		userAgent = DEFAULT_USER_AGENT,
+		proxy,
+		session,
+		cookies,
+		ifNoneMatch,
+		ifModifiedSince,
+	} = options;
 
 	// Validate URL
 	const urlValidation = validateUrl(url);
@@ -44,36 +57,57 @@ export async function httpFetch(url: string, options: HttpFetchOptions = {}): Pr
 		const controller = new AbortController();
 		const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-		const response = await fetch(url, {
-			method: 'GET',
-			headers: {
-				'User-Agent': userAgent,
-				Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-				'Accept-Language': 'en-US,en;q=0.5',
-				'Accept-Encoding': 'gzip, deflate',
-				Connection: 'keep-alive',
-				'Upgrade-Insecure-Requests': '1',
+		const headers: Record<string, string> = {
+			'User-Agent': userAgent,
+			Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+			'Accept-Language': 'en-US,en;q=0.5',
+			'Accept-Encoding': 'gzip, deflate',
+			Connection: 'keep-alive',
+			'Upgrade-Insecure-Requests': '1',
+		};
+		if (cookies?.length) headers.Cookie = cookies.map((cookie) => `${cookie.name}=${cookie.value}`).join('; ');
+		if (ifNoneMatch) headers['If-None-Match'] = ifNoneMatch;
+		if (ifModifiedSince) headers['If-Modified-Since'] = ifModifiedSince;
+
+		const response = await safeFetch(
+			url,
+			{
+				method: 'GET',
+				headers,
+				signal: controller.signal,
 			},
-			redirect: 'follow',
-			signal: controller.signal,
-		});
+			proxy,
+			session,
+		);
 
 		clearTimeout(timeoutId);
 
+		const etag = response.headers.get('etag') || undefined;
+		const lastModified = response.headers.get('last-modified') || undefined;
+
+		// Cached copy is still current
+		if (response.status === 304) {
+			return {
+				success: true,
+				data: null,
+				etag,
+				lastModified,
+				notModified: true,
+			};
+		}
+
 		// Check for error status codes
 		if (!response.ok) {
-			if (response.status === 403) {
-				return {
-					success: false,
-					data: null,
-					error: 'Access forbidden (403) - site may be blocking automated requests',
-				};
-			}
-			if (response.status === 429) {
+			// Challenge and block pages come with 403/429/503
+			const body = await response.text().catch(() => '');
+			const block = detectBlock({ html: body, status: response.status, headers: response.headers });
+			if (block) {
 				return {
 					success: false,
 					data: null,
-					error: 'Rate limited (429) - too many requests',
+					html: body || undefined,
+					blockReason: block.reason,
+					error: `${describeBlock(block)} (HTTP ${response.status})`,
 				};
 			}
 			if (response.status === 404) {
@@ -92,16 +126,49 @@ export async function httpFetch(url: string, options: HttpFetchOptions = {}): Pr
 
 		// Get content type
 		const contentType = response.headers.get('content-type') || '';
+		const contentKind = getContentKind(contentType, response.url || url);
 
-		// Check if it's HTML
-		if (!contentType.includes('text/html') && !contentType.includes('application/xhtml')) {
+		if (!contentKind) {
 			return {
 				success: false,
 				data: null,
-				error: `Non-HTML content type: ${contentType}`,
+				error: `Unsupported content type: ${contentType || 'unknown'}`,
 			};
 		}
 
+		// Documents are parsed rather than treated as pages
+		if (contentKind !== 'html') {
+			const body = await readBodyWithLimit(response, MAX_DOCUMENT_SIZE);
+			if (!body) {
+				return {
+					success: false,
+					data: null,
+					contentKind,
+					error: `Document too large: more than ${MAX_DOCUMENT_SIZE} bytes`,
+				};
+			}
+			try {
+				const document = parseDocument(contentKind, body, contentType);
+				return {
+					success: true,
+					data: null,
+					html: '',
+					text: document.text,
+					contentKind: document.kind,
+					document,
+					etag,
+					lastModified,
+				};
+			} catch (error) {
+				return {
+					success: false,
+					data: null,
+					contentKind,
+					error: `Could not read ${contentKind.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`,
+				};
+			}
+		}
+
 		// Get HTML content
 		const html = await response.text();
 
@@ -114,23 +181,30 @@ export async function httpFetch(url: string, options: HttpFetchOptions = {}): Pr
 			};
 		}
 
-		if (isBlockedContent(html)) {
+		// Extract text content
+		const text = extractTextContent(html);
+
+		// Some challenge pages are served with 200
+		const block = detectBlock({ html, text, status: response.status, headers: response.headers });
+		if (block) {
 			return {
 				success: false,
 				data: null,
 				html,
-				error: 'Content appears to be blocked (CAPTCHA, rate limit, etc.)',
+				text,
+				blockReason: block.reason,
+				error: describeBlock(block),
 			};
 		}
 
-		// Extract text content
-		const text = extractTextContent(html);
-
 		return {
 			success: true,
 			data: null, // Data will be populated by the caller based on task
 			html,
 			text,
+			contentKind,
+			etag,
+			lastModified,
 		};
 	} catch (error) {
 		// Handle specific error types
@@ -182,17 +256,17 @@ export async function httpFetch(url: string, options: HttpFetchOptions = {}): Pr
  * Download a binary asset via HTTP.
  * 
  * Downloads a file from the given URL and returns its buffer and MIME type.
- * Validates URL for security before downloading.
+ * Validates the URL and every redirect hop for security before downloading.
  * 
  * @param {string} url - The URL of the asset to download
- * @param {HttpFetchOptions} options - Optional configuration (timeout, userAgent)
+ * @param {HttpFetchOptions} options - Optional configuration (timeout, userAgent, proxy, session)
  * @returns {Promise<{ buffer: Buffer; mimeType: string } | null>} Asset data or null if download fails
  */
 export async function downloadAsset(
 	url: string,
 	options: HttpFetchOptions = {},
 ): Promise<{ buffer: Buffer; mimeType: string } | null> {
-	const { timeout = DEFAULT_TIMEOUT, userAgent = DEFAULT_USER_AGENT } = options;
+	const { timeout = DEFAULT_TIMEOUT, userAgent = DEFAULT_USER_AGENT, proxy, session } = options;
 
 	// Validate URL
 	const urlValidation = validateUrl(url);
@@ -204,14 +278,18 @@ export async function downloadAsset(
 		const controller = new AbortController();
 		const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-		const response = await fetch(url, {
-			method: 'GET',
-			headers: {
-				'User-Agent': userAgent,
+		const response = await safeFetch(
+			url,
+			{
+				method: 'GET',
+				headers: {
+					'User-Agent': userAgent,
+				},
+				signal: controller.signal,
 			},
-			redirect: 'follow',
-			signal: controller.signal,
-		});
+			proxy,
+			session,
+		);
 
 		clearTimeout(timeoutId);
 
@@ -228,3 +306,32 @@ export async function downloadAsset(
 		return null;
 	}
 }
+
+/**
+ * Read a response body, or return undefined once it is larger than
+ * maxBytes. A larger Content-Length is rejected before anything is read.
+ */
+async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Uint8Array | undefined> {
+	if (Number(response.headers.get('content-length')) > maxBytes) {
+		void response.body?.cancel().catch(() => {});
+		return undefined;
+	}
+	if (!response.body) {
+		return new Uint8Array(await response.arrayBuffer());
+	}
+
+	const reader = response.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		size += value.length;
+		if (size > maxBytes) {
+			await reader.cancel().catch(() => {});
+			return undefined;
+		}
+		chunks.push(value);
+	}
+	return Buffer.concat(chunks);
+}
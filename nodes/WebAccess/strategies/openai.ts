@@ -5,6 +5,7 @@
 
 import type { OpenAIConfig } from '../utils/types';
 import { DEFAULT_OPENAI_TIMEOUT, MAX_CONTENT_LENGTH_FOR_LLM } from '../utils/config';
+import { recordLlmCall, type LlmCallUsage } from '../utils/cost';
 
 // Default timeout in milliseconds
 const DEFAULT_TIMEOUT = DEFAULT_OPENAI_TIMEOUT;
@@ -41,6 +42,7 @@ interface ChatCompletionResponse {
  * @param {string} model - Model name to use
  * @param {string} pageContent - Web page content to extract from
  * @param {string} task - Task description for extraction
+ * @param {LlmCallUsage[]} [usage] - Optional call log to record token usage in
  * @returns {Promise<{ success: boolean; text?: string; error?: string }>} Extraction result
  */
 export async function openaiExtract(
@@ -48,6 +50,7 @@ export async function openaiExtract(
 	model: string,
 	pageContent: string,
 	task: string,
+	usage?: LlmCallUsage[],
 ): Promise<{ success: boolean; text?: string; error?: string }> {
 	const { apiKey, baseUrl } = config;
 
@@ -102,6 +105,9 @@ Extract the requested information:`;
 
 		const data = (await response.json()) as ChatCompletionResponse;
 		const content = data.choices?.[0]?.message?.content?.trim();
+		if (usage) {
+			recordLlmCall(usage, 'extraction', model, data.usage, systemPrompt + userPrompt, content || '', config.modelPricing);
+		}
 
 		if (!content || content === 'NOT_FOUND') {
 			return {
@@ -132,6 +138,7 @@ Extract the requested information:`;
  * @param {string} pageContent - Web page content to extract from
  * @param {boolean} wantsEmail - Whether to extract email addresses
  * @param {boolean} wantsPhone - Whether to extract phone numbers
+ * @param {LlmCallUsage[]} [usage] - Optional call log to record token usage in
  * @returns {Promise<{ emails?: string[]; phones?: string[]; error?: string }>} Contact extraction result
  */
 export async function openaiExtractContacts(
@@ -140,6 +147,7 @@ export async function openaiExtractContacts(
 	pageContent: string,
 	wantsEmail: boolean,
 	wantsPhone: boolean,
+	usage?: LlmCallUsage[],
 ): Promise<{ emails?: string[]; phones?: string[]; error?: string }> {
 	const { apiKey, baseUrl } = config;
 
@@ -196,6 +204,9 @@ Return only valid JSON:`;
 
 		const data = (await response.json()) as ChatCompletionResponse;
 		const content = data.choices?.[0]?.message?.content?.trim();
+		if (usage) {
+			recordLlmCall(usage, 'extraction', model, data.usage, systemPrompt + userPrompt, content || '', config.modelPricing);
+		}
 
 		if (!content) {
 			return { error: 'Empty response from LLM' };
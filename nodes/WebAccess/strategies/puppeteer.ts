@@ -3,11 +3,31 @@
  * Second stage in the cost-aware pipeline, used for JS-heavy pages
  */
 
-/* eslint-disable @n8n/community-nodes/no-restricted-globals -- setTimeout needed for animation settling */
+/* eslint-disable @n8n/community-nodes/no-restricted-globals -- setTimeout needed for animation settling and script time limits */
 // eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for browser automation in self-hosted deployments
-import puppeteer, { type Browser, type Page } from 'puppeteer';
-import type { PuppeteerPageContent, PuppeteerOptions } from '../utils/types';
-import { DEFAULT_PUPPETEER_TIMEOUT } from '../utils/config';
+import puppeteer, { KnownDevices, type Browser, type Page } from 'puppeteer';
+import type {
+	LoginScriptOptions,
+	PuppeteerPageContent,
+	PuppeteerOptions,
+	PuppeteerScreenshot,
+	RunScriptOptions,
+	ScreenshotOptions,
+	ScriptError,
+} from '../utils/types';
+import {
+	DEFAULT_PUPPETEER_TIMEOUT,
+	DEFAULT_SCRIPT_TIMEOUT,
+	DEFAULT_USER_AGENT,
+	LOGIN_IDLE_TIME,
+	MAX_CONCURRENT_PAGES,
+	MAX_SCRIPT_RESULT_SIZE,
+	MAX_SCRIPT_SIZE,
+	SCREENSHOT_ANIMATION_DELAY,
+} from '../utils/config';
+import { createLimiter } from '../utils/concurrency';
+import { validateRemoteAddress, validateUrlResolved } from '../utils/network';
+import { getSessionCookies, getSessionHeaders, type RequestSession } from '../utils/session';
 
 // Declare browser globals for page.evaluate() contexts
 // These don't exist in Node.js but are available when code runs in browser
@@ -27,11 +47,18 @@ const DEFAULT_HEADLESS = process.env.PUPPETEER_HEADLESS
 // Singleton browser instance for reuse
 let browserInstance: Browser | null = null;
 
+// Pending launch, shared by concurrent callers so only one browser starts
+let browserLaunch: Promise<Browser> | null = null;
+
+// Limits open pages in the shared browser when URLs run concurrently
+const pageSlots = createLimiter(MAX_CONCURRENT_PAGES);
+
 /**
  * Get or create a browser instance.
  * 
  * Creates a Puppeteer browser instance with appropriate configuration.
- * Browser is reused across requests for better performance.
+ * Browser is reused across requests for better performance. Concurrent
+ * callers share a single pending launch.
  * 
  * @returns {Promise<Browser>} A Puppeteer browser instance
  */
@@ -40,19 +67,29 @@ async function getBrowser(): Promise<Browser> {
 		return browserInstance;
 	}
 
-	browserInstance = await puppeteer.launch({
-		headless: DEFAULT_HEADLESS,
-		args: [
-			'--no-sandbox',
-			'--disable-setuid-sandbox',
-			'--disable-dev-shm-usage',
-			'--disable-accelerated-2d-canvas',
-			'--disable-gpu',
-			'--window-size=1920,1080',
-		],
-	});
+	if (!browserLaunch) {
+		browserLaunch = puppeteer
+			.launch({
+				headless: DEFAULT_HEADLESS,
+				args: [
+					'--no-sandbox',
+					'--disable-setuid-sandbox',
+					'--disable-dev-shm-usage',
+					'--disable-accelerated-2d-canvas',
+					'--disable-gpu',
+					'--window-size=1920,1080',
+				],
+			})
+			.then((browser) => {
+				browserInstance = browser;
+				return browser;
+			})
+			.finally(() => {
+				browserLaunch = null;
+			});
+	}
 
-	return browserInstance;
+	return browserLaunch;
 }
 
 /**
@@ -79,38 +116,157 @@ export async function closeBrowser(): Promise<void> {
  * Create a new page with standard configuration.
  * 
  * Sets up viewport, user agent, timeouts, and request interception
- * for optimal page loading and resource management.
+ * for optimal page loading and resource management. Every request the
+ * page makes (navigations, redirects, subresources) is checked against
+ * the SSRF rules. Waits for a free page slot first; the slot is released
+ * when the page closes, and the page is closed if setting it up fails.
+ * 
+ * With a proxy or a session, the page opens in its own browser context
+ * (with the proxy server set, the per-context form of `--proxy-server`),
+ * so pages in the shared browser don't share proxies or cookies. The
+ * context is closed with the page. Session cookies are loaded into the
+ * context and session headers are added to requests to the target site.
  * 
  * @param {Browser} browser - The Puppeteer browser instance
+ * @param {string} url - URL the page will open; session headers are limited to its site
  * @param {number} timeout - Timeout in milliseconds for page operations
+ * @param {PuppeteerOptions} options - User agent (defaults to a desktop Chrome UA), proxy and session
  * @returns {Promise<Page>} A configured Puppeteer page instance
+ * @throws {Error} If the proxy is an authenticated SOCKS5 proxy, which Chrome does not support
  */
-async function createPage(browser: Browser, timeout: number): Promise<Page> {
-	const page = await browser.newPage();
+async function createPage(
+	browser: Browser,
+	url: string,
+	timeout: number,
+	options: PuppeteerOptions = {},
+): Promise<Page> {
+	const { proxy, session } = options;
+	if (proxy?.protocol === 'socks5' && proxy.username) {
+		throw new Error('Chrome does not support SOCKS5 proxies with authentication; use an HTTP proxy for browser requests');
+	}
+
+	const releaseSlot = await pageSlots.acquire();
+	let page: Page;
+	try {
+		if (proxy || session) {
+			const context = await browser.createIncognitoBrowserContext(
+				proxy
+					? { proxyServer: `${proxy.protocol}://${proxy.host.includes(':') ? `[${proxy.host}]` : proxy.host}:${proxy.port}` }
+					: {},
+			);
+			page = await context.newPage().catch(async (error) => {
+				await context.close().catch(() => {});
+				throw error;
+			});
+			page.once('close', () => void context.close().catch(() => {}));
+		} else {
+			page = await browser.newPage();
+		}
+	} catch (error) {
+		releaseSlot();
+		throw error;
+	}
+	// Free the slot when the page closes, or when the browser goes away with it
+	browser.once('disconnected', releaseSlot);
+	page.once('close', () => {
+		browser.off('disconnected', releaseSlot);
+		releaseSlot();
+	});
+
+	try {
+		await configurePage(page, url, timeout, options);
+	} catch (error) {
+		// Don't leave a half-configured page holding its slot
+		await page.close().catch(() => {});
+		throw error;
+	}
+	return page;
+}
+
+/**
+ * Apply proxy credentials, session cookies, viewport, user agent,
+ * timeouts and request checks to a new page.
+ */
+async function configurePage(page: Page, url: string, timeout: number, options: PuppeteerOptions): Promise<void> {
+	const { userAgent, proxy, session } = options;
+
+	if (proxy?.username) {
+		await page.authenticate({ username: proxy.username, password: proxy.password || '' });
+	}
+
+	if (session) {
+		const cookies = getSessionCookies(session, url).map((cookie) => ({
+			name: cookie.name,
+			value: cookie.value,
+			domain: cookie.domain,
+			path: cookie.path,
+			httpOnly: cookie.httpOnly,
+			secure: cookie.secure,
+			...(cookie.expires >= 0 ? { expires: cookie.expires } : {}),
+		}));
+		if (cookies.length > 0) {
+			await page.setCookie(...cookies);
+		}
+	}
 
 	// Set viewport
 	await page.setViewport({ width: 1920, height: 1080 });
 
 	// Set user agent
-	await page.setUserAgent(
-		'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-	);
+	await page.setUserAgent(userAgent || DEFAULT_USER_AGENT);
 
 	// Set default timeout
 	page.setDefaultTimeout(timeout);
 	page.setDefaultNavigationTimeout(timeout);
 
-	// Block unnecessary resources to speed up loading
+	// Block unnecessary resources and requests to internal addresses
 	await page.setRequestInterception(true);
 	page.on('request', (request) => {
-		const resourceType = request.resourceType();
-		const action =
-			['font'].includes(resourceType) ? request.abort() : request.continue();
+		const handle = async () => {
+			if (['font'].includes(request.resourceType())) {
+				return request.abort();
+			}
+			const allowed = await isBrowserRequestAllowed(request.url());
+			if (!allowed) {
+				return request.abort('blockedbyclient');
+			}
+			// The browser sends the context's cookies itself; only add custom headers
+			const extraHeaders = session ? getSessionHeaders(session, request.url(), url, false) : {};
+			if (Object.keys(extraHeaders).length === 0) {
+				return request.continue();
+			}
+			const headers = request.headers();
+			for (const [name, value] of Object.entries(extraHeaders)) {
+				headers[name.toLowerCase()] = value;
+			}
+			return request.continue({ headers });
+		};
 		// Ignore failures that occur when the page is already closed
-		void action.catch(() => {});
+		void handle().catch(() => {});
 	});
 
-	return page;
+	// Chromium resolves hosts again when it connects; a host that passed the
+	// check above and then answered from a private address closes the page.
+	// Through a proxy the remote address is the proxy's.
+	if (!proxy) {
+		page.on('response', (response) => {
+			const address = response.remoteAddress().ip;
+			if (address && !validateRemoteAddress(response.url(), address).valid) {
+				void page.close().catch(() => {});
+			}
+		});
+	}
+}
+
+/**
+ * Check whether the browser may make a request.
+ * Inline schemes never leave the browser; everything else must pass SSRF checks.
+ */
+async function isBrowserRequestAllowed(url: string): Promise<boolean> {
+	if (/^(data|blob|about):/i.test(url)) {
+		return true;
+	}
+	return (await validateUrlResolved(url)).valid;
 }
 
 /**
@@ -120,7 +276,7 @@ async function createPage(browser: Browser, timeout: number): Promise<Page> {
  * both HTML and visible text content.
  * 
  * @param {string} url - The URL to fetch content from
- * @param {PuppeteerOptions} options - Optional configuration (timeout, waitUntil)
+ * @param {PuppeteerOptions} options - Optional configuration (timeout, waitUntil, proxy, session)
  * @returns {Promise<PuppeteerPageContent>} Object containing html and text content
  * @throws {Error} If navigation fails or timeout is exceeded
  */
@@ -131,7 +287,7 @@ export async function getPageContent(
 	const { timeout = DEFAULT_TIMEOUT, waitUntil = 'networkidle2' } = options;
 
 	const browser = await getBrowser();
-	const page = await createPage(browser, timeout);
+	const page = await createPage(browser, url, timeout, options);
 
 	try {
 		// Navigate to page
@@ -148,6 +304,11 @@ export async function getPageContent(
 			return document.body?.innerText || '';
 		});
 
+		// Keep cookies the page set, e.g. a refreshed session
+		if (options.session) {
+			options.session.jar.setCookies(await page.cookies());
+		}
+
 		return { html, text };
 	} finally {
 		await page.close();
@@ -157,26 +318,42 @@ export async function getPageContent(
 /**
  * Capture a screenshot of the page.
  * 
- * Navigates to the URL and captures a screenshot, optionally
- * including the full scrollable page.
+ * Navigates to the URL and captures a screenshot of the viewport, the full
+ * scrollable page, or a single element. Optionally emulates a known device
+ * (viewport, user agent, touch) or applies a custom viewport size.
  * 
  * @param {string} url - The URL to screenshot
- * @param {boolean} fullPage - Whether to capture full scrollable page
- * @param {PuppeteerOptions} options - Optional configuration (timeout, waitUntil)
- * @returns {Promise<Buffer>} PNG image buffer
- * @throws {Error} If navigation fails or screenshot capture fails
+ * @param {ScreenshotOptions} screenshotOptions - Format, quality, viewport, selector and device options
+ * @param {PuppeteerOptions} options - Optional configuration (timeout, waitUntil, proxy, session)
+ * @returns {Promise<PuppeteerScreenshot>} Image buffer and the viewport it was captured with
+ * @throws {Error} If navigation fails, the device or element is unknown, or capture fails
  */
 export async function captureScreenshot(
 	url: string,
-	fullPage: boolean,
+	screenshotOptions: ScreenshotOptions = {},
 	options: PuppeteerOptions = {},
-): Promise<Buffer> {
+): Promise<PuppeteerScreenshot> {
 	const { timeout = DEFAULT_TIMEOUT, waitUntil = 'networkidle2' } = options;
+	const { format = 'png', quality, fullPage = false, selector, device } = screenshotOptions;
 
 	const browser = await getBrowser();
-	const page = await createPage(browser, timeout);
+	const page = await createPage(browser, url, timeout, options);
 
 	try {
+		// Emulate a device, or apply a custom viewport size
+		if (device) {
+			const descriptor = KnownDevices[device as keyof typeof KnownDevices];
+			if (!descriptor) {
+				throw new Error(`Unknown device: ${device}`);
+			}
+			await page.emulate(descriptor);
+		} else if (screenshotOptions.viewportWidth || screenshotOptions.viewportHeight) {
+			await page.setViewport({
+				width: screenshotOptions.viewportWidth || 1920,
+				height: screenshotOptions.viewportHeight || 1080,
+			});
+		}
+
 		// Navigate to page
 		await page.goto(url, {
 			waitUntil,
@@ -184,48 +361,142 @@ export async function captureScreenshot(
 		});
 
 		// Wait a bit for any animations to settle
-		await new Promise((resolve) => setTimeout(resolve, 1000));
+		await new Promise((resolve) => setTimeout(resolve, SCREENSHOT_ANIMATION_DELAY));
+
+		// Quality is only supported for lossy formats
+		const imageOptions = {
+			type: format,
+			...(format !== 'png' && quality !== undefined ? { quality } : {}),
+		};
+
+		let screenshot: Uint8Array | string;
+		if (selector) {
+			const element = await page.waitForSelector(selector, { timeout });
+			if (!element) {
+				throw new Error(`Element not found: ${selector}`);
+			}
+			screenshot = await element.screenshot(imageOptions);
+		} else {
+			screenshot = await page.screenshot({ ...imageOptions, fullPage });
+		}
 
-		// Take screenshot
-		const screenshot = await page.screenshot({
-			fullPage,
-			type: 'png',
-		});
+		const viewport = page.viewport() || { width: 1920, height: 1080 };
 
 		// Ensure we return a Buffer
-		return Buffer.from(screenshot);
+		return {
+			buffer: Buffer.from(screenshot),
+			viewport: { width: viewport.width, height: viewport.height },
+		};
 	} finally {
 		await page.close();
 	}
 }
 
+/**
+ * Error thrown when a custom page script fails.
+ * 
+ * Carries the error as raised inside the page, including the script's own
+ * stack trace, so it can be reported back to the user.
+ */
+export class ScriptExecutionError extends Error {
+	scriptError: ScriptError;
+
+	constructor(scriptError: ScriptError) {
+		super(`Script execution failed: ${scriptError.message}`);
+		this.name = 'ScriptExecutionError';
+		this.scriptError = scriptError;
+		if (scriptError.stack) {
+			this.stack = scriptError.stack;
+		}
+	}
+}
+
+/**
+ * Reject if a promise does not settle within the given time.
+ * 
+ * @param {Promise<T>} promise - Promise to wait for
+ * @param {number} ms - Time limit in milliseconds
+ * @param {string} message - Error message on timeout
+ * @param {() => void} [onTimeout] - Called when the time limit is hit, to stop the work behind the promise
+ * @returns {Promise<T>} The promise result
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number, message: string, onTimeout?: () => void): Promise<T> {
+	let timeoutId: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timeoutId = setTimeout(() => {
+			onTimeout?.();
+			reject(new Error(message));
+		}, ms);
+	});
+
+	try {
+		return await Promise.race([promise, timeout]);
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
+/**
+ * Stop a page script that ran past its time limit. A rejected evaluate
+ * keeps running in the renderer, so the JavaScript is terminated over CDP
+ * and the page is closed.
+ */
+async function stopPageScript(page: Page): Promise<void> {
+	try {
+		const client = await page.createCDPSession();
+		await client.send('Runtime.terminateExecution');
+		await client.detach();
+	} catch {
+		// Closing the page below still stops the script
+	}
+	await page.close().catch(() => {});
+}
+
 /**
  * Run a custom script in the page context.
  * 
- * Navigates to the URL and executes a user-provided JavaScript script
- * in the browser context. The script receives a pageContext object
- * with location, html, and text properties.
+ * Navigates to the URL, optionally waits for a selector, and executes a
+ * user-provided JavaScript function body in the browser context. The script
+ * receives a pageContext object with location, html, and text properties
+ * and may return a value or a promise.
+ * 
+ * The return value is serialized inside the page before it crosses into
+ * Node: circular references, DOM nodes, functions, Maps, Sets, dates and
+ * BigInts are converted to JSON-safe values.
  * 
  * @param {string} url - The URL to navigate to
  * @param {string} scriptBody - JavaScript code to execute
- * @param {PuppeteerOptions} options - Optional configuration (timeout, waitUntil)
- * @returns {Promise<T>} The result of script execution
- * @throws {Error} If navigation fails, script execution fails, or script is invalid
+ * @param {PuppeteerOptions} options - Optional configuration (timeout, waitUntil, proxy, session)
+ * @param {RunScriptOptions} scriptOptions - Wait-for-selector and size/runtime limits
+ * @returns {Promise<T>} The serialized result of script execution
+ * @throws {ScriptExecutionError} If the script throws or its result is too large
+ * @throws {Error} If the script is invalid or too large, navigation fails, or the script times out
  */
 export async function runPageScript<T = unknown>(
 	url: string,
 	scriptBody: string,
 	options: PuppeteerOptions = {},
+	scriptOptions: RunScriptOptions = {},
 ): Promise<T> {
 	const { timeout = DEFAULT_TIMEOUT, waitUntil = 'networkidle2' } = options;
+	const {
+		waitForSelector,
+		scriptTimeout = DEFAULT_SCRIPT_TIMEOUT,
+		maxScriptSize = MAX_SCRIPT_SIZE,
+		maxResultSize = MAX_SCRIPT_RESULT_SIZE,
+	} = scriptOptions;
 
 	// Validate script input
 	if (!scriptBody || typeof scriptBody !== 'string' || scriptBody.trim().length === 0) {
 		throw new Error('Script body must be a non-empty string');
 	}
+	if (scriptBody.length > maxScriptSize) {
+		throw new Error(`Script is ${scriptBody.length} characters, exceeding the limit of ${maxScriptSize}`);
+	}
 
 	const browser = await getBrowser();
-	const page = await createPage(browser, timeout);
+	const page = await createPage(browser, url, timeout, options);
+	let stopping: Promise<void> | undefined;
 
 	try {
 		// Navigate to page
@@ -234,28 +505,202 @@ export async function runPageScript<T = unknown>(
 			timeout,
 		});
 
+		if (waitForSelector) {
+			await page.waitForSelector(waitForSelector, { timeout });
+		}
+
 		// Execute the script in the browser context
-		const result = await page.evaluate((script: string) => {
-			// Build pageContext object (runs in browser context)
-			const pageContext = {
-				location: window.location.href,
-				html: document.documentElement?.outerHTML || '',
-				text: document.body?.innerText || '',
-			};
-
-			// Create and execute the function
-			const fn = new Function('pageContext', script);
-			return fn(pageContext);
-		}, scriptBody);
-
-		return result as T;
+		const outcome = await withTimeout(
+			page.evaluate(
+				async (script: string, resultLimit: number) => {
+					// Convert a value into something JSON.stringify can handle. Only
+					// the ancestors of a value make a cycle; an object referenced
+					// twice elsewhere is serialized both times.
+					const serialize = (value: unknown, ancestors: WeakSet<object>, depth: number): unknown => {
+						if (value === null || value === undefined) return null;
+						if (typeof value === 'bigint') return value.toString();
+						if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+						if (typeof value === 'number') return Number.isFinite(value) ? value : String(value);
+						if (typeof value !== 'object') return value;
+
+						if (value instanceof Date) return value.toISOString();
+						if (value instanceof Error) {
+							return { name: value.name, message: value.message, stack: value.stack };
+						}
+						if (value instanceof window.Element) return (value as { outerHTML: string }).outerHTML;
+						if (value instanceof window.Node) return (value as { textContent: string | null }).textContent;
+						if (ancestors.has(value)) return '[Circular]';
+						if (depth > 20) return '[Max depth exceeded]';
+						ancestors.add(value);
+						try {
+							return serializeChildren(value, ancestors, depth);
+						} finally {
+							ancestors.delete(value);
+						}
+					};
+
+					// Serialize the entries of a map, list or plain object
+					const serializeChildren = (value: object, ancestors: WeakSet<object>, depth: number): unknown => {
+						if (value instanceof Map) {
+							const entries: Record<string, unknown> = {};
+							value.forEach((v, k) => {
+								entries[String(k)] = serialize(v, ancestors, depth + 1);
+							});
+							return entries;
+						}
+						if (
+							Array.isArray(value) ||
+							value instanceof Set ||
+							value instanceof window.NodeList ||
+							value instanceof window.HTMLCollection
+						) {
+							return Array.from(value as Iterable<unknown>).map((v) => {
+								const serialized = serialize(v, ancestors, depth + 1);
+								return serialized === undefined ? null : serialized;
+							});
+						}
+
+						const result: Record<string, unknown> = {};
+						for (const key of Object.keys(value)) {
+							const serialized = serialize((value as Record<string, unknown>)[key], ancestors, depth + 1);
+							if (serialized !== undefined) result[key] = serialized;
+						}
+						return result;
+					};
+
+					// Build pageContext object (runs in browser context)
+					const pageContext = {
+						location: window.location.href,
+						html: document.documentElement?.outerHTML || '',
+						text: document.body?.innerText || '',
+					};
+
+					try {
+						// Create and execute the function
+						const fn = new Function('pageContext', script);
+						const value = await fn(pageContext);
+						const json = JSON.stringify(serialize(value, new WeakSet(), 0) ?? null);
+						if (json.length > resultLimit) {
+							return {
+								ok: false as const,
+								error: {
+									name: 'RangeError',
+									message: `Script result is ${json.length} characters, exceeding the limit of ${resultLimit}`,
+								},
+							};
+						}
+						return { ok: true as const, json };
+					} catch (error) {
+						const err = error instanceof Error ? error : new Error(String(error));
+						return {
+							ok: false as const,
+							error: { name: err.name, message: err.message, stack: err.stack },
+						};
+					}
+				},
+				scriptBody,
+				maxResultSize,
+			),
+			scriptTimeout,
+			`Script timed out after ${scriptTimeout}ms`,
+			() => {
+				stopping = stopPageScript(page);
+			},
+		);
+
+		if (!outcome.ok) {
+			throw new ScriptExecutionError(outcome.error);
+		}
+
+		return JSON.parse(outcome.json) as T;
 	} catch (error) {
+		if (error instanceof ScriptExecutionError) {
+			throw error;
+		}
 		if (error instanceof Error) {
 			throw new Error(`Script execution failed: ${error.message}`);
 		}
 		throw error;
 	} finally {
-		await page.close();
+		await (stopping ?? page.close());
+	}
+}
+
+/**
+ * Run a login script and store the resulting cookies in the session.
+ * 
+ * Navigates to the login page and runs the script body in the page, e.g.
+ * to fill in and submit the login form; the script may navigate away.
+ * Then waits for the success selector (or for the network to go idle)
+ * and copies the cookies of the login page and the page it ended on into
+ * the session's jar, where HTTP, Puppeteer and FlareSolverr fetches
+ * pick them up.
+ * 
+ * @param {string} url - Login page URL
+ * @param {string} scriptBody - JavaScript code to run in the login page
+ * @param {RequestSession} session - Session that receives the cookies
+ * @param {PuppeteerOptions} options - Optional configuration (timeout, waitUntil, proxy)
+ * @param {LoginScriptOptions} loginOptions - Success selector and script time limit
+ * @returns {Promise<number>} Number of cookies captured
+ * @throws {Error} If the script is invalid, throws or times out, navigation fails, or the success selector never appears
+ */
+export async function runLoginScript(
+	url: string,
+	scriptBody: string,
+	session: RequestSession,
+	options: PuppeteerOptions = {},
+	loginOptions: LoginScriptOptions = {},
+): Promise<number> {
+	const { timeout = DEFAULT_TIMEOUT, waitUntil = 'networkidle2' } = options;
+	const { successSelector, scriptTimeout = DEFAULT_SCRIPT_TIMEOUT } = loginOptions;
+
+	if (!scriptBody || scriptBody.trim().length === 0) {
+		throw new Error('Login script must be a non-empty string');
+	}
+	if (scriptBody.length > MAX_SCRIPT_SIZE) {
+		throw new Error(`Login script is ${scriptBody.length} characters, exceeding the limit of ${MAX_SCRIPT_SIZE}`);
+	}
+
+	const browser = await getBrowser();
+	const page = await createPage(browser, url, timeout, { ...options, session });
+	let stopping: Promise<void> | undefined;
+
+	try {
+		await page.goto(url, {
+			waitUntil,
+			timeout,
+		});
+
+		try {
+			await withTimeout(
+				page.evaluate(async (script: string) => {
+					const fn = new Function(script);
+					await fn();
+				}, scriptBody),
+				scriptTimeout,
+				`Login script timed out after ${scriptTimeout}ms`,
+				() => {
+					stopping = stopPageScript(page);
+				},
+			);
+		} catch (error) {
+			// Submitting a form navigates away, which destroys the script's context
+			if (!(error instanceof Error && /execution context was destroyed|navigat/i.test(error.message))) {
+				throw error;
+			}
+		}
+
+		if (successSelector) {
+			await page.waitForSelector(successSelector, { timeout });
+		} else {
+			await page.waitForNetworkIdle({ idleTime: LOGIN_IDLE_TIME, timeout }).catch(() => {});
+		}
+
+		const cookies = await page.cookies(url, page.url());
+		session.jar.setCookies(cookies);
+		return cookies.length;
+	} finally {
+		await (stopping ?? page.close());
 	}
 }
 
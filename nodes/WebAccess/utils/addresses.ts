@@ -0,0 +1,340 @@
+/**
+ * Postal address extraction for Web Access node
+ * Finds street addresses in structured data, <address> elements and page
+ * text, using each country's postal code and locality conventions
+ */
+
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for HTML parsing in self-hosted deployments
+import * as cheerio from 'cheerio';
+import { extractTextLines } from './extraction';
+import type { PostalAddress, TextLine } from './types';
+
+/**
+ * How a country writes the locality line of an address.
+ */
+interface AddressRule {
+	/** ISO 3166-1 alpha-2 country */
+	country: string;
+	/** Locality line with named groups postalCode, locality and (optionally) region */
+	locality: RegExp;
+	/** Whether the locality comes before the postal code ("Springfield, IL 62701") */
+	localityFirst: boolean;
+}
+
+// City or town: capitalized words, with connectors such as "am" or "sur"
+const CITY = "\\p{Lu}[\\p{L}'.]*(?:[ -](?:(?:am|an|der|im|in|bei|ob|sur|sous|de|del|la|le|di|upon|on)[ -])?\\p{Lu}[\\p{L}'.]*){0,2}";
+
+// US states and territories
+const US_STATES =
+	'AL|AK|AZ|AR|CA|CO|CT|DE|DC|FL|GA|HI|ID|IL|IN|IA|KS|KY|LA|ME|MD|MA|MI|MN|MS|MO|MT|NE|NV|NH|NJ|NM|NY|NC|ND|OH|OK|OR|PA|RI|SC|SD|TN|TX|UT|VT|VA|WA|WV|WI|WY|PR|GU|VI';
+
+// Canadian provinces and territories
+const CA_PROVINCES = 'AB|BC|MB|NB|NL|NS|NT|NU|ON|PE|QC|SK|YT';
+
+// Australian states and territories
+const AU_STATES = 'NSW|VIC|QLD|WA|SA|TAS|ACT|NT';
+
+/**
+ * Build the locality pattern of a country writing the postal code first
+ * ("10115 Berlin"), optionally with a country prefix ("D-10115").
+ */
+const codeFirst = (code: string, suffix = ''): RegExp =>
+	new RegExp(`(?<![\\p{L}\\d-])(?:[A-Z]{1,2}-)?(?<postalCode>${code})\\s+(?<locality>${CITY})${suffix}`, 'gu');
+
+/**
+ * Build the locality pattern of a country writing the locality first,
+ * with the state or province before the postal code where it is written
+ * and postal district numbers ("Dublin 2") where they are used.
+ */
+const localityFirst = (code: string, region?: string, district = false): RegExp =>
+	new RegExp(
+		`(?<locality>${CITY}${district ? '(?: \\d{1,2})?' : ''}),?\\s+${region ? `(?<region>${region})\\.?,?\\s+` : ''}(?<postalCode>${code})(?![\\p{L}\\d])`,
+		'gu',
+	);
+
+// Locality line conventions per country
+const ADDRESS_RULES: AddressRule[] = [
+	{ country: 'US', locality: localityFirst('\\d{5}(?:-\\d{4})?', US_STATES), localityFirst: true },
+	{ country: 'CA', locality: localityFirst('[A-Z]\\d[A-Z] ?\\d[A-Z]\\d', CA_PROVINCES), localityFirst: true },
+	{ country: 'GB', locality: localityFirst('[A-Z]{1,2}\\d[A-Z\\d]? ?\\d[A-Z]{2}'), localityFirst: true },
+	{ country: 'IE', locality: localityFirst('(?:[AC-FHKNPRTV-Y]\\d{2}|D6W) ?[\\dAC-FHKNPRTV-Y]{4}', undefined, true), localityFirst: true },
+	{ country: 'AU', locality: localityFirst('\\d{4}', AU_STATES), localityFirst: true },
+	{ country: 'NZ', locality: localityFirst('\\d{4}'), localityFirst: true },
+	{ country: 'DE', locality: codeFirst('\\d{5}'), localityFirst: false },
+	{ country: 'FR', locality: codeFirst('\\d{5}', '(?: CEDEX(?: \\d{1,2})?)?'), localityFirst: false },
+	{ country: 'ES', locality: codeFirst('\\d{5}'), localityFirst: false },
+	{ country: 'IT', locality: codeFirst('\\d{5}', '(?:\\s+\\(?(?<region>[A-Z]{2})\\)?)?'), localityFirst: false },
+	{ country: 'NL', locality: codeFirst('\\d{4} ?[A-Z]{2}'), localityFirst: false },
+	{ country: 'AT', locality: codeFirst('\\d{4}'), localityFirst: false },
+	{ country: 'CH', locality: codeFirst('\\d{4}'), localityFirst: false },
+	{ country: 'BE', locality: codeFirst('\\d{4}'), localityFirst: false },
+	{ country: 'DK', locality: codeFirst('\\d{4}'), localityFirst: false },
+	{ country: 'NO', locality: codeFirst('\\d{4}'), localityFirst: false },
+	{ country: 'PT', locality: codeFirst('\\d{4}-\\d{3}'), localityFirst: false },
+	{ country: 'SE', locality: codeFirst('\\d{3} ?\\d{2}'), localityFirst: false },
+	{ country: 'PL', locality: codeFirst('\\d{2}-\\d{3}'), localityFirst: false },
+];
+
+// Street line ending right before the locality: house number first
+// ("221B Baker Street") or last ("Musterstraße 12", "Calle Mayor, 5")
+const STREET_PATTERN =
+	/(?:\d{1,5}[a-z]?(?:[-/]\d{1,5}[a-z]?)?,?\s+(?:[\p{L}'.-]+\s){0,4}[\p{L}'.-]+|(?:[\p{L}'.-]+\s){0,3}[\p{L}'.-]+,?\s\d{1,5}\s?[a-z]?(?:\s?[-/]\s?\d{1,5}[a-z]?)?)$/iu;
+
+// Street types that make a line a street, as words ("Main St", "rue de la Paix")
+// or as the end of compound names ("Musterstraße", "Keizersgracht")
+const STREET_WORDS =
+	/(?:^|[\s,])(?:street|st|avenue|ave|av|road|rd|boulevard|blvd|drive|dr|lane|ln|way|court|ct|place|pl|parkway|pkwy|highway|hwy|square|sq|terrace|crescent|close|row|circle|cir|trail|plaza|quay|wharf|mews|walk|grove|gardens|rue|allée|chemin|quai|impasse|route|cours|via|viale|piazza|piazzale|corso|largo|vicolo|calle|avenida|avda|paseo|carrer|camino|rua|travessa|ulica|ul|aleja|al)\.?(?=$|[\s,])|(?:straße|strasse|str\.|weg|platz|gasse|allee|ring|damm|ufer|markt|chaussee|steig|straat|laan|plein|kade|gracht|dijk|singel|vej|gade|gate|gata|gatan|vägen|veien|vei)(?=$|[\s,\d])/iu;
+
+// Country names written after the locality, in English and the local language
+const COUNTRY_NAMES: Record<string, string> = {
+	australia: 'AU',
+	austria: 'AT',
+	belgium: 'BE',
+	belgique: 'BE',
+	belgië: 'BE',
+	canada: 'CA',
+	danmark: 'DK',
+	denmark: 'DK',
+	deutschland: 'DE',
+	england: 'GB',
+	españa: 'ES',
+	france: 'FR',
+	germany: 'DE',
+	ireland: 'IE',
+	italia: 'IT',
+	italy: 'IT',
+	nederland: 'NL',
+	netherlands: 'NL',
+	'new zealand': 'NZ',
+	norge: 'NO',
+	norway: 'NO',
+	österreich: 'AT',
+	poland: 'PL',
+	polska: 'PL',
+	portugal: 'PT',
+	schweiz: 'CH',
+	scotland: 'GB',
+	spain: 'ES',
+	suisse: 'CH',
+	sverige: 'SE',
+	svizzera: 'CH',
+	sweden: 'SE',
+	switzerland: 'CH',
+	'the netherlands': 'NL',
+	uk: 'GB',
+	'united kingdom': 'GB',
+	'united states': 'US',
+	usa: 'US',
+	wales: 'GB',
+};
+
+// Country names, longest first so "the netherlands" wins over "netherlands"
+const COUNTRY_KEYS = Object.keys(COUNTRY_NAMES).sort((a, b) => b.length - a.length);
+
+// Labels that follow an address on the same line and are not part of the town
+const TRAILING_LABELS = /\s+(?:tel|telefon|telephone|phone|fon|fax|e-?mail|mail|web|www|mobil|mobile|call|contact|kontakt)\.?$/i;
+
+/**
+ * Inputs for address extraction.
+ */
+export interface AddressExtractionInput {
+	/** Page HTML, searched for <address> elements and split into lines */
+	html?: string;
+	/** Visible text, used when there is no HTML (documents) */
+	text: string;
+	/** Addresses from structured data */
+	structured?: PostalAddress[];
+	/** Country of the page (e.g. from getDefaultRegion), whose conventions are tried first */
+	defaultRegion?: string;
+}
+
+/**
+ * Find the postal addresses of a page.
+ *
+ * Structured data (schema.org PostalAddress) comes first, then <address>
+ * elements, then the page text. Text addresses need a street line
+ * ending with or right before a locality line in a known country format
+ * (postal code and town in the country's order, with state codes where
+ * they are part of it); the page's own country is tried first. Inside
+ * <address> the street may be missing. Each address is listed once.
+ *
+ * @param {AddressExtractionInput} input - Page HTML and text, structured addresses and country
+ * @returns {PostalAddress[]} Addresses in order of discovery
+ */
+export function extractPostalAddresses(input: AddressExtractionInput): PostalAddress[] {
+	const addresses = new Map<string, PostalAddress>();
+	const add = (address: PostalAddress) => {
+		const key = getAddressKey(address);
+		if (!addresses.has(key)) addresses.set(key, address);
+	};
+
+	(input.structured || []).forEach(add);
+
+	const rules = getRules(input.defaultRegion);
+	if (input.html) {
+		const $ = cheerio.load(input.html);
+		$('address').each((_, element) => {
+			// Contact lines (email, phone) often share the element
+			const lines = extractTextLines($(element).html() || '').filter(
+				(line) => !/@|^(?:tel|phone|fax|e-?mail|web)\b/i.test(line.text),
+			);
+			const found = findAddresses(lines, rules, false);
+			if (found.length > 0) {
+				found.forEach((address) => add({ ...address, source: 'address_tag' }));
+			} else if (lines.length >= 2 && /\d/.test(lines.map((line) => line.text).join(' '))) {
+				add({ formatted: lines.map((line) => line.text).join(', '), source: 'address_tag' });
+			}
+		});
+	}
+
+	const lines = input.html
+		? extractTextLines(input.html)
+		: input.text.split(/\r?\n/).map((text): TextLine => ({ text: text.trim(), container: 'none' }));
+	findAddresses(lines, rules, true).forEach(add);
+
+	return [...addresses.values()];
+}
+
+/**
+ * Address rules with the page's country first.
+ */
+function getRules(region?: string): AddressRule[] {
+	const own = ADDRESS_RULES.filter((rule) => rule.country === region);
+	return [...own, ...ADDRESS_RULES.filter((rule) => rule.country !== region)];
+}
+
+/**
+ * Find addresses in lines of text. A street may be on the locality's line
+ * or the line before it.
+ */
+function findAddresses(lines: TextLine[], rules: AddressRule[], requireStreet: boolean): PostalAddress[] {
+	const addresses: PostalAddress[] = [];
+
+	lines.forEach((line, index) => {
+		if (line.text.length > 300) return;
+		const taken: Array<[number, number]> = [];
+
+		for (const rule of rules) {
+			rule.locality.lastIndex = 0;
+			for (const match of line.text.matchAll(rule.locality)) {
+				const start = match.index ?? 0;
+				const end = start + match[0].length;
+				if (taken.some(([from, to]) => start < to && end > from)) continue;
+
+				const previous = index > 0 && lines[index - 1].text.length <= 80 ? lines[index - 1].text : undefined;
+				const address = readAddress(line.text, match, rule, previous, requireStreet);
+				if (!address) continue;
+				taken.push([start, end]);
+				addresses.push(address);
+			}
+		}
+	});
+
+	return addresses;
+}
+
+/**
+ * Build an address from a locality match and the text before it.
+ */
+function readAddress(
+	text: string,
+	match: RegExpMatchArray,
+	rule: AddressRule,
+	previousLine: string | undefined,
+	requireStreet: boolean,
+): PostalAddress | undefined {
+	const groups = match.groups || {};
+	const start = match.index ?? 0;
+	let locality = groups.locality.replace(TRAILING_LABELS, '').replace(/\.$/, '');
+	let region = groups.region;
+	// Italian localities end with the province code ("00184 Roma RM")
+	const province = !region && rule.country === 'IT' ? / \(?([A-Z]{2})\)?$/.exec(locality) : null;
+	if (province) {
+		region = province[1];
+		locality = locality.slice(0, province.index);
+	}
+	let before = text.slice(0, start);
+
+	// A greedy town can swallow the end of the street ("1 Main St Springfield");
+	// give its leading words back until the street reads as one
+	let street = getStreet(before, previousLine);
+	if (!street && rule.localityFirst) {
+		const words = locality.split(' ');
+		for (let taken = 1; taken < words.length && !street; taken++) {
+			const candidate = getStreet(`${before}${words.slice(0, taken).join(' ')}`, previousLine);
+			if (candidate) {
+				street = candidate;
+				before = `${before}${words.slice(0, taken).join(' ')} `;
+				locality = words.slice(taken).join(' ');
+			}
+		}
+	}
+	if (!street && requireStreet) return undefined;
+
+	// The country may follow the locality; code-first towns can swallow it ("10115 Berlin Germany")
+	const rest = text.slice(start + match[0].length).replace(/^[\s,|•·–—-]*/, '');
+	const following = findCountryName(
+		rest,
+		(name, lower) => lower.startsWith(name) && !/\p{L}/u.test(lower.charAt(name.length)),
+	);
+	let written = following ? rest.slice(0, following.length) : undefined;
+	if (!written && !rule.localityFirst) {
+		const name = findCountryName(locality, (candidate, lower) => lower.endsWith(` ${candidate}`));
+		if (name) {
+			written = locality.slice(-name.length);
+			locality = locality.slice(0, -name.length - 1);
+		}
+	}
+
+	const postalCode = groups.postalCode;
+	const localityLine = rule.localityFirst
+		? region
+			? `${locality}, ${region} ${postalCode}`
+			: `${locality} ${postalCode}`
+		: `${postalCode} ${locality}${region ? ` ${region}` : ''}`;
+
+	return {
+		street,
+		postalCode,
+		locality,
+		region,
+		country: written ? COUNTRY_NAMES[written.toLowerCase()] : rule.country,
+		formatted: [street, localityLine, written].filter(Boolean).join(', '),
+		source: 'text',
+	};
+}
+
+/**
+ * Get the street right before a locality, from the same line or the previous one.
+ */
+function getStreet(before: string, previousLine?: string): string | undefined {
+	const sameLine = before.replace(/[\s,;:|•·–—-]+$/, '');
+	if (sameLine) {
+		const segment = sameLine.split(/[|•·;:]/).pop()?.trim() || '';
+		const street = STREET_PATTERN.exec(segment)?.[0].trim();
+		return street && STREET_WORDS.test(street) ? street : undefined;
+	}
+
+	// A street line may add a unit or building ("1 Main St, Suite 200")
+	const line = previousLine?.trim();
+	if (!line || !STREET_WORDS.test(line)) return undefined;
+	return line.split(/,\s*/).some((part) => STREET_PATTERN.exec(part)?.[0] === part) ? line : undefined;
+}
+
+/**
+ * Find the country name a text starts or ends with, longest first.
+ */
+function findCountryName(text: string, test: (name: string, lower: string) => boolean): string | undefined {
+	const lower = text.toLowerCase();
+	return COUNTRY_KEYS.find((name) => test(name, lower));
+}
+
+/**
+ * Key for deduplication: postal code and house number, or the whole address.
+ */
+function getAddressKey(address: PostalAddress): string {
+	const postalCode = address.postalCode?.replace(/\s/g, '').toUpperCase();
+	const number = /\d+/.exec(address.street || '')?.[0];
+	if (postalCode && number) return `${postalCode}|${number}`;
+	return address.formatted.toLowerCase().replace(/[^\p{L}\d]/gu, '');
+}
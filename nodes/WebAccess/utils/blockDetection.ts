@@ -0,0 +1,215 @@
+/**
+ * Block detection for Web Access node
+ * Classifies challenge, CAPTCHA, rate limit and access denied responses
+ * from status codes, response headers, known bot-protection fingerprints
+ * and text density
+ */
+
+import type { BlockReason } from './types';
+import { extractTextContent } from './extraction';
+import { MAX_BLOCK_PAGE_TEXT_LENGTH } from './config';
+
+/**
+ * A response to classify.
+ */
+export interface BlockCheckInput {
+	/** Page HTML */
+	html: string;
+	/** Visible text, extracted from the HTML if omitted */
+	text?: string;
+	/** HTTP status code, if known */
+	status?: number;
+	/** Response headers, if known */
+	headers?: Headers | Record<string, string>;
+}
+
+/**
+ * Why a response was classified as blocked.
+ */
+export interface BlockDetection {
+	/** Kind of block */
+	reason: BlockReason;
+	/** Bot-protection vendor, when recognized */
+	vendor?: 'cloudflare' | 'akamai' | 'perimeterx' | 'datadome';
+	/** Human-readable description of the matched signal */
+	signal: string;
+}
+
+/**
+ * A fingerprint of a bot-protection page.
+ */
+interface Fingerprint {
+	reason: BlockReason;
+	vendor?: BlockDetection['vendor'];
+	signal: string;
+	/** Matches the raw HTML */
+	html?: RegExp;
+	/** Matches a response header (name lowercased) */
+	header?: { name: string; value?: RegExp };
+	/** Also require short visible text, for markers that real pages can contain */
+	sparseOnly?: boolean;
+}
+
+// Fingerprints of challenge and block pages, most specific first
+const FINGERPRINTS: Fingerprint[] = [
+	{
+		reason: 'cloudflare_challenge',
+		vendor: 'cloudflare',
+		signal: 'cf-mitigated: challenge header',
+		header: { name: 'cf-mitigated', value: /challenge/i },
+	},
+	{
+		reason: 'cloudflare_challenge',
+		vendor: 'cloudflare',
+		signal: 'Cloudflare challenge page',
+		html: /_cf_chl_opt|id="challenge-(form|stage|running)"|class="cf-browser-verification|cf-chl-(widget|bypass)/i,
+	},
+	{
+		// Also injected into normal pages that use Cloudflare's JavaScript detections
+		reason: 'cloudflare_challenge',
+		vendor: 'cloudflare',
+		signal: 'Cloudflare challenge platform on a near-empty page',
+		html: /\/cdn-cgi\/challenge-platform\/h\//i,
+		sparseOnly: true,
+	},
+	{
+		reason: 'access_denied',
+		vendor: 'cloudflare',
+		signal: 'Cloudflare block page',
+		html: /id="cf-error-details"/i,
+	},
+	{
+		reason: 'access_denied',
+		vendor: 'cloudflare',
+		signal: 'Cloudflare block page text',
+		html: /cf-error-code|Sorry, you have been blocked/i,
+		sparseOnly: true,
+	},
+	{
+		reason: 'access_denied',
+		vendor: 'akamai',
+		signal: 'Akamai access denied page',
+		html: /errors\.edgesuite\.net|Reference&#32;&#35;[0-9a-f.]+/i,
+	},
+	{
+		reason: 'captcha',
+		vendor: 'perimeterx',
+		signal: 'PerimeterX CAPTCHA',
+		html: /id="px-captcha"|_pxCaptcha|captcha\.px-cdn\.net/i,
+	},
+	{
+		reason: 'captcha',
+		vendor: 'perimeterx',
+		signal: 'PerimeterX "Press & Hold" on a near-empty page',
+		html: /Press &amp; Hold|Press & Hold/i,
+		sparseOnly: true,
+	},
+	{
+		reason: 'captcha',
+		vendor: 'datadome',
+		signal: 'DataDome CAPTCHA',
+		html: /captcha-delivery\.com/i,
+	},
+	{
+		reason: 'captcha',
+		vendor: 'datadome',
+		signal: 'DataDome header',
+		header: { name: 'x-datadome' },
+		sparseOnly: true,
+	},
+	{
+		reason: 'captcha',
+		signal: 'CAPTCHA widget on a near-empty page',
+		html: /class="(g-recaptcha|h-captcha|cf-turnstile)"|(www\.google\.com\/recaptcha|hcaptcha\.com\/1\/api\.js|challenges\.cloudflare\.com\/turnstile)/i,
+		sparseOnly: true,
+	},
+];
+
+// Phrases of generic block pages; only trusted on pages with little text
+const BLOCK_PHRASES: Array<{ reason: BlockReason; pattern: RegExp }> = [
+	{ reason: 'captcha', pattern: /are you a (robot|human)|verify (that )?you are (a )?human|human verification|complete the (security check|captcha)/i },
+	{ reason: 'rate_limited', pattern: /too many requests|rate limit(ed)? exceeded|you have been rate limited/i },
+	{ reason: 'access_denied', pattern: /access (is )?denied|403 forbidden|you (have been|are) blocked|request (was )?blocked/i },
+];
+
+/**
+ * Classify a response as blocked, and why.
+ *
+ * Vendor fingerprints (Cloudflare, Akamai, PerimeterX, DataDome) are
+ * matched first. Generic CAPTCHA widgets, block phrases and vendor markers
+ * that normal pages can also contain only count on pages with little
+ * visible text, so pages that load Cloudflare's challenge script or embed
+ * a reCAPTCHA form are not flagged. Otherwise the status
+ * code decides: 429 is rate limited and 401/403 is access denied.
+ *
+ * @param {BlockCheckInput} input - HTML plus status code and headers when known
+ * @returns {BlockDetection | undefined} Detection, or undefined if the page looks served
+ */
+export function detectBlock(input: BlockCheckInput): BlockDetection | undefined {
+	const { html, status } = input;
+	const headers = normalizeHeaders(input.headers);
+	const text = input.text ?? extractTextContent(html);
+	const sparse = text.length < MAX_BLOCK_PAGE_TEXT_LENGTH;
+
+	for (const fingerprint of FINGERPRINTS) {
+		if (fingerprint.sparseOnly && !sparse) continue;
+		if (fingerprint.html && !fingerprint.html.test(html)) continue;
+		if (fingerprint.header) {
+			const value = headers[fingerprint.header.name];
+			if (value === undefined || (fingerprint.header.value && !fingerprint.header.value.test(value))) continue;
+		}
+		return { reason: fingerprint.reason, vendor: fingerprint.vendor, signal: fingerprint.signal };
+	}
+
+	if (status === 429) {
+		return { reason: 'rate_limited', signal: 'HTTP 429' };
+	}
+
+	// Cloudflare answers challenges with 403/503 from its own server
+	if ((status === 403 || status === 503) && /cloudflare/i.test(headers.server || '') && sparse) {
+		return { reason: 'cloudflare_challenge', vendor: 'cloudflare', signal: `HTTP ${status} from Cloudflare` };
+	}
+
+	if (sparse) {
+		for (const phrase of BLOCK_PHRASES) {
+			if (phrase.pattern.test(text)) {
+				return { reason: phrase.reason, signal: `block page text "${text.match(phrase.pattern)?.[0]}"` };
+			}
+		}
+	}
+
+	if (status === 401 || status === 403) {
+		return { reason: 'access_denied', signal: `HTTP ${status}` };
+	}
+
+	return undefined;
+}
+
+/**
+ * Describe a block for error messages.
+ *
+ * @param {BlockDetection} detection - Detected block
+ * @returns {string} Message such as "Blocked (captcha): DataDome CAPTCHA"
+ */
+export function describeBlock(detection: BlockDetection): string {
+	return `Blocked (${detection.reason}): ${detection.signal}`;
+}
+
+/**
+ * Lowercase header names from a Headers object or plain record.
+ */
+function normalizeHeaders(headers?: Headers | Record<string, string>): Record<string, string> {
+	const normalized: Record<string, string> = {};
+	if (!headers) return normalized;
+
+	if (headers instanceof Headers) {
+		headers.forEach((value, name) => {
+			normalized[name.toLowerCase()] = value;
+		});
+	} else {
+		for (const [name, value] of Object.entries(headers)) {
+			normalized[name.toLowerCase()] = String(value);
+		}
+	}
+	return normalized;
+}
@@ -0,0 +1,202 @@
+/**
+ * Content cache for Web Access node
+ * Stores acquired pages so re-runs don't re-scrape, with in-memory and
+ * filesystem backends
+ *
+ * The filesystem backend writes under the directory in WEBACCESS_CACHE_DIR
+ * (default: n8n-webaccess-cache in the system temp directory), which only
+ * the admin controls; workflows can pick a subdirectory of it.
+ */
+
+/* eslint-disable @n8n/community-nodes/no-restricted-globals -- process.env holds the admin cache directory */
+
+import { createHash, randomBytes } from 'crypto';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for the filesystem cache in self-hosted deployments
+import { promises as fs } from 'fs';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for the filesystem cache in self-hosted deployments
+import { tmpdir } from 'os';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for the filesystem cache in self-hosted deployments
+import { isAbsolute, join, relative, resolve, sep } from 'path';
+import type { CacheOptions, ContentKind, DocumentContent } from './types';
+import { CACHE_DIRECTORY_ENV, CACHE_DIRECTORY_NAME, DEFAULT_CACHE_TTL, MAX_MEMORY_CACHE_ENTRIES } from './config';
+
+/**
+ * A cached page.
+ */
+export interface CacheEntry {
+	/** URL as requested */
+	url: string;
+	/** Acquisition method that produced the content */
+	method: 'http' | 'flaresolverr' | 'puppeteer';
+	html: string;
+	text: string;
+	/** Kind of content */
+	contentKind?: ContentKind;
+	/** Parsed document, for non-HTML content */
+	document?: DocumentContent;
+	/** ETag response header, for conditional revalidation */
+	etag?: string;
+	/** Last-Modified response header, for conditional revalidation */
+	lastModified?: string;
+	/** When the entry was stored or last revalidated (epoch milliseconds) */
+	storedAt: number;
+}
+
+/**
+ * Storage backend for cache entries.
+ */
+export interface ContentCache {
+	get(key: string): Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+// In-memory entries, shared by all executions in this process (insertion order = LRU order)
+const memoryEntries = new Map<string, CacheEntry>();
+
+/**
+ * Get the cache backend selected by the options.
+ *
+ * @param {CacheOptions} [options] - Cache options
+ * @returns {ContentCache | undefined} Backend, or undefined when caching is off
+ */
+export function getContentCache(options?: CacheOptions): ContentCache | undefined {
+	switch (options?.backend) {
+		case 'memory':
+			return memoryCache;
+		case 'filesystem':
+			return createFilesystemCache(getCacheDirectory(options.subdirectory));
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Get the directory of the filesystem backend: the admin's cache root,
+ * or a subdirectory of it.
+ *
+ * @param {string} [subdirectory] - Path relative to the cache root
+ * @returns {string} Absolute cache directory
+ * @throws {Error} If the subdirectory is absolute or leads outside the cache root
+ */
+export function getCacheDirectory(subdirectory?: string): string {
+	const root = resolve(process.env[CACHE_DIRECTORY_ENV]?.trim() || join(tmpdir(), CACHE_DIRECTORY_NAME));
+	const path = subdirectory?.trim();
+	if (!path) {
+		return root;
+	}
+
+	const directory = resolve(root, path);
+	const inside = relative(root, directory);
+	if (isAbsolute(path) || inside === '..' || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+		throw new Error(`Cache subdirectory "${path}" must be a relative path inside the cache directory (${CACHE_DIRECTORY_ENV})`);
+	}
+	return directory;
+}
+
+/**
+ * Build the cache key for a URL, acquisition method and proxy.
+ *
+ * Pages fetched through a proxy are kept apart per proxy, since sites
+ * serve different content to different egress regions.
+ *
+ * @param {string} url - Page URL
+ * @param {string} method - Acquisition method
+ * @param {string} [proxy] - Label of the proxy the page is fetched through
+ * @returns {string} Cache key
+ */
+export function getCacheKey(url: string, method: string, proxy?: string): string {
+	return proxy ? `${method} ${proxy} ${normalizeCacheUrl(url)}` : `${method} ${normalizeCacheUrl(url)}`;
+}
+
+/**
+ * Normalize a URL so equivalent spellings share a cache entry.
+ *
+ * Lowercases scheme and host and drops default ports and the fragment.
+ * Path and query are kept as they are, since servers may answer "/path"
+ * and "/path/" or reordered parameters differently.
+ *
+ * @param {string} url - URL to normalize
+ * @returns {string} Normalized URL (the raw input if it is not a valid URL)
+ */
+export function normalizeCacheUrl(url: string): string {
+	let parsed: URL;
+	try {
+		parsed = new URL(url.trim());
+	} catch {
+		return url.trim();
+	}
+
+	// URL already lowercases scheme and host and drops default ports
+	parsed.hash = '';
+	return parsed.href;
+}
+
+/**
+ * Check whether an entry is younger than the TTL.
+ *
+ * @param {CacheEntry} entry - Cache entry
+ * @param {number} [ttl] - Time to live in seconds
+ * @returns {boolean} True if the entry can be used without revalidation
+ */
+export function isCacheEntryFresh(entry: CacheEntry, ttl: number = DEFAULT_CACHE_TTL): boolean {
+	return Date.now() - entry.storedAt < ttl * 1000;
+}
+
+/**
+ * In-memory backend, bounded to the most recently used entries.
+ */
+const memoryCache: ContentCache = {
+	async get(key: string): Promise<CacheEntry | undefined> {
+		const entry = memoryEntries.get(key);
+		if (entry) {
+			// Move to the end so it is evicted last
+			memoryEntries.delete(key);
+			memoryEntries.set(key, entry);
+		}
+		return entry;
+	},
+
+	async set(key: string, entry: CacheEntry): Promise<void> {
+		memoryEntries.delete(key);
+		memoryEntries.set(key, entry);
+		while (memoryEntries.size > MAX_MEMORY_CACHE_ENTRIES) {
+			const oldest = memoryEntries.keys().next().value;
+			if (oldest === undefined) break;
+			memoryEntries.delete(oldest);
+		}
+	},
+};
+
+/**
+ * Filesystem backend storing one JSON file per key.
+ *
+ * Read and write errors are treated as cache misses so a broken cache
+ * directory never fails acquisition.
+ */
+function createFilesystemCache(directory: string): ContentCache {
+	const pathFor = (key: string) => join(directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+	return {
+		async get(key: string): Promise<CacheEntry | undefined> {
+			try {
+				const entry = JSON.parse(await fs.readFile(pathFor(key), 'utf8')) as CacheEntry;
+				return typeof entry.html === 'string' && typeof entry.storedAt === 'number' ? entry : undefined;
+			} catch {
+				return undefined;
+			}
+		},
+
+		async set(key: string, entry: CacheEntry): Promise<void> {
+			try {
+				await fs.mkdir(directory, { recursive: true });
+				// Write then rename so concurrent readers never see a partial file
+				const target = pathFor(key);
+				const temp = `${target}.${randomBytes(6).toString('hex')}.tmp`;
+				await fs.writeFile(temp, JSON.stringify(entry), 'utf8');
+				await fs.rename(temp, target);
+			} catch {
+				// Caching is best effort
+			}
+		},
+	};
+}
@@ -0,0 +1,143 @@
+/**
+ * Clearance store for Web Access node
+ * Keeps the challenge cookies and user agent of solved FlareSolverr challenges per
+ * domain, so follow-up requests can go over plain HTTP until they expire
+ */
+
+import type { ProxyEndpoint, SessionCookie } from './types';
+import type { RequestSession } from './session';
+import { getDomainKey } from './concurrency';
+import { DEFAULT_CLEARANCE_TTL } from './config';
+
+/**
+ * Cookies and user agent from a solved challenge.
+ */
+export interface Clearance {
+	/** Challenge cookies of the solved page (cf_clearance and friends) */
+	cookies: SessionCookie[];
+	/** User agent the challenge was solved with; the cookies are only accepted with it */
+	userAgent: string;
+	/** When the clearance stops being replayed (epoch milliseconds) */
+	expiresAt: number;
+}
+
+// Cookie whose expiry bounds a Cloudflare clearance
+const CLEARANCE_COOKIE = 'cf_clearance';
+
+// Cookies set by challenge providers to mark a passed check (Cloudflare,
+// DDoS-Guard, Sucuri). Other cookies of the page may identify a user and
+// must not be replayed on other executions' requests.
+const CHALLENGE_COOKIE_PATTERNS = [
+	/^cf_clearance$/,
+	/^__cf_bm$/,
+	/^__cfruid$/,
+	/^_cfuvid$/,
+	/^__ddg\w*$/,
+	/^sucuri_cloudproxy_uuid_\w+$/,
+];
+
+// Upper bound on stored clearances
+const MAX_CLEARANCE_ENTRIES = 1000;
+
+// Clearances keyed by domain and proxy, shared by all executions in this process
+const clearances = new Map<string, Clearance>();
+
+// Clearances solved within a request session, kept apart from other executions
+const sessionClearances = new WeakMap<RequestSession, Map<string, Clearance>>();
+
+/**
+ * Store the result of a solved challenge.
+ *
+ * Clearances are bound to the IP they were solved from, so they are kept
+ * per proxy. Only the challenge cookies are kept; the page's other
+ * cookies (logins, preferences) stay with the request. The clearance
+ * expires with its cf_clearance cookie, or after DEFAULT_CLEARANCE_TTL
+ * when there is none or it is a session cookie. Clearances solved for a
+ * request session (custom headers, cookies or a login) are only replayed
+ * within that session.
+ *
+ * @param {string} url - URL of the solved page
+ * @param {SessionCookie[]} cookies - Cookies returned by FlareSolverr
+ * @param {string} userAgent - User agent FlareSolverr's browser used
+ * @param {ProxyEndpoint} [proxy] - Proxy the challenge was solved through
+ * @param {RequestSession} [session] - Session the challenge was solved for
+ */
+export function storeClearance(
+	url: string,
+	cookies: SessionCookie[],
+	userAgent: string,
+	proxy?: ProxyEndpoint,
+	session?: RequestSession,
+): void {
+	const challengeCookies = cookies.filter((cookie) =>
+		CHALLENGE_COOKIE_PATTERNS.some((pattern) => pattern.test(cookie.name)),
+	);
+	if (challengeCookies.length === 0 || !userAgent) {
+		return;
+	}
+
+	const clearanceCookie = challengeCookies.find((cookie) => cookie.name === CLEARANCE_COOKIE);
+	const expiresAt =
+		clearanceCookie && clearanceCookie.expires > 0
+			? clearanceCookie.expires * 1000
+			: Date.now() + DEFAULT_CLEARANCE_TTL;
+	if (expiresAt <= Date.now()) {
+		return;
+	}
+
+	const store = getStore(session, true) as Map<string, Clearance>;
+	if (store.size >= MAX_CLEARANCE_ENTRIES) {
+		store.clear();
+	}
+	store.set(getClearanceKey(url, proxy), { cookies: challengeCookies, userAgent, expiresAt });
+}
+
+/**
+ * Get the unexpired clearance for a URL's domain.
+ *
+ * @param {string} url - URL about to be requested
+ * @param {ProxyEndpoint} [proxy] - Proxy the request goes through
+ * @param {RequestSession} [session] - Session the request belongs to
+ * @returns {Clearance | undefined} Clearance, or undefined if none is stored or it expired
+ */
+export function getClearance(url: string, proxy?: ProxyEndpoint, session?: RequestSession): Clearance | undefined {
+	const store = getStore(session);
+	const key = getClearanceKey(url, proxy);
+	const clearance = store?.get(key);
+	if (clearance && clearance.expiresAt <= Date.now()) {
+		store?.delete(key);
+		return undefined;
+	}
+	return clearance;
+}
+
+/**
+ * Forget a clearance the site no longer accepts.
+ *
+ * @param {string} url - URL whose domain's clearance is dropped
+ * @param {ProxyEndpoint} [proxy] - Proxy the clearance was stored for
+ * @param {RequestSession} [session] - Session the clearance was stored for
+ */
+export function dropClearance(url: string, proxy?: ProxyEndpoint, session?: RequestSession): void {
+	getStore(session)?.delete(getClearanceKey(url, proxy));
+}
+
+/**
+ * Get the clearance store of a session, or the shared one without a session.
+ */
+function getStore(session: RequestSession | undefined, create = false): Map<string, Clearance> | undefined {
+	if (!session) return clearances;
+	let store = sessionClearances.get(session);
+	if (!store && create) {
+		store = new Map();
+		sessionClearances.set(session, store);
+	}
+	return store;
+}
+
+/**
+ * Build the store key for a URL's domain and proxy.
+ */
+function getClearanceKey(url: string, proxy?: ProxyEndpoint): string {
+	return `${getDomainKey(url)} ${proxy?.label || 'direct'}`;
+}
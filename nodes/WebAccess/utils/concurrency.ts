@@ -0,0 +1,162 @@
+/**
+ * Concurrency utilities for Web Access node
+ * Bounded worker pools and per-key (per-domain) limits
+ */
+
+/**
+ * Limits how many tasks run at once.
+ */
+export interface Limiter {
+	/** Wait for a free slot; call the returned function to release it */
+	acquire(): Promise<() => void>;
+	/** Run a task in a slot, releasing it when the task settles */
+	run<T>(task: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Limits how many tasks run at once for each key.
+ */
+export interface KeyedLimiter {
+	/** Run a task in a slot for the key, releasing it when the task settles */
+	run<T>(key: string, task: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Create a limiter that allows at most `limit` concurrent tasks.
+ *
+ * Waiting tasks get slots in FIFO order.
+ *
+ * @param {number} limit - Maximum concurrent tasks (at least 1)
+ * @returns {Limiter} Limiter
+ */
+export function createLimiter(limit: number): Limiter {
+	const maxActive = Math.max(1, Math.floor(limit) || 1);
+	const waiting: Array<() => void> = [];
+	let active = 0;
+
+	const release = (): void => {
+		const next = waiting.shift();
+		if (next) {
+			// Hand the slot straight to the next waiter
+			next();
+		} else {
+			active--;
+		}
+	};
+
+	const acquire = async (): Promise<() => void> => {
+		if (active < maxActive) {
+			active++;
+		} else {
+			await new Promise<void>((resolve) => waiting.push(resolve));
+		}
+
+		let released = false;
+		return () => {
+			if (released) return;
+			released = true;
+			release();
+		};
+	};
+
+	return {
+		acquire,
+		async run<T>(task: () => Promise<T>): Promise<T> {
+			const releaseSlot = await acquire();
+			try {
+				return await task();
+			} finally {
+				releaseSlot();
+			}
+		},
+	};
+}
+
+/**
+ * Create a limiter that allows at most `limitPerKey` concurrent tasks per key.
+ *
+ * Limiters for idle keys are dropped so long runs over many domains
+ * don't accumulate state.
+ *
+ * @param {number} limitPerKey - Maximum concurrent tasks per key
+ * @returns {KeyedLimiter} Keyed limiter
+ */
+export function createKeyedLimiter(limitPerKey: number): KeyedLimiter {
+	const limiters = new Map<string, { limiter: Limiter; users: number }>();
+
+	return {
+		async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+			let entry = limiters.get(key);
+			if (!entry) {
+				entry = { limiter: createLimiter(limitPerKey), users: 0 };
+				limiters.set(key, entry);
+			}
+			entry.users++;
+
+			try {
+				return await entry.limiter.run(task);
+			} finally {
+				entry.users--;
+				if (entry.users === 0) {
+					limiters.delete(key);
+				}
+			}
+		},
+	};
+}
+
+/**
+ * Map items through an async worker with at most `limit` running at once.
+ *
+ * Results keep the input order. If a worker throws, no new items are
+ * started and the first error is rethrown once running workers settle.
+ *
+ * @param {T[]} items - Items to process
+ * @param {number} limit - Maximum concurrent workers
+ * @param {(item: T, index: number) => Promise<R>} worker - Async worker
+ * @returns {Promise<R[]>} Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array<R>(items.length);
+	const workerCount = Math.min(Math.max(1, Math.floor(limit) || 1), items.length);
+	let nextIndex = 0;
+	let failure: { error: unknown } | undefined;
+
+	const runWorker = async (): Promise<void> => {
+		while (!failure && nextIndex < items.length) {
+			const index = nextIndex++;
+			try {
+				results[index] = await worker(items[index], index);
+			} catch (error) {
+				failure = failure || { error };
+			}
+		}
+	};
+
+	await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+
+	if (failure) {
+		throw failure.error;
+	}
+
+	return results;
+}
+
+/**
+ * Get the key used for per-domain limits: the lowercased hostname
+ * without a leading "www.".
+ *
+ * @param {string} url - URL
+ * @returns {string} Domain key (the raw input if it is not a valid URL)
+ */
+export function getDomainKey(url: string): string {
+	try {
+		return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+	} catch {
+		return url;
+	}
+}
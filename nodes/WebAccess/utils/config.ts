@@ -13,12 +13,24 @@ export const MAX_ASSETS = 50;
  */
 export const MAX_CRAWL_CANDIDATES = 20;
 
+/**
+ * Default number of likely contact pages (contact, about, support...) to
+ * visit when the starting page has no contact details.
+ */
+export const DEFAULT_CONTACT_PAGES = 5;
+
 /**
  * Default Crawl4AI base URL.
  * Can be overridden via credentials or node parameter.
  */
 export const DEFAULT_CRAWL4AI_BASE_URL = 'http://127.0.0.1:11235';
 
+/**
+ * Default user agent for HTTP requests and Puppeteer pages.
+ */
+export const DEFAULT_USER_AGENT =
+	'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
 /**
  * Default HTTP request timeout in milliseconds.
  */
@@ -64,21 +76,204 @@ export const MAX_CRAWL_PAGES = 100;
  */
 export const SCREENSHOT_ANIMATION_DELAY = 1000;
 
+/**
+ * Default run time limit for custom page scripts (milliseconds).
+ */
+export const DEFAULT_SCRIPT_TIMEOUT = 30000;
+
+/**
+ * Maximum size of a custom page script (characters).
+ */
+export const MAX_SCRIPT_SIZE = 100000;
+
+/**
+ * Maximum size of a serialized custom script result (characters).
+ */
+export const MAX_SCRIPT_RESULT_SIZE = 1000000;
+
+/**
+ * Quiet period in milliseconds that ends a login script without a success selector.
+ */
+export const LOGIN_IDLE_TIME = 500;
+
+/**
+ * Default number of URLs processed in parallel.
+ */
+export const DEFAULT_CONCURRENCY = 1;
+
+/**
+ * Maximum number of URLs processed in parallel.
+ */
+export const MAX_CONCURRENCY = 20;
+
+/**
+ * Default number of parallel requests to the same domain.
+ */
+export const DEFAULT_CONCURRENCY_PER_DOMAIN = 2;
+
+/**
+ * Maximum number of Puppeteer pages open at once in the shared browser.
+ */
+export const MAX_CONCURRENT_PAGES = 4;
+
+/**
+ * Default requests per second to a single host.
+ */
+export const DEFAULT_HOST_REQUESTS_PER_SECOND = 2;
+
+/**
+ * Default burst size (requests sent without waiting) per host.
+ */
+export const DEFAULT_HOST_BURST = 2;
+
+/**
+ * Maximum robots.txt Crawl-delay honored, in seconds.
+ */
+export const MAX_CRAWL_DELAY = 30;
+
+/**
+ * How long a fetched robots.txt is cached (milliseconds).
+ */
+export const ROBOTS_CACHE_TTL = 3600000;
+
+/**
+ * robots.txt request timeout in milliseconds.
+ */
+export const ROBOTS_TIMEOUT = 10000;
+
+/**
+ * Maximum number of origins whose robots.txt is kept in memory.
+ */
+export const MAX_ROBOTS_CACHE_ENTRIES = 1000;
+
+/**
+ * Maximum number of hosts with rate limiting state kept in memory.
+ */
+export const MAX_HOST_BUCKETS = 1000;
+
+/**
+ * Default content cache time to live, in seconds.
+ */
+export const DEFAULT_CACHE_TTL = 3600;
+
+/**
+ * Maximum number of pages kept by the in-memory content cache.
+ */
+export const MAX_MEMORY_CACHE_ENTRIES = 500;
+
+/**
+ * Directory name for the filesystem content cache, under the OS temp directory.
+ */
+export const CACHE_DIRECTORY_NAME = 'n8n-webaccess-cache';
+
+/**
+ * Environment variable with the root directory of the filesystem content
+ * cache. Workflows can only pick subdirectories of it.
+ */
+export const CACHE_DIRECTORY_ENV = 'WEBACCESS_CACHE_DIR';
+
 /**
  * Allowed URL protocols for security.
  */
 export const ALLOWED_PROTOCOLS = ['http:', 'https:'];
 
 /**
- * Blocked URL patterns for security (SSRF prevention).
+ * Hostnames that always refer to the local machine or cloud metadata
+ * services (subdomains included).
  */
-export const BLOCKED_URL_PATTERNS = [
-	/^127\./,
-	/^localhost/,
-	/^0\.0\.0\.0/,
-	/^::1/,
-	/^192\.168\./,
-	/^10\./,
-	/^172\.(1[6-9]|2[0-9]|3[0-1])\./,
+export const BLOCKED_HOSTNAMES = ['localhost', 'localhost.localdomain', 'metadata.google.internal'];
+
+/**
+ * IP ranges that may not be requested (SSRF prevention): unspecified,
+ * private, loopback, link-local (including 169.254.169.254 cloud
+ * metadata), CGNAT, documentation, multicast and reserved addresses.
+ */
+export const BLOCKED_IP_RANGES = [
+	'0.0.0.0/8',
+	'10.0.0.0/8',
+	'100.64.0.0/10',
+	'127.0.0.0/8',
+	'169.254.0.0/16',
+	'172.16.0.0/12',
+	'192.0.0.0/24',
+	'192.0.2.0/24',
+	'192.168.0.0/16',
+	'198.18.0.0/15',
+	'198.51.100.0/24',
+	'203.0.113.0/24',
+	'224.0.0.0/4',
+	'240.0.0.0/4',
+	'::/128',
+	'::1/128',
+	'100::/64',
+	'2001:db8::/32',
+	'fc00::/7',
+	'fe80::/10',
+	'fec0::/10',
+	'ff00::/8',
 ];
 
+/**
+ * Environment variable with comma-separated hosts or CIDR ranges that may
+ * be requested even though they are private.
+ */
+export const ALLOWED_HOSTS_ENV = 'WEBACCESS_ALLOWED_HOSTS';
+
+/**
+ * Environment variable with comma-separated hosts or CIDR ranges that are
+ * always blocked. Takes precedence over the allowlist.
+ */
+export const BLOCKED_HOSTS_ENV = 'WEBACCESS_BLOCKED_HOSTS';
+
+/**
+ * Maximum redirects followed by HTTP requests; every hop is validated.
+ */
+export const MAX_REDIRECTS = 10;
+
+/**
+ * How long resolved host addresses are cached for SSRF checks (milliseconds).
+ */
+export const DNS_CACHE_TTL = 60000;
+
+/**
+ * How long a FlareSolverr clearance is replayed when its cookies carry no
+ * expiry (milliseconds).
+ */
+export const DEFAULT_CLEARANCE_TTL = 1800000;
+
+/**
+ * Content quality score (0-1) below which an HTTP page is treated as a
+ * JavaScript shell and rendered with Puppeteer instead.
+ */
+export const MIN_CONTENT_QUALITY_SCORE = 0.5;
+
+/**
+ * Visible text length below which a page counts as nearly empty.
+ */
+export const MIN_CONTENT_TEXT_LENGTH = 200;
+
+/**
+ * Visible text to HTML size ratio below which a page counts as mostly markup.
+ */
+export const MIN_TEXT_TO_MARKUP_RATIO = 0.02;
+
+/**
+ * Visible text length below which block page markers and phrases are
+ * trusted; longer pages are real content that merely mentions them.
+ */
+export const MAX_BLOCK_PAGE_TEXT_LENGTH = 1000;
+
+/**
+ * Maximum size of a PDF, JSON, XML, CSV or text response to parse (bytes)
+ */
+export const MAX_DOCUMENT_SIZE = 20 * 1024 * 1024;
+
+/**
+ * Maximum number of tables extracted from a page
+ */
+export const MAX_EXTRACTED_TABLES = 20;
+
+/**
+ * Maximum number of data rows kept per extracted table
+ */
+export const MAX_TABLE_ROWS = 1000;
@@ -0,0 +1,116 @@
+/**
+ * Content quality scoring for Web Access node
+ * Detects JavaScript-rendered shells (SPA roots, "enable JavaScript"
+ * notices, empty main content) that plain HTTP fetches return
+ */
+
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for HTML parsing in self-hosted deployments
+import * as cheerio from 'cheerio';
+import { extractTextContent } from './extraction';
+import { MIN_CONTENT_QUALITY_SCORE, MIN_CONTENT_TEXT_LENGTH, MIN_TEXT_TO_MARKUP_RATIO } from './config';
+
+/**
+ * Quality assessment of a fetched page.
+ */
+export interface ContentQuality {
+	/** 1 for a normal page, lower the more it looks like an unrendered shell */
+	score: number;
+	/** Whether the page should be rendered in a browser */
+	needsRendering: boolean;
+	/** Signals that lowered the score */
+	reasons: string[];
+}
+
+// Mount points of client-side frameworks (React, Vue, Angular, Next, Nuxt, Gatsby, Svelte, Ember)
+const FRAMEWORK_ROOT_SELECTORS = [
+	'#root',
+	'#app',
+	'#__next',
+	'#__nuxt',
+	'#___gatsby',
+	'#svelte',
+	'app-root',
+	'[data-reactroot]',
+	'[ng-app]',
+	'[ng-version]',
+	'.ember-application',
+];
+
+// <noscript> notices asking for JavaScript
+const NOSCRIPT_NOTICE_PATTERN =
+	/(enable|turn on|activate)\s+javascript|javascript\s+(is\s+)?(required|disabled|must be enabled)|requires\s+javascript|need(s)?\s+javascript/i;
+
+// How much each signal lowers the score
+const PENALTIES = {
+	emptyFrameworkRoot: 0.5,
+	noscriptNotice: 0.3,
+	emptyMain: 0.3,
+	shortText: 0.3,
+	lowTextRatio: 0.2,
+};
+
+/**
+ * Score how much a page looks like real content rather than a shell that
+ * needs JavaScript to render.
+ *
+ * Each signal lowers the score: an empty framework mount point, a
+ * <noscript> "enable JavaScript" notice, an empty <main>, very little
+ * visible text, and a low text-to-markup ratio. A single signal on an
+ * otherwise normal page stays above the threshold.
+ *
+ * @param {string} html - Page HTML
+ * @param {string} [text] - Visible text, extracted from the HTML if omitted
+ * @returns {ContentQuality} Score, whether to render in a browser, and why
+ */
+export function assessContentQuality(html: string, text?: string): ContentQuality {
+	const visibleText = text ?? extractTextContent(html);
+	const $ = cheerio.load(html);
+	const reasons: string[] = [];
+	let score = 1;
+
+	const emptyRoot = FRAMEWORK_ROOT_SELECTORS.find((selector) => {
+		const root = $(selector).first();
+		return root.length > 0 && getElementText($, root) === '';
+	});
+	if (emptyRoot) {
+		score -= PENALTIES.emptyFrameworkRoot;
+		reasons.push(`empty framework root ${emptyRoot}`);
+	}
+
+	const noscript = $('noscript')
+		.toArray()
+		.some((element) => NOSCRIPT_NOTICE_PATTERN.test($(element).text()));
+	if (noscript) {
+		score -= PENALTIES.noscriptNotice;
+		reasons.push('<noscript> asks to enable JavaScript');
+	}
+
+	const main = $('main, [role="main"]').first();
+	if (main.length > 0 && getElementText($, main) === '') {
+		score -= PENALTIES.emptyMain;
+		reasons.push('empty main content');
+	}
+
+	if (visibleText.length < MIN_CONTENT_TEXT_LENGTH) {
+		score -= PENALTIES.shortText;
+		reasons.push(`only ${visibleText.length} characters of text`);
+	}
+
+	const ratio = html.length > 0 ? visibleText.length / html.length : 0;
+	if (ratio < MIN_TEXT_TO_MARKUP_RATIO) {
+		score -= PENALTIES.lowTextRatio;
+		reasons.push(`text is ${(ratio * 100).toFixed(1)}% of markup`);
+	}
+
+	score = Math.max(0, Math.round(score * 100) / 100);
+	return { score, needsRendering: score < MIN_CONTENT_QUALITY_SCORE, reasons };
+}
+
+/**
+ * Get an element's visible text, ignoring scripts, styles and templates.
+ */
+function getElementText($: cheerio.CheerioAPI, element: ReturnType<cheerio.CheerioAPI>): string {
+	const clone = element.clone();
+	clone.find('script, style, noscript, template').remove();
+	return clone.text().replace(/\s+/g, ' ').trim();
+}
@@ -1,65 +1,371 @@
 /**
  * Cost estimation utilities for LLM API calls
+ * Reads real token usage from API responses and prices it per model
  */
 
+import type { ModelPricing } from './types';
+
+/**
+ * Approximate characters per token, used when a response has no usage field.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Pricing per 1M tokens (input/output).
+ * These are approximate - actual pricing may vary by provider.
+ * Keys are matched against the model name, longest key first, so
+ * "gpt-5-mini" wins over "gpt-5".
+ */
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+	'gpt-4o-mini': { input: 0.15, output: 0.6 },
+	'gpt-4o': { input: 2.5, output: 10 },
+	'gpt-4-turbo': { input: 10, output: 30 },
+	'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+	'gpt-5-nano': { input: 0.05, output: 0.4 },
+	'gpt-5-mini': { input: 0.25, output: 2.0 },
+	'gpt-5': { input: 1.25, output: 10.0 },
+	'claude-3-haiku': { input: 0.25, output: 1.25 },
+	'claude-3-sonnet': { input: 3.0, output: 15.0 },
+	'claude-3-opus': { input: 15.0, output: 75.0 },
+};
+
+/**
+ * Conservative pricing for unknown models.
+ * About $0.001 for a 2000-in / 100-out call.
+ */
+const FALLBACK_PRICING: ModelPricing = { input: 0.4, output: 2.0 };
+
+/**
+ * Completion tokens assumed for the next call when checking a budget.
+ */
+const BUDGET_OUTPUT_TOKEN_ESTIMATE = 500;
+
+/**
+ * Token usage as reported in an OpenAI-compatible response.
+ */
+export interface ApiUsage {
+	prompt_tokens?: number;
+	completion_tokens?: number;
+	total_tokens?: number;
+}
+
+/**
+ * Usage and cost of a single LLM call.
+ */
+export interface LlmCallUsage {
+	/** What the call was for (e.g. "agent", "operation_detection") */
+	purpose: string;
+	/** Model name */
+	model: string;
+	/** Prompt tokens */
+	tokensIn: number;
+	/** Completion tokens */
+	tokensOut: number;
+	/** Whether token counts were estimated from text length */
+	estimated: boolean;
+	/** Cost in USD */
+	cost: number;
+}
+
+/**
+ * Usage summary reported in output meta.
+ */
+export interface UsageSummary {
+	tokensIn: number;
+	tokensOut: number;
+	totalCost: string;
+	calls: Array<{
+		purpose: string;
+		model: string;
+		tokensIn: number;
+		tokensOut: number;
+		estimated: boolean;
+		cost: string;
+	}>;
+}
+
+/**
+ * LLM budget caps. Zero or unset means unlimited.
+ */
+export interface BudgetLimits {
+	/** Max USD spent on one input item */
+	maxCostPerItem?: number;
+	/** Max USD spent across all items of one node execution */
+	maxCostPerExecution?: number;
+	/** Max prompt + completion tokens for one input item */
+	maxTokensPerItem?: number;
+	/** Max LLM calls for one input item */
+	maxCallsPerItem?: number;
+}
+
+/**
+ * Budget state: caps plus the calls already made for the item and execution.
+ */
+export interface LlmBudget {
+	limits: BudgetLimits;
+	/** Calls made so far for the current item */
+	itemUsage: LlmCallUsage[];
+	/** Calls made so far in the whole execution (shared across items) */
+	executionUsage: LlmCallUsage[];
+}
+
+/**
+ * Parse model price overrides from the credential.
+ *
+ * Expects a JSON object keyed by (partial) model name, with input/output
+ * prices per 1M tokens, e.g. {"gpt-4o-mini": {"input": 0.15, "output": 0.6}}.
+ * Empty input means no overrides.
+ *
+ * @param {unknown} input - Overrides as JSON string or object
+ * @returns {Record<string, ModelPricing> | undefined} Parsed overrides
+ * @throws {Error} If the input is not valid JSON or has invalid prices
+ */
+export function parseModelPricing(input: unknown): Record<string, ModelPricing> | undefined {
+	if (input === undefined || input === null) return undefined;
+
+	let parsed: unknown = input;
+	if (typeof input === 'string') {
+		if (!input.trim()) return undefined;
+		try {
+			parsed = JSON.parse(input);
+		} catch (error) {
+			throw new Error(`Model Pricing is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new Error('Model Pricing must be a JSON object keyed by model name');
+	}
+
+	const pricing: Record<string, ModelPricing> = {};
+	for (const [model, prices] of Object.entries(parsed as Record<string, unknown>)) {
+		const { input: inputPrice, output: outputPrice } = (prices || {}) as Partial<ModelPricing>;
+		if (typeof inputPrice !== 'number' || typeof outputPrice !== 'number' || inputPrice < 0 || outputPrice < 0) {
+			throw new Error(`Model Pricing for "${model}" must have non-negative numeric "input" and "output" prices`);
+		}
+		pricing[model] = { input: inputPrice, output: outputPrice };
+	}
+
+	return Object.keys(pricing).length > 0 ? pricing : undefined;
+}
+
+/**
+ * Find pricing for a model.
+ *
+ * Credential overrides are checked before the built-in table. Within each,
+ * the longest key contained in the model name wins.
+ *
+ * @param {string} model - Model name (e.g., "openai/gpt-5-mini", "gpt-5-mini")
+ * @param {Record<string, ModelPricing>} [overrides] - Prices from the credential
+ * @returns {ModelPricing} Price per 1M input/output tokens
+ */
+export function getModelPricing(model: string, overrides?: Record<string, ModelPricing>): ModelPricing {
+	const lowerModel = model.toLowerCase();
+
+	for (const table of [overrides || {}, DEFAULT_PRICING]) {
+		const match = Object.keys(table)
+			.filter((key) => lowerModel.includes(key.toLowerCase()))
+			.sort((a, b) => b.length - a.length)[0];
+		if (match) {
+			return table[match];
+		}
+	}
+
+	return FALLBACK_PRICING;
+}
+
+/**
+ * Calculate the cost of a call from its token counts.
+ *
+ * @param {string} model - Model name
+ * @param {number} inputTokens - Prompt tokens
+ * @param {number} outputTokens - Completion tokens
+ * @param {Record<string, ModelPricing>} [overrides] - Prices from the credential
+ * @returns {number} Cost in USD
+ */
+export function calculateCost(
+	model: string,
+	inputTokens: number,
+	outputTokens: number,
+	overrides?: Record<string, ModelPricing>,
+): number {
+	const prices = getModelPricing(model, overrides);
+	return (inputTokens / 1_000_000) * prices.input + (outputTokens / 1_000_000) * prices.output;
+}
+
 /**
  * Estimate cost per API call based on model name.
- * 
- * Uses approximate pricing for common models. For custom models,
- * falls back to a conservative estimate.
- * 
+ *
+ * Used when no real usage is available, e.g. for budgeting before a call.
+ *
  * @param {string} model - Model name (e.g., "openai/gpt-5-mini", "gpt-5-mini")
  * @param {number} inputTokens - Estimated input tokens (~2000 for page content)
  * @param {number} outputTokens - Estimated output tokens (~100 for extraction)
+ * @param {Record<string, ModelPricing>} [overrides] - Prices from the credential
  * @returns {number} Estimated cost in USD
  */
-export function estimateCostPerCall(model: string, inputTokens: number = 2000, outputTokens: number = 100): number {
-	const lowerModel = model.toLowerCase();
-	
-	// Pricing per 1M tokens (input/output)
-	// These are approximate - actual pricing may vary by provider
-	const pricing: Record<string, { input: number; output: number }> = {
-		'openai/gpt-5-mini': { input: 0.15, output: 0.6 },
-		'gpt-4o': { input: 2.5, output: 10 },
-		'gpt-4-turbo': { input: 10, output: 30 },
-		'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
-		'gpt-5-mini': { input: 0.1, output: 0.4 }, // Estimated
-		'gpt-5': { input: 2.0, output: 8.0 }, // Estimated
-		'claude-3-haiku': { input: 0.25, output: 1.25 },
-		'claude-3-sonnet': { input: 3.0, output: 15.0 },
-		'claude-3-opus': { input: 15.0, output: 75.0 },
+export function estimateCostPerCall(
+	model: string,
+	inputTokens: number = 2000,
+	outputTokens: number = 100,
+	overrides?: Record<string, ModelPricing>,
+): number {
+	return calculateCost(model, inputTokens, outputTokens, overrides);
+}
+
+/**
+ * Estimate token count from text length.
+ *
+ * @param {string} text - Prompt or completion text
+ * @returns {number} Approximate token count
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Record the usage of one LLM call.
+ *
+ * Uses the response's usage field when present, otherwise estimates
+ * tokens from the prompt and completion text.
+ *
+ * @param {LlmCallUsage[]} calls - Call log to append to
+ * @param {string} purpose - What the call was for
+ * @param {string} model - Model name
+ * @param {ApiUsage | undefined} usage - Usage field from the response
+ * @param {string} promptText - Full prompt text sent (all messages)
+ * @param {string} completionText - Completion text received
+ * @param {Record<string, ModelPricing>} [overrides] - Prices from the credential
+ * @returns {LlmCallUsage} The recorded call
+ */
+export function recordLlmCall(
+	calls: LlmCallUsage[],
+	purpose: string,
+	model: string,
+	usage: ApiUsage | undefined,
+	promptText: string,
+	completionText: string,
+	overrides?: Record<string, ModelPricing>,
+): LlmCallUsage {
+	const hasUsage = typeof usage?.prompt_tokens === 'number';
+	const tokensIn = hasUsage ? (usage?.prompt_tokens as number) : estimateTokens(promptText);
+	const tokensOut =
+		hasUsage && typeof usage?.completion_tokens === 'number'
+			? usage.completion_tokens
+			: estimateTokens(completionText);
+
+	const call: LlmCallUsage = {
+		purpose,
+		model,
+		tokensIn,
+		tokensOut,
+		estimated: !hasUsage,
+		cost: calculateCost(model, tokensIn, tokensOut, overrides),
 	};
+	calls.push(call);
+
+	return call;
+}
+
+/**
+ * Sum the cost of recorded calls.
+ *
+ * @param {LlmCallUsage[]} calls - Recorded calls
+ * @returns {number} Total cost in USD
+ */
+export function getTotalCost(calls: LlmCallUsage[]): number {
+	return calls.reduce((total, call) => total + call.cost, 0);
+}
+
+/**
+ * Check whether the next LLM call would exceed the budget.
+ *
+ * Counts calls already recorded in the budget plus pending calls not yet
+ * recorded there, and estimates the next call from its prompt length.
+ *
+ * @param {LlmBudget} budget - Budget caps and recorded usage
+ * @param {LlmCallUsage[]} pendingCalls - Calls made since the budget was last updated
+ * @param {string} model - Model for the next call
+ * @param {string} promptText - Prompt text of the next call
+ * @param {Record<string, ModelPricing>} [overrides] - Prices from the credential
+ * @returns {string | undefined} Which cap would be exceeded, or undefined if within budget
+ */
+export function checkBudget(
+	budget: LlmBudget,
+	pendingCalls: LlmCallUsage[],
+	model: string,
+	promptText: string,
+	overrides?: Record<string, ModelPricing>,
+): string | undefined {
+	const { limits } = budget;
+	const itemCalls = [...budget.itemUsage, ...pendingCalls];
+	const nextTokensIn = estimateTokens(promptText);
+	const nextCost = calculateCost(model, nextTokensIn, BUDGET_OUTPUT_TOKEN_ESTIMATE, overrides);
+
+	if (limits.maxCallsPerItem && itemCalls.length + 1 > limits.maxCallsPerItem) {
+		return `Max LLM calls per item (${limits.maxCallsPerItem}) reached`;
+	}
+
+	if (limits.maxTokensPerItem) {
+		const itemTokens = itemCalls.reduce((total, call) => total + call.tokensIn + call.tokensOut, 0);
+		if (itemTokens + nextTokensIn + BUDGET_OUTPUT_TOKEN_ESTIMATE > limits.maxTokensPerItem) {
+			return `Max tokens per item (${limits.maxTokensPerItem}) reached after ${itemTokens} tokens`;
+		}
+	}
+
+	if (limits.maxCostPerItem) {
+		const itemCost = getTotalCost(itemCalls);
+		if (itemCost + nextCost > limits.maxCostPerItem) {
+			return `Max cost per item (${formatCost(limits.maxCostPerItem)}) reached after ${formatCost(itemCost)}`;
+		}
+	}
 
-	// Try to match model name
-	for (const [key, prices] of Object.entries(pricing)) {
-		if (lowerModel.includes(key)) {
-			const inputCost = (inputTokens / 1_000_000) * prices.input;
-			const outputCost = (outputTokens / 1_000_000) * prices.output;
-			return inputCost + outputCost;
+	if (limits.maxCostPerExecution) {
+		const executionCost = getTotalCost(budget.executionUsage) + getTotalCost(pendingCalls);
+		if (executionCost + nextCost > limits.maxCostPerExecution) {
+			return `Max cost per execution (${formatCost(limits.maxCostPerExecution)}) reached after ${formatCost(executionCost)}`;
 		}
 	}
 
-	// Default conservative estimate for unknown models
-	// Assume $0.001 per call (similar to openai/gpt-5-mini)
-	return 0.001;
+	return undefined;
 }
 
 /**
- * Estimate cost for operation detection call.
- * 
- * Operation detection uses a small prompt, so it's cheaper.
- * 
- * @param {string} model - Model name
- * @returns {number} Estimated cost in USD
+ * Add finished calls to a budget's item and execution usage.
+ *
+ * @param {LlmBudget} budget - Budget to update
+ * @param {LlmCallUsage[]} calls - Calls to add
  */
-export function estimateOperationDetectionCost(model: string): number {
-	// Operation detection uses ~100 tokens total
-	return estimateCostPerCall(model, 100, 20);
+export function addBudgetUsage(budget: LlmBudget, calls: LlmCallUsage[]): void {
+	budget.itemUsage.push(...calls);
+	budget.executionUsage.push(...calls);
+}
+
+/**
+ * Summarize recorded calls for output meta.
+ *
+ * @param {LlmCallUsage[]} calls - Recorded calls
+ * @returns {UsageSummary} Token totals, total cost and per-call costs
+ */
+export function summarizeUsage(calls: LlmCallUsage[]): UsageSummary {
+	return {
+		tokensIn: calls.reduce((total, call) => total + call.tokensIn, 0),
+		tokensOut: calls.reduce((total, call) => total + call.tokensOut, 0),
+		totalCost: formatCost(getTotalCost(calls)),
+		calls: calls.map((call) => ({
+			purpose: call.purpose,
+			model: call.model,
+			tokensIn: call.tokensIn,
+			tokensOut: call.tokensOut,
+			estimated: call.estimated,
+			cost: formatCost(call.cost),
+		})),
+	};
 }
 
 /**
  * Format cost as currency string.
- * 
+ *
  * @param {number} cost - Cost in USD
  * @returns {string} Formatted cost (e.g., "$0.012")
  */
@@ -72,4 +378,3 @@ export function formatCost(cost: number): string {
 	}
 	return `$${cost.toFixed(3)}`;
 }
-
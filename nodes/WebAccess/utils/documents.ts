@@ -0,0 +1,842 @@
+/**
+ * Document parsing for Web Access node
+ * Turns PDF, JSON, XML/RSS, CSV and plain text responses into readable
+ * text plus their structured form, so they can be used like HTML pages
+ */
+
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for XML parsing in self-hosted deployments
+import * as cheerio from 'cheerio';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required to decompress PDF content streams
+import { constants as zlibConstants, inflateSync } from 'zlib';
+import type { ContentKind, DocumentContent, FeedItem } from './types';
+import { extractTextContent } from './extraction';
+import { MAX_DOCUMENT_SIZE } from './config';
+
+// MIME types of each content kind; "+json" and "+xml" suffixes are matched separately
+const MIME_TYPES: Record<Exclude<ContentKind, 'text'>, string[]> = {
+	html: ['text/html', 'application/xhtml+xml'],
+	pdf: ['application/pdf', 'application/x-pdf'],
+	json: ['application/json', 'text/json', 'application/x-ndjson'],
+	xml: ['application/xml', 'text/xml', 'application/rss+xml', 'application/atom+xml', 'application/rdf+xml'],
+	csv: ['text/csv', 'application/csv', 'text/tab-separated-values'],
+};
+
+// File extensions used when the server sends no specific content type
+const EXTENSIONS: Record<string, ContentKind> = {
+	html: 'html',
+	htm: 'html',
+	pdf: 'pdf',
+	json: 'json',
+	xml: 'xml',
+	rss: 'xml',
+	atom: 'xml',
+	csv: 'csv',
+	tsv: 'csv',
+	txt: 'text',
+	md: 'text',
+};
+
+// Streams that never hold page text: images, fonts, cross-reference tables and metadata
+const NON_TEXT_STREAM = /\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType|XML)\b|\/Type\s*\/(XRef|Metadata|EmbeddedFile)\b|\/Length[123]\b/;
+
+/**
+ * Determine the kind of content from a response's content type.
+ *
+ * Falls back to the URL's file extension when the content type is missing
+ * or generic (application/octet-stream, binary/octet-stream).
+ *
+ * @param {string} contentType - Content-Type header
+ * @param {string} url - URL of the response
+ * @returns {ContentKind | undefined} Content kind, or undefined for unsupported content (images, archives...)
+ */
+export function getContentKind(contentType: string, url: string): ContentKind | undefined {
+	const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+	if (mimeType && !mimeType.endsWith('/octet-stream')) {
+		for (const [kind, mimeTypes] of Object.entries(MIME_TYPES)) {
+			if (mimeTypes.includes(mimeType)) return kind as ContentKind;
+		}
+		if (mimeType.endsWith('+json')) return 'json';
+		if (mimeType.endsWith('+xml')) return 'xml';
+		if (mimeType.startsWith('text/')) return 'text';
+		return undefined;
+	}
+
+	try {
+		const extension = new URL(url).pathname.split('.').pop()?.toLowerCase() || '';
+		return EXTENSIONS[extension];
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Parse a non-HTML response body.
+ *
+ * JSON is pretty-printed (invalid JSON is kept as text), feeds are split
+ * into items, CSV is split into rows and PDFs have their text extracted
+ * from the page content streams.
+ *
+ * @param {Exclude<ContentKind, 'html'>} kind - Kind of content, from getContentKind
+ * @param {Uint8Array} body - Response body
+ * @param {string} [contentType] - Content-Type header, for the text charset
+ * @returns {DocumentContent} Parsed document
+ * @throws {Error} If a PDF is encrypted, malformed or has no extractable text
+ */
+export function parseDocument(
+	kind: Exclude<ContentKind, 'html'>,
+	body: Uint8Array,
+	contentType: string = '',
+): DocumentContent {
+	if (kind === 'pdf') {
+		return { kind, ...extractPdfText(Buffer.from(body)) };
+	}
+
+	const text = decodeText(body, contentType);
+
+	switch (kind) {
+		case 'json': {
+			try {
+				const json: unknown = JSON.parse(text);
+				return { kind, text: JSON.stringify(json, null, 2), json };
+			} catch {
+				// Mislabeled or newline-delimited JSON
+				return { kind: 'text', text: text.trim() };
+			}
+		}
+
+		case 'xml':
+			return parseXml(text);
+
+		case 'csv':
+			return { kind, text: text.trim(), rows: parseCsv(text) };
+
+		default:
+			return { kind: 'text', text: text.trim() };
+	}
+}
+
+/**
+ * Decode a text body using the charset of its content type (UTF-8 by default).
+ */
+function decodeText(body: Uint8Array, contentType: string): string {
+	const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1] || 'utf-8';
+	try {
+		return new TextDecoder(charset).decode(body);
+	} catch {
+		// Unknown charset label
+		return new TextDecoder('utf-8').decode(body);
+	}
+}
+
+/**
+ * Parse XML, extracting items from RSS, RDF and Atom feeds.
+ */
+function parseXml(xml: string): DocumentContent {
+	const $ = cheerio.load(xml, { xml: true });
+	const childText = (parent: ReturnType<typeof $>, names: string[]): string | undefined => {
+		const child = parent.children().filter((_, element) => names.includes(element.tagName.toLowerCase())).first();
+		const value = child.text().trim();
+		return value || undefined;
+	};
+
+	const items: FeedItem[] = [];
+	$('item, entry').each((_, element) => {
+		const entry = $(element);
+		// Atom links are attributes; prefer the alternate (page) link
+		const links = entry.children('link');
+		const atomLink = links.filter((_, link) => !link.attribs.rel || link.attribs.rel === 'alternate').first();
+		const link = atomLink.attr('href') || links.first().attr('href') || links.first().text().trim() || undefined;
+		const description = childText(entry, ['description', 'summary', 'content', 'content:encoded']);
+
+		items.push({
+			title: childText(entry, ['title']),
+			link,
+			description: description ? extractTextContent(description) : undefined,
+			published: childText(entry, ['pubdate', 'published', 'updated', 'dc:date']),
+		});
+	});
+
+	if (items.length === 0) {
+		return { kind: 'xml', text: $.root().text().replace(/\s+/g, ' ').trim() };
+	}
+
+	const feed = $('channel, feed').first();
+	const title = childText(feed, ['title']);
+	const text = items
+		.map((item) => [item.title, item.published, item.link, item.description].filter(Boolean).join('\n'))
+		.join('\n\n');
+
+	return { kind: 'xml', text: title ? `${title}\n\n${text}` : text, title, items };
+}
+
+/**
+ * Parse CSV into rows (RFC 4180 quoting). The delimiter is detected from
+ * the first line: comma, semicolon or tab. Blank lines are skipped.
+ */
+function parseCsv(text: string): string[][] {
+	const firstLine = text.slice(0, text.search(/\r?\n|$/));
+	const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+		firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+	);
+
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char !== '"') {
+				field += char;
+			} else if (text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else {
+				quoted = false;
+			}
+		} else if (char === '"' && field === '') {
+			quoted = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+	if (field || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * Extract the text, page count and title of a PDF.
+ *
+ * Reads the text-showing operators of the page content streams
+ * (uncompressed or FlateDecode) and maps character codes through each
+ * font's ToUnicode CMap. Composite (Type0) fonts without a ToUnicode map
+ * and scanned pages fail with an error rather than returning glyph IDs.
+ */
+function extractPdfText(buffer: Buffer): { text: string; pages: number; title?: string } {
+	const raw = buffer.toString('latin1');
+	if (!raw.slice(0, 1024).includes('%PDF-')) {
+		throw new Error('Not a PDF file');
+	}
+	if (/\/Encrypt\s*\d+\s+\d+\s+R/.test(raw)) {
+		throw new Error('Encrypted PDFs are not supported');
+	}
+
+	// Decoded streams by object number, and the page content streams in file order
+	const streams = new Map<number, string>();
+	const contentStreams: Array<{ number?: number; content: string }> = [];
+	const objectStreams: Array<{ dictionary: string; content: string }> = [];
+	// Object streams (PDF 1.5+) hold page and info dictionaries
+	let objects = raw;
+	// Decompressed bytes left; a small PDF can inflate to gigabytes
+	let remaining = MAX_DOCUMENT_SIZE;
+
+	const streamPattern = /stream\r?\n/g;
+	let match: RegExpExecArray | null;
+	while ((match = streamPattern.exec(raw)) !== null) {
+		if (raw.slice(match.index - 3, match.index) === 'end') continue;
+
+		const start = match.index + match[0].length;
+		const end = raw.indexOf('endstream', start);
+		if (end < 0) break;
+		streamPattern.lastIndex = end;
+
+		const objectStart = raw.lastIndexOf(' obj', match.index);
+		const dictionary = raw.slice(Math.max(objectStart, match.index - 2000), match.index);
+		if (NON_TEXT_STREAM.test(dictionary)) continue;
+
+		if (remaining <= 0) break;
+		const content = decodePdfStream(buffer.subarray(start, end), dictionary, remaining);
+		if (!content) continue;
+		remaining -= content.length;
+
+		const number = objectStart < 0 ? undefined : /(\d+)\s+\d+$/.exec(raw.slice(Math.max(0, objectStart - 24), objectStart))?.[1];
+		if (number !== undefined) streams.set(Number(number), content);
+
+		if (/\/Type\s*\/ObjStm\b/.test(dictionary)) {
+			objects += content;
+			objectStreams.push({ dictionary, content });
+		} else if (/\bBT\b/.test(content)) {
+			contentStreams.push({ number: number === undefined ? undefined : Number(number), content });
+		}
+	}
+
+	const fonts = new PdfFontResolver(indexPdfObjects(raw, objectStreams), streams);
+	const textParts = contentStreams.map(({ number, content }) =>
+		extractTextOperators(content, fonts.getFonts(number)),
+	);
+
+	const text = textParts
+		.join('\n')
+		.split('\n')
+		.map((line) => line.replace(/\s+/g, ' ').trim())
+		.filter(Boolean)
+		.join('\n');
+	if (!text) {
+		throw new Error('PDF has no extractable text (scanned pages or custom font encodings)');
+	}
+
+	const pages = (objects.match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length;
+	const titleMatch = /\/Title\s*([(<])/.exec(objects);
+	let title: string | undefined;
+	if (titleMatch) {
+		const [value] =
+			titleMatch[1] === '('
+				? readLiteralString(objects, titleMatch.index + titleMatch[0].length - 1)
+				: readHexString(objects, titleMatch.index + titleMatch[0].length - 1);
+		title = decodePdfString(value).trim() || undefined;
+	}
+
+	return { text, pages, title };
+}
+
+/**
+ * Index the dictionaries of a PDF's objects by object number, from the
+ * file body and from object streams. Stream data is left out.
+ */
+function indexPdfObjects(
+	raw: string,
+	objectStreams: Array<{ dictionary: string; content: string }>,
+): Map<number, string> {
+	const objects = new Map<number, string>();
+
+	const objectPattern = /(\d+)\s+\d+\s+obj\b/g;
+	let match: RegExpExecArray | null;
+	while ((match = objectPattern.exec(raw)) !== null) {
+		const start = match.index + match[0].length;
+		const end = raw.indexOf('endobj', start);
+		if (end < 0) break;
+		const body = raw.slice(start, end);
+		const streamStart = body.search(/\bstream\r?\n/);
+		objects.set(Number(match[1]), streamStart < 0 ? body : body.slice(0, streamStart));
+		objectPattern.lastIndex = end;
+	}
+
+	// An object stream starts with "number offset" pairs; offsets count from /First
+	for (const { dictionary, content } of objectStreams) {
+		const first = Number(/\/First\s+(\d+)/.exec(dictionary)?.[1]);
+		if (!Number.isFinite(first)) continue;
+		const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+		for (let i = 0; i + 1 < header.length; i += 2) {
+			const next = i + 3 < header.length ? header[i + 3] : content.length - first;
+			objects.set(header[i], content.slice(first + header[i + 1], first + next));
+		}
+	}
+
+	return objects;
+}
+
+/**
+ * Character code to Unicode mapping of a font, read from its ToUnicode CMap
+ */
+interface ToUnicodeMap {
+	/** Code space ranges as [low, high] byte strings */
+	codeSpace: Array<[string, string]>;
+	/** Unicode text by character code bytes */
+	codes: Map<string, string>;
+}
+
+/**
+ * How to turn the bytes shown with a font into text
+ */
+interface PdfFont {
+	/** Composite (Type0) fonts use multi-byte codes, usually glyph IDs */
+	composite: boolean;
+	toUnicode?: ToUnicodeMap;
+}
+
+/**
+ * Resolves the fonts available to each content stream from the page
+ * resources that reference it. Content streams no page references (or
+ * that sit in unparsed object streams) get the fonts of all pages.
+ */
+class PdfFontResolver {
+	private readonly fonts = new Map<number, PdfFont>();
+	private readonly streamFonts = new Map<number, Map<string, PdfFont>>();
+	private readonly allFonts = new Map<string, PdfFont>();
+
+	constructor(
+		private readonly objects: Map<number, string>,
+		private readonly streams: Map<number, string>,
+	) {
+		for (const body of objects.values()) {
+			if (!/\/Type\s*\/Page(?![a-zA-Z])/.test(body)) continue;
+
+			const pageFonts = this.getPageFonts(body);
+			for (const [name, font] of pageFonts) {
+				if (!this.allFonts.has(name)) this.allFonts.set(name, font);
+			}
+
+			let contents = getDictionaryValue(body, 'Contents');
+			const resolved = contents && this.resolve(contents);
+			if (resolved?.trim().startsWith('[')) contents = resolved;
+			for (const reference of (contents || '').matchAll(/(\d+)\s+\d+\s+R/g)) {
+				this.streamFonts.set(Number(reference[1]), pageFonts);
+			}
+		}
+	}
+
+	/**
+	 * Fonts by resource name for a content stream
+	 */
+	getFonts(stream: number | undefined): Map<string, PdfFont> {
+		return (stream !== undefined && this.streamFonts.get(stream)) || this.allFonts;
+	}
+
+	private getPageFonts(page: string): Map<string, PdfFont> {
+		const pageFonts = new Map<string, PdfFont>();
+
+		// Resources are inherited from the page tree
+		let node: string | undefined = page;
+		let resources: string | undefined;
+		for (let depth = 0; node && depth < 32 && !resources; depth++) {
+			const value = getDictionaryValue(node, 'Resources');
+			resources = value && this.resolve(value);
+			const parent = getDictionaryValue(node, 'Parent');
+			node = parent && this.resolve(parent);
+		}
+
+		const fontValue = resources && getDictionaryValue(resources, 'Font');
+		const fontDictionary = fontValue && this.resolve(fontValue);
+		for (const entry of (fontDictionary || '').matchAll(/\/([^\s/<>[\]()%]+)\s*(\d+)\s+\d+\s+R/g)) {
+			const font = this.getFont(Number(entry[2]));
+			if (font) pageFonts.set(entry[1], font);
+		}
+
+		return pageFonts;
+	}
+
+	private getFont(number: number): PdfFont | undefined {
+		const cached = this.fonts.get(number);
+		if (cached) return cached;
+
+		const body = this.objects.get(number);
+		if (!body) return undefined;
+
+		const toUnicodeReference = /\/ToUnicode\s+(\d+)\s+\d+\s+R/.exec(body);
+		const cmap = toUnicodeReference && this.streams.get(Number(toUnicodeReference[1]));
+		const font: PdfFont = {
+			composite: /\/Subtype\s*\/Type0\b/.test(body),
+			toUnicode: cmap ? parseToUnicode(cmap) : undefined,
+		};
+		this.fonts.set(number, font);
+		return font;
+	}
+
+	/**
+	 * Follow an indirect reference ("12 0 R") to the referenced object
+	 */
+	private resolve(value: string): string | undefined {
+		const reference = /^\s*(\d+)\s+\d+\s+R/.exec(value);
+		return reference ? this.objects.get(Number(reference[1])) : value;
+	}
+}
+
+/**
+ * Read the value of a dictionary key: a nested dictionary, an array, an
+ * indirect reference or a single token.
+ */
+function getDictionaryValue(dictionary: string, key: string): string | undefined {
+	const match = new RegExp(`/${key}(?![A-Za-z0-9])\\s*`).exec(dictionary);
+	if (!match) return undefined;
+
+	const start = match.index + match[0].length;
+	const rest = dictionary.slice(start);
+	if (rest.startsWith('<<') || rest.startsWith('[')) {
+		const [open, close] = rest.startsWith('<<') ? ['<<', '>>'] : ['[', ']'];
+		let depth = 0;
+		for (let i = 0; i < rest.length; i++) {
+			if (rest.startsWith(open, i)) {
+				depth++;
+				i += open.length - 1;
+			} else if (rest.startsWith(close, i)) {
+				depth--;
+				if (depth === 0) return rest.slice(0, i + close.length);
+				i += close.length - 1;
+			}
+		}
+		return rest;
+	}
+
+	return /^(\d+\s+\d+\s+R|[^\s/<>[\]]+|\/[^\s/<>[\]()%]*)/.exec(rest)?.[0];
+}
+
+/**
+ * Parse a ToUnicode CMap: its code space ranges and its bfchar and bfrange
+ * mappings from character codes to UTF-16BE text.
+ */
+function parseToUnicode(cmap: string): ToUnicodeMap {
+	const codeSpace: Array<[string, string]> = [];
+	const codes = new Map<string, string>();
+	const hex = (value: string) => readHexString(value, 0)[0];
+
+	for (const block of cmap.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+		for (const range of block[1].matchAll(/(<[^>]*>)\s*(<[^>]*>)/g)) {
+			codeSpace.push([hex(range[1]), hex(range[2])]);
+		}
+	}
+
+	for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+		for (const entry of block[1].matchAll(/(<[^>]*>)\s*(<[^>]*>)/g)) {
+			codes.set(hex(entry[1]), decodeUtf16(hex(entry[2])));
+		}
+	}
+
+	for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+		for (const entry of block[1].matchAll(/(<[^>]*>)\s*(<[^>]*>)\s*(<[^>]*>|\[[^\]]*\])/g)) {
+			const low = hex(entry[1]);
+			const first = bytesToNumber(low);
+			const last = bytesToNumber(hex(entry[2]));
+			// Ranges never cross the last byte, so at most 256 codes each
+			if (last < first || last - first > 0xff) continue;
+
+			const targets = entry[3].startsWith('[') ? [...entry[3].matchAll(/<[^>]*>/g)].map(([value]) => hex(value)) : undefined;
+			const start = targets ? undefined : hex(entry[3]);
+			for (let code = first; code <= last; code++) {
+				const key = numberToBytes(code, low.length);
+				if (targets) {
+					const target = targets[code - first];
+					if (target !== undefined) codes.set(key, decodeUtf16(target));
+				} else if (start) {
+					// Each code maps to the start text with its last byte incremented
+					const target = start.slice(0, -1) + String.fromCharCode(start.charCodeAt(start.length - 1) + code - first);
+					codes.set(key, decodeUtf16(target));
+				}
+			}
+		}
+	}
+
+	return { codeSpace, codes };
+}
+
+function bytesToNumber(bytes: string): number {
+	let value = 0;
+	for (const char of bytes) value = value * 256 + char.charCodeAt(0);
+	return value;
+}
+
+function numberToBytes(value: number, length: number): string {
+	let bytes = '';
+	for (let i = length - 1; i >= 0; i--) {
+		bytes += String.fromCharCode(Math.floor(value / 256 ** i) % 256);
+	}
+	return bytes;
+}
+
+function decodeUtf16(bytes: string): string {
+	let text = '';
+	for (let i = 0; i + 1 < bytes.length; i += 2) {
+		text += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+	}
+	return text;
+}
+
+/**
+ * Convert the bytes shown with a font to text.
+ *
+ * @throws {Error} If the font is composite and has no ToUnicode map
+ */
+function decodeFontString(bytes: string, font: PdfFont | undefined): string {
+	if (!font?.toUnicode) {
+		if (font?.composite) {
+			throw new Error('PDF uses composite (Type0/Identity-H) fonts without a ToUnicode map, so its text cannot be extracted');
+		}
+		return decodePdfString(bytes);
+	}
+
+	const { codeSpace, codes } = font.toUnicode;
+	let text = '';
+	let i = 0;
+	while (i < bytes.length) {
+		// The shortest code space range that contains the next bytes sets the code length
+		let length = 0;
+		for (let size = 1; size <= 4 && !length; size++) {
+			const code = bytes.slice(i, i + size);
+			if (code.length < size) break;
+			const inRange = codeSpace.some(
+				([low, high]) =>
+					low.length === size && [...code].every((char, index) => char >= low[index] && char <= high[index]),
+			);
+			if (inRange) length = size;
+		}
+		if (!length) length = font.composite ? 2 : 1;
+
+		const code = bytes.slice(i, i + length);
+		const mapped = codes.get(code);
+		if (mapped !== undefined) {
+			text += mapped;
+		} else if (!font.composite) {
+			text += decodePdfString(code);
+		}
+		i += length;
+	}
+
+	// Drop control characters left by unmapped glyphs
+	// eslint-disable-next-line no-control-regex
+	return text.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+/**
+ * Decode a PDF stream. Only FlateDecode and unfiltered streams are supported.
+ * Streams that decompress to more than maxLength bytes are skipped.
+ */
+function decodePdfStream(data: Buffer, dictionary: string, maxLength: number): string | undefined {
+	if (!/\/Filter/.test(dictionary)) {
+		return data.toString('latin1');
+	}
+	if (!/\/Filter\s*\[?\s*\/FlateDecode\s*\]?/.test(dictionary)) {
+		return undefined;
+	}
+	try {
+		return inflateSync(data, { maxOutputLength: maxLength }).toString('latin1');
+	} catch (error) {
+		if (error instanceof RangeError) {
+			return undefined;
+		}
+		// Truncated or padded streams still decode up to the damage
+		try {
+			return inflateSync(data, { finishFlush: zlibConstants.Z_SYNC_FLUSH, maxOutputLength: maxLength }).toString(
+				'latin1',
+			);
+		} catch {
+			return undefined;
+		}
+	}
+}
+
+/**
+ * Collect the text shown by a content stream's text operators
+ * (Tj, TJ, ' and "), breaking lines on line moves and text blocks.
+ * Strings are decoded with the font selected by the last Tf operator.
+ */
+function extractTextOperators(content: string, fonts: Map<string, PdfFont>): string {
+	let text = '';
+	let operands: Array<string | number | Array<string | number>> = [];
+	let lastName: string | undefined;
+	let font: PdfFont | undefined;
+	let lastY: number | undefined;
+	let i = 0;
+
+	const newline = () => {
+		if (text && !text.endsWith('\n')) text += '\n';
+	};
+	const show = (value: string | number | Array<string | number> | undefined) => {
+		if (typeof value === 'string') {
+			text += decodeFontString(value, font);
+		} else if (Array.isArray(value)) {
+			for (const part of value) {
+				// Large negative adjustments (thousandths of an em) separate words
+				if (typeof part === 'number') {
+					if (part < -200 && !text.endsWith(' ')) text += ' ';
+				} else {
+					text += decodeFontString(part, font);
+				}
+			}
+		}
+	};
+
+	while (i < content.length) {
+		const char = content[i];
+
+		if (/\s/.test(char)) {
+			i++;
+		} else if (char === '%') {
+			const lineEnd = content.slice(i).search(/[\r\n]/);
+			i = lineEnd < 0 ? content.length : i + lineEnd;
+		} else if (char === '(') {
+			const [value, next] = readLiteralString(content, i);
+			operands.push(value);
+			i = next;
+		} else if (char === '<' && content[i + 1] === '<') {
+			i += 2;
+		} else if (char === '>' && content[i + 1] === '>') {
+			i += 2;
+		} else if (char === '<') {
+			const [value, next] = readHexString(content, i);
+			operands.push(value);
+			i = next;
+		} else if (char === '[') {
+			const array: Array<string | number> = [];
+			i++;
+			while (i < content.length && content[i] !== ']') {
+				if (content[i] === '(') {
+					const [value, next] = readLiteralString(content, i);
+					array.push(value);
+					i = next;
+				} else if (content[i] === '<') {
+					const [value, next] = readHexString(content, i);
+					array.push(value);
+					i = next;
+				} else {
+					const number = /^[-+]?(\d+\.?\d*|\.\d+)/.exec(content.slice(i, i + 32));
+					if (number) {
+						array.push(parseFloat(number[0]));
+						i += number[0].length;
+					} else {
+						i++;
+					}
+				}
+			}
+			operands.push(array);
+			i++;
+		} else if (char === '/') {
+			const name = /^\/[^\s/<>[\]()%]*/.exec(content.slice(i, i + 128));
+			lastName = name?.[0].slice(1);
+			i += name ? name[0].length : 1;
+		} else if (/[-+.\d]/.test(char)) {
+			const number = /^[-+]?(\d+\.?\d*|\.\d+)/.exec(content.slice(i, i + 32));
+			if (number) {
+				operands.push(parseFloat(number[0]));
+				i += number[0].length;
+			} else {
+				i++;
+			}
+		} else {
+			const operator = /^[A-Za-z'"*]+/.exec(content.slice(i, i + 16))?.[0] || char;
+			i += operator.length;
+
+			switch (operator) {
+				case 'Tf':
+					font = lastName === undefined ? undefined : fonts.get(lastName);
+					break;
+				case 'Tj':
+					show(operands[operands.length - 1]);
+					break;
+				case 'TJ':
+					show(operands[operands.length - 1]);
+					break;
+				case "'":
+				case '"':
+					newline();
+					show(operands[operands.length - 1]);
+					break;
+				case 'Td':
+				case 'TD': {
+					const ty = operands[operands.length - 1];
+					if (typeof ty === 'number' && ty !== 0) {
+						newline();
+					} else if (!text.endsWith(' ')) {
+						text += ' ';
+					}
+					break;
+				}
+				case 'Tm': {
+					const y = operands[operands.length - 1];
+					if (typeof y === 'number' && y !== lastY) {
+						newline();
+						lastY = y;
+					} else if (!text.endsWith(' ')) {
+						text += ' ';
+					}
+					break;
+				}
+				case 'T*':
+				case 'ET':
+					newline();
+					break;
+				case 'BI': {
+					// Skip inline image data
+					const imageEnd = content.indexOf('EI', i);
+					i = imageEnd < 0 ? content.length : imageEnd + 2;
+					break;
+				}
+			}
+			operands = [];
+			lastName = undefined;
+		}
+	}
+
+	return text;
+}
+
+/**
+ * Read a PDF literal string "(...)" starting at the opening parenthesis.
+ * Returns the raw bytes (as a latin1 string) and the index after it.
+ */
+function readLiteralString(source: string, start: number): [string, number] {
+	const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+	let value = '';
+	let depth = 0;
+	let i = start;
+
+	for (; i < source.length; i++) {
+		const char = source[i];
+		if (char === '\\') {
+			const next = source[i + 1];
+			const octal = /^[0-7]{1,3}/.exec(source.slice(i + 1, i + 4));
+			if (octal) {
+				value += String.fromCharCode(parseInt(octal[0], 8) & 0xff);
+				i += octal[0].length;
+			} else if (next === '\r' || next === '\n') {
+				// Line continuation
+				i += next === '\r' && source[i + 2] === '\n' ? 2 : 1;
+			} else {
+				value += escapes[next] ?? next ?? '';
+				i++;
+			}
+		} else if (char === '(') {
+			if (depth > 0) value += char;
+			depth++;
+		} else if (char === ')') {
+			depth--;
+			if (depth === 0) return [value, i + 1];
+			value += char;
+		} else {
+			value += char;
+		}
+	}
+
+	return [value, i];
+}
+
+/**
+ * Read a PDF hex string "<...>" starting at the opening bracket.
+ * Returns the raw bytes (as a latin1 string) and the index after it.
+ */
+function readHexString(source: string, start: number): [string, number] {
+	const end = source.indexOf('>', start);
+	const stop = end < 0 ? source.length : end;
+	let hex = source.slice(start + 1, stop).replace(/[^0-9a-fA-F]/g, '');
+	if (hex.length % 2) hex += '0';
+
+	let value = '';
+	for (let i = 0; i < hex.length; i += 2) {
+		value += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+	}
+	return [value, stop + 1];
+}
+
+/**
+ * Convert PDF string bytes to text: UTF-16BE when marked with a byte order
+ * mark or when every other byte is zero, otherwise Latin-1.
+ */
+function decodePdfString(bytes: string): string {
+	let text: string;
+	const utf16 =
+		bytes.startsWith('\u00fe\u00ff') ||
+		(bytes.length >= 2 && bytes.length % 2 === 0 && [...bytes].every((char, index) => index % 2 === 1 || char === '\u0000'));
+
+	if (utf16) {
+		text = decodeUtf16(bytes.startsWith('\u00fe\u00ff') ? bytes.slice(2) : bytes);
+	} else {
+		text = bytes;
+	}
+
+	// Drop control characters left by unmapped glyphs
+	// eslint-disable-next-line no-control-regex
+	return text.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
@@ -0,0 +1,341 @@
+/**
+ * Email extraction for Web Access node
+ * Finds email addresses in mailto: links, structured data, visible text,
+ * Cloudflare-protected and script-built markup, and classifies each one
+ */
+
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for HTML parsing in self-hosted deployments
+import * as cheerio from 'cheerio';
+import type { EmailAddress, EmailRole } from './types';
+
+// Cheerio document and its elements
+type Document = ReturnType<typeof cheerio.load>;
+type DomNode = ReturnType<ReturnType<Document>['contents']>[number];
+
+// Email-like strings in text or markup
+const EMAIL_REGEX = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+// "name [at] domain [dot] com" and its variations
+const OBFUSCATED_EMAIL_REGEX =
+	/([a-z0-9._%+-]+)\s*(\[at\]|\(at\)|\{at\}|\s+at\s+)\s*([a-z0-9-]+(?:\s*(?:\[dot\]|\(dot\)|\{dot\}|\.|\s+dot\s+)\s*[a-z0-9-]+)+)/gi;
+
+// Separators of an obfuscated domain
+const OBFUSCATED_DOT_REGEX = /\s*(?:\[dot\]|\(dot\)|\{dot\}|\s+dot\s+)\s*/gi;
+
+// Common junk email patterns to filter out
+const JUNK_EMAIL_PATTERNS = [
+	/^[a-f0-9]{32}@/i, // MD5-like hashes
+	/@example\.(com|org|net)$/i,
+	/@test\.com$/i,
+	/@localhost$/i,
+	/noreply@/i,
+	/no-reply@/i,
+	/@sentry\./i,
+	/@wixpress\.com$/i,
+	/\.png@/i,
+	/\.jpg@/i,
+	/\.gif@/i,
+];
+
+// File extensions that look like TLDs in asset names such as "logo@2x.png"
+const FILE_EXTENSION_TLDS = new Set(
+	(
+		'png jpg jpeg gif webp svg bmp ico tif tiff avif heic js mjs cjs ts css scss sass less map json xml ' +
+		'html htm php asp aspx jsp pdf doc docx xls xlsx ppt pptx csv txt woff woff2 ttf otf eot mp3 mp4 ' +
+		'webm wav avi gz tar rar exe dmg'
+	).split(' '),
+);
+
+// Mailbox roles by local part, checked in order
+const ROLE_PATTERNS: Array<[EmailRole, RegExp]> = [
+	['sales', /^(sales|vertrieb|ventes?|ventas|orders?|shop|store|quotes?|business|commercial|partners?|bookings?|reservations?)$/],
+	['support', /^(support|help|helpdesk|service|services|customerservice|customercare|care|kundenservice|servicedesk|feedback|assistance)$/],
+	['billing', /^(billing|invoices?|accounts?|accounting|finance|payments?|rechnungs?|rechnungen|buchhaltung|factures?)$/],
+	['careers', /^(jobs?|careers?|hr|recruiting|recruitment|talent|bewerbungs?|bewerbungen|karriere)$/],
+	['press', /^(press|presse|media|pr|news|communications?|marketing)$/],
+	['legal', /^(legal|privacy|dpo|gdpr|datenschutz|compliance|abuse)$/],
+	['technical', /^(webmaster|admin|administrator|postmaster|hostmaster|it|tech|security|dev|developers?)$/],
+	['info', /^(info|contact|kontakt|contacto|hello|hi|hey|mail|email|office|enquiries|inquiries|enquiry|inquiry|general|welcome|team|reception)$/],
+];
+
+// Words that join two addresses rather than label them
+const CONNECTOR_WORDS = /^(or|and|via|oder|und|ou|et|or to|and to)$/i;
+
+// Second-level labels under which registries sell domains (example.co.uk)
+const SECOND_LEVEL_LABELS = new Set(['ac', 'co', 'com', 'edu', 'gov', 'net', 'org']);
+
+/**
+ * Inputs for email extraction.
+ */
+export interface EmailExtractionInput {
+	/** Page HTML, searched for links, Cloudflare-protected addresses and scripts */
+	html?: string;
+	/** Visible text of the page */
+	text: string;
+	/** Email values from structured data */
+	structured?: string[];
+	/** Page URL, for the same-domain flag */
+	pageUrl?: string;
+}
+
+/**
+ * Find the email addresses of a page.
+ *
+ * mailto: links come first, then structured data, then addresses hidden
+ * by Cloudflare email protection (data-cfemail), HTML entities, "[at]"
+ * spelling or string concatenation in scripts, then addresses in the
+ * visible text, and last those found only elsewhere in the markup.
+ * Addresses must pass syntax and TLD checks (no DNS lookups) and the
+ * junk filters. The site's own addresses are listed before others.
+ *
+ * @param {EmailExtractionInput} input - Page HTML, text, structured data emails and URL
+ * @returns {EmailAddress[]} Unique addresses with source, label, domain flag and role
+ */
+export function extractEmailAddresses(input: EmailExtractionInput): EmailAddress[] {
+	const html = input.html || '';
+	const lowerHtml = html.toLowerCase();
+	const siteDomain = input.pageUrl ? getSiteDomain(input.pageUrl) : undefined;
+	const emails = new Map<string, EmailAddress>();
+
+	const add = (value: string, source: EmailAddress['source'], label?: string) => {
+		const address = normalizeEmail(value);
+		if (!address) return;
+		const existing = emails.get(address);
+		if (existing) {
+			if (!existing.label && label) existing.label = label;
+			return;
+		}
+		emails.set(address, {
+			address,
+			source,
+			label,
+			sameDomain: siteDomain !== undefined && getSiteDomain(`http://${address.split('@')[1]}`) === siteDomain,
+			role: classifyEmailRole(address),
+		});
+	};
+
+	const $ = html ? cheerio.load(html) : undefined;
+	if ($) {
+		$('a[href]').each((_, element) => {
+			const href = $(element).attr('href')?.trim() || '';
+			if (!/^mailto:/i.test(href)) return;
+			const label = getElementLabel($, element);
+			safeDecode(href.slice(7).split('?')[0])
+				.split(/[,;]/)
+				.forEach((address) => add(address, 'mailto', label));
+		});
+	}
+
+	for (const value of input.structured || []) {
+		add(value, 'structured_data');
+	}
+
+	if ($) {
+		// Cloudflare email protection replaces addresses with XOR-encoded hex
+		$('[data-cfemail]').each((_, element) => {
+			const decoded = decodeCfEmail($(element).attr('data-cfemail') || '');
+			if (decoded) add(decoded, 'obfuscated', getElementLabel($, element));
+		});
+		$('a[href*="/cdn-cgi/l/email-protection#"]').each((_, element) => {
+			const decoded = decodeCfEmail(($(element).attr('href') || '').split('#')[1] || '');
+			if (decoded) add(decoded, 'obfuscated', getElementLabel($, element));
+		});
+
+		// Scripts that assemble addresses at runtime
+		const scripts = [
+			...$('script:not([src])')
+				.filter((_, element) => !/json/i.test($(element).attr('type') || ''))
+				.toArray()
+				.map((element) => $(element).html() || ''),
+			...$('[onclick]')
+				.toArray()
+				.map((element) => $(element).attr('onclick') || ''),
+		];
+		for (const script of scripts) {
+			for (const address of decodeScriptEmails(script)) {
+				if (!lowerHtml.includes(address.toLowerCase())) add(address, 'obfuscated');
+			}
+		}
+	}
+
+	const text = input.text || '';
+	for (const match of text.matchAll(OBFUSCATED_EMAIL_REGEX)) {
+		// A plain " at " needs a spelled-out " dot " too, or "meet at 5.30" would match
+		if (/^\s+at\s+$/i.test(match[2]) && !/\sdot\s/i.test(match[3])) continue;
+		const address = `${match[1]}@${match[3].replace(OBFUSCATED_DOT_REGEX, '.')}`;
+		add(address, 'obfuscated', getTextLabel(text, match.index ?? 0));
+	}
+	for (const match of text.matchAll(EMAIL_REGEX)) {
+		// Addresses missing from the HTML were written as entities
+		const source = html && !lowerHtml.includes(match[0].toLowerCase()) ? 'obfuscated' : 'text';
+		add(match[0], source, getTextLabel(text, match.index ?? 0));
+	}
+
+	for (const match of html.matchAll(EMAIL_REGEX)) {
+		add(match[0], 'markup');
+	}
+
+	const found = [...emails.values()];
+	return [...found.filter((email) => email.sameDomain), ...found.filter((email) => !email.sameDomain)];
+}
+
+/**
+ * Check an address's syntax and TLD, without DNS lookups.
+ *
+ * The local part may use the characters RFC 5322 allows unquoted, with
+ * no leading, trailing or doubled dots. Domain labels are letters, digits
+ * and inner hyphens, and the TLD must be letters (or an internationalized
+ * xn-- TLD) that are not a file extension, which rules out file names
+ * such as "logo@2x.png".
+ *
+ * @param {string} address - Address to check
+ * @returns {boolean} Whether the address is valid
+ */
+export function isValidEmail(address: string): boolean {
+	const at = address.lastIndexOf('@');
+	if (at < 1 || address.length > 254) return false;
+
+	const local = address.slice(0, at);
+	const domain = address.slice(at + 1).toLowerCase();
+	if (local.length > 64) return false;
+	if (!/^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/i.test(local)) return false;
+
+	const labels = domain.split('.');
+	if (labels.length < 2) return false;
+	if (!labels.every((label) => /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/.test(label))) return false;
+
+	const tld = labels[labels.length - 1];
+	return (tld.startsWith('xn--') || /^[a-z]{2,}$/.test(tld)) && !FILE_EXTENSION_TLDS.has(tld);
+}
+
+/**
+ * Classify the mailbox behind an address from its local part.
+ *
+ * Role names are matched in several languages, also as the first part of
+ * a compound ("sales-uk", "support.de"). Local parts made of two or more
+ * words ("jane.doe") are taken as personal mailboxes.
+ *
+ * @param {string} address - Email address
+ * @returns {EmailRole} Role of the mailbox
+ */
+export function classifyEmailRole(address: string): EmailRole {
+	const local = address.split('@')[0].toLowerCase().split('+')[0];
+	const parts = local.split(/[._-]+/).filter(Boolean);
+
+	for (const candidate of [local.replace(/[._-]+/g, ''), ...parts]) {
+		const role = ROLE_PATTERNS.find(([, pattern]) => pattern.test(candidate));
+		if (role) return role[0];
+	}
+
+	return parts.length >= 2 && parts.every((part) => /^[a-z]+$/.test(part)) ? 'personal' : 'other';
+}
+
+/**
+ * Lowercase and validate an address; undefined if invalid or junk.
+ */
+function normalizeEmail(value: string): string | undefined {
+	const address = value
+		.trim()
+		.replace(/^mailto:/i, '')
+		.replace(/^[.]+|[.]+$/g, '')
+		.toLowerCase();
+	if (!isValidEmail(address)) return undefined;
+	if (JUNK_EMAIL_PATTERNS.some((pattern) => pattern.test(address))) return undefined;
+	return address;
+}
+
+/**
+ * Decode a Cloudflare-protected address: the first byte is the XOR key
+ * for the rest.
+ */
+function decodeCfEmail(hex: string): string | undefined {
+	if (!/^([0-9a-f]{2}){2,}$/i.test(hex)) return undefined;
+	const key = parseInt(hex.slice(0, 2), 16);
+	let decoded = '';
+	for (let i = 2; i < hex.length; i += 2) {
+		decoded += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16) ^ key);
+	}
+	return decoded;
+}
+
+/**
+ * Find addresses that a script assembles from pieces: concatenated string
+ * literals ('info' + '@' + 'example.com'), joined arrays and
+ * String.fromCharCode calls.
+ */
+function decodeScriptEmails(script: string): string[] {
+	if (!script) return [];
+	const literal = /'([^'\n]*)'|"([^"\n]*)"/g;
+	const readLiterals = (source: string) => [...source.matchAll(literal)].map((match) => match[1] ?? match[2] ?? '');
+	const assembled: string[] = [];
+
+	for (const match of script.matchAll(/(?:'[^'\n]*'|"[^"\n]*")(?:\s*\+\s*(?:'[^'\n]*'|"[^"\n]*"))+/g)) {
+		assembled.push(readLiterals(match[0]).join(''));
+	}
+	for (const match of script.matchAll(/\[((?:\s*(?:'[^'\n]*'|"[^"\n]*")\s*,?)+)\]\s*\.\s*join\(\s*(?:'([^'\n]*)'|"([^"\n]*)")?\s*\)/g)) {
+		assembled.push(readLiterals(match[1]).join(match[2] ?? match[3] ?? ','));
+	}
+	for (const match of script.matchAll(/String\.fromCharCode\(([\d\s,]+)\)/g)) {
+		assembled.push(String.fromCharCode(...match[1].split(',').map((code) => Number(code.trim()))));
+	}
+
+	return assembled.flatMap((value) => value.replace(/mailto:/gi, ' ').match(EMAIL_REGEX) || []);
+}
+
+/**
+ * Label of a linked or protected address: its link text, its title, or
+ * the text written before it in its parent.
+ */
+function getElementLabel($: Document, element: DomNode): string | undefined {
+	const $element = $(element);
+	const rawText = $element.text();
+	const text = rawText.replace(/\s+/g, ' ').trim();
+	if (text && !text.includes('@') && !/email protected/i.test(text) && text.length <= 80) return text;
+
+	const title = $element.attr('title')?.trim();
+	if (title && !title.includes('@')) return title;
+
+	const context = $element.parent().text();
+	const index = rawText ? context.indexOf(rawText) : -1;
+	return index > 0 ? getTextLabel(context, index) : undefined;
+}
+
+/**
+ * Label written just before a position in text, e.g. "Sales:" in
+ * "Sales: sales@example.com"; stops at line and sentence breaks and at
+ * other addresses.
+ */
+function getTextLabel(text: string, index: number): string | undefined {
+	const segment = (text.slice(Math.max(0, index - 80), index).split(/[\n\r|•·;\]]|[.!?]\s/).pop() || '')
+		.replace(/^.*\S+@\S+/, '')
+		.replace(/\s+/g, ' ')
+		.replace(/^[\s:–—-]+|[\s:–—-]+$/g, '');
+	// Connectors between two addresses ("a@x.com or b@x.com") are not labels
+	if (segment.length > 60 || (segment.match(/\p{L}/gu) || []).length < 3 || CONNECTOR_WORDS.test(segment)) return undefined;
+	return segment;
+}
+
+/**
+ * Registrable domain of a URL's host: the last two labels, or three under
+ * second-level labels such as co.uk.
+ */
+function getSiteDomain(url: string): string | undefined {
+	try {
+		const labels = new URL(url).hostname.toLowerCase().replace(/\.$/, '').split('.');
+		const size = labels.length >= 3 && SECOND_LEVEL_LABELS.has(labels[labels.length - 2]) && labels[labels.length - 1].length === 2 ? 3 : 2;
+		return labels.slice(-size).join('.');
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Decode a percent-encoded mailto: link, keeping it as is if malformed.
+ */
+function safeDecode(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
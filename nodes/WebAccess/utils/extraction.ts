@@ -1,33 +1,46 @@
 /**
  * Extraction utilities for Web Access node
- * Provides robust extraction of emails, phones, products, assets from HTML/text
+ * Provides robust extraction of products, links, text and assets from HTML/text
  */
 
 // eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for HTML parsing in self-hosted deployments
 import * as cheerio from 'cheerio';
-import type { ProductSummary, AssetType } from './types';
-import { ALLOWED_PROTOCOLS, BLOCKED_URL_PATTERNS } from './config';
-
-// Email regex - comprehensive pattern for common email formats
-const EMAIL_REGEX = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
-
-// Phone regex - supports various formats with optional country codes
-const PHONE_REGEX = /(?:\+?[1-9]\d{0,2}[-.\s]?)?(?:\(?\d{2,4}\)?[-.\s]?)?\d{3,4}[-.\s]?\d{3,4}/g;
-
-// Common junk email patterns to filter out
-const JUNK_EMAIL_PATTERNS = [
-	/^[a-f0-9]{32}@/i, // MD5-like hashes
-	/@example\.com$/i,
-	/@test\.com$/i,
-	/@localhost$/i,
-	/noreply@/i,
-	/no-reply@/i,
-	/@sentry\./i,
-	/@wixpress\.com$/i,
-	/\.png@/i,
-	/\.jpg@/i,
-	/\.gif@/i,
-];
+import type { ProductSummary, AssetType, CrawledPage, TextLine } from './types';
+
+// Cheerio selection
+type Selection = ReturnType<ReturnType<typeof cheerio.load>>;
+
+// Elements that start a new line in extractTextLines
+const TEXT_BLOCK_TAGS = new Set([
+	'address',
+	'article',
+	'aside',
+	'blockquote',
+	'dd',
+	'div',
+	'dl',
+	'dt',
+	'figcaption',
+	'footer',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'header',
+	'hr',
+	'li',
+	'main',
+	'nav',
+	'ol',
+	'p',
+	'pre',
+	'section',
+	'table',
+	'tr',
+	'ul',
+]);
 
 // Asset extensions by type
 const ASSET_EXTENSIONS: Record<AssetType, string[]> = {
@@ -36,142 +49,6 @@ const ASSET_EXTENSIONS: Record<AssetType, string[]> = {
 	csv: ['.csv'],
 };
 
-/**
- * Validate URL for security (SSRF prevention).
- * 
- * Checks that the URL uses allowed protocols and doesn't match
- * blocked patterns (localhost, private IPs, etc.).
- * 
- * @param {string} url - The URL to validate
- * @returns {{ valid: boolean; error?: string }} Validation result
- */
-export function validateUrl(url: string): { valid: boolean; error?: string } {
-	if (!url || typeof url !== 'string') {
-		return { valid: false, error: 'URL must be a non-empty string' };
-	}
-
-	try {
-		const urlObj = new URL(url);
-
-		// Check protocol
-		if (!ALLOWED_PROTOCOLS.includes(urlObj.protocol)) {
-			return { valid: false, error: `Protocol ${urlObj.protocol} is not allowed. Only http: and https: are permitted.` };
-		}
-
-		// Check for blocked patterns
-		const hostname = urlObj.hostname.toLowerCase();
-		for (const pattern of BLOCKED_URL_PATTERNS) {
-			if (pattern.test(hostname)) {
-				return { valid: false, error: 'URL matches blocked pattern (localhost or private IP)' };
-			}
-		}
-
-		return { valid: true };
-	} catch (error) {
-		return { valid: false, error: `Invalid URL format: ${error instanceof Error ? error.message : 'Unknown error'}` };
-	}
-}
-
-/**
- * Check if an email matches junk patterns.
- * 
- * Filters out common junk email patterns like test emails, noreply addresses, etc.
- * 
- * @param {string} email - Email address to check
- * @returns {boolean} True if email matches junk patterns
- */
-function isJunkEmail(email: string): boolean {
-	for (const pattern of JUNK_EMAIL_PATTERNS) {
-		if (pattern.test(email)) return true;
-	}
-	return false;
-}
-
-/**
- * Extract email addresses from text or HTML content.
- * 
- * Handles obfuscated emails (e.g., "user [at] domain [dot] com") and deduplicates results.
- * Filters out junk emails and validates format.
- * 
- * @param {string} textOrHtml - Text or HTML content to extract emails from
- * @returns {string[]} Array of unique email addresses
- */
-export function extractEmails(textOrHtml: string): string[] {
-	if (!textOrHtml) return [];
-
-	const emails = new Set<string>();
-
-	// First, decode common obfuscation patterns
-	const decoded = textOrHtml
-		// HTML entities
-		.replace(/&#64;/g, '@')
-		.replace(/&#46;/g, '.')
-		.replace(/&commat;/g, '@')
-		.replace(/&period;/g, '.')
-		// Common text obfuscation
-		.replace(/\s*\[at\]\s*/gi, '@')
-		.replace(/\s*\(at\)\s*/gi, '@')
-		.replace(/\s*\{at\}\s*/gi, '@')
-		.replace(/\s*@\s*/g, '@') // spaces around @
-		.replace(/\s*\[dot\]\s*/gi, '.')
-		.replace(/\s*\(dot\)\s*/gi, '.')
-		.replace(/\s*\{dot\}\s*/gi, '.')
-		// Variations
-		.replace(/\s*\[AT\]\s*/g, '@')
-		.replace(/\s*\[DOT\]\s*/g, '.')
-		.replace(/\bat\b/gi, (match, offset, str) => {
-			// Only replace 'at' if it looks like email context
-			const before = str.substring(Math.max(0, offset - 20), offset);
-			const after = str.substring(offset + match.length, offset + match.length + 20);
-			if (/[a-z0-9]$/i.test(before) && /^[a-z0-9]/i.test(after)) {
-				return '@';
-			}
-			return match;
-		});
-
-	// Extract from mailto: links (highest quality)
-	const mailtoMatches = decoded.match(/mailto:([^"'\s<>?#]+)/gi) || [];
-	mailtoMatches.forEach((m) => {
-		const email = m.replace(/^mailto:/i, '').split('?')[0].split('#')[0];
-		if (email.includes('@') && email.includes('.') && !isJunkEmail(email)) {
-			emails.add(email.toLowerCase().trim());
-		}
-	});
-
-	// Extract from href attributes containing email-like patterns
-	const hrefMatches = decoded.match(/href=["'][^"']*@[^"']*["']/gi) || [];
-	hrefMatches.forEach((m) => {
-		const emailMatch = m.match(EMAIL_REGEX);
-		if (emailMatch) {
-			emailMatch.forEach((email) => {
-				if (!isJunkEmail(email)) {
-					emails.add(email.toLowerCase().trim());
-				}
-			});
-		}
-	});
-
-	// Extract standard email patterns
-	const standardMatches = decoded.match(EMAIL_REGEX) || [];
-	standardMatches.forEach((email) => {
-		if (!isJunkEmail(email)) {
-			emails.add(email.toLowerCase().trim());
-		}
-	});
-
-	// Filter results
-	return Array.from(emails).filter((email) => {
-		// Basic validation
-		if (email.length < 5 || email.length > 254) return false;
-		if (!email.includes('@') || !email.includes('.')) return false;
-		// Must have valid TLD
-		const parts = email.split('.');
-		const tld = parts[parts.length - 1];
-		if (tld.length < 2 || tld.length > 10) return false;
-		return true;
-	});
-}
-
 /**
  * Generate common contact page URLs for a website.
  * 
@@ -211,32 +88,6 @@ export function getContactPageUrls(baseUrl: string): string[] {
 	}
 }
 
-/**
- * Extract phone numbers from text content.
- * 
- * Filters by reasonable length (7-15 digits) and deduplicates results.
- * Removes formatting characters for consistency.
- * 
- * @param {string} text - Text content to extract phones from
- * @returns {string[]} Array of unique phone numbers
- */
-export function extractPhones(text: string): string[] {
-	if (!text) return [];
-
-	const matches = text.match(PHONE_REGEX) || [];
-
-	// Clean and deduplicate
-	const cleaned = matches
-		.map((phone) => phone.replace(/[-.\s()]/g, '')) // Remove formatting
-		.filter((phone) => {
-			// Must be 7-15 digits (international standard)
-			const digitsOnly = phone.replace(/\D/g, '');
-			return digitsOnly.length >= 7 && digitsOnly.length <= 15;
-		});
-
-	return [...new Set(cleaned)];
-}
-
 /**
  * Extract visible text content from HTML.
  * 
@@ -261,6 +112,65 @@ export function extractTextContent(html: string): string {
 	return text.replace(/\s+/g, ' ').trim();
 }
 
+/**
+ * Split the visible text of a page into lines.
+ * 
+ * Block elements (paragraphs, headings, list items, table rows, divs)
+ * and <br> start new lines; the cells of a table row stay on one line,
+ * separated by spaces. Used by extractors that need the page's line
+ * structure, which extractTextContent flattens.
+ * 
+ * @param {string} html - HTML content to split
+ * @returns {TextLine[]} Non-empty lines in document order
+ */
+export function extractTextLines(html: string): TextLine[] {
+	if (!html) return [];
+
+	const $ = cheerio.load(html);
+	$('script, style, noscript, iframe, svg, template, [hidden], [style*="display:none"], [style*="display: none"]').remove();
+
+	const lines: TextLine[] = [];
+	let current = '';
+	let container: TextLine['container'] = 'none';
+	const flush = () => {
+		const text = current.replace(/\s+/g, ' ').trim();
+		if (text) lines.push({ text, container });
+		current = '';
+	};
+
+	const walk = (nodes: Selection, parent: TextLine['container']) => {
+		nodes.each((_, node) => {
+			if (node.type === 'text') {
+				current += node.data;
+				return;
+			}
+			if (node.type !== 'tag') return;
+
+			const tag = node.tagName.toLowerCase();
+			if (tag === 'br') {
+				flush();
+			} else if (tag === 'td' || tag === 'th') {
+				current += ' ';
+				walk($(node).contents(), parent);
+				current += ' ';
+			} else if (TEXT_BLOCK_TAGS.has(tag)) {
+				const inner = tag === 'tr' ? 'table' : tag === 'li' || tag === 'dt' || tag === 'dd' ? 'list' : parent;
+				flush();
+				container = inner;
+				walk($(node).contents(), inner);
+				flush();
+				container = parent;
+			} else {
+				walk($(node).contents(), parent);
+			}
+		});
+	};
+	walk($('body').length > 0 ? $('body').contents() : $.root().contents(), 'none');
+	flush();
+
+	return lines;
+}
+
 /**
  * Extract page title from HTML.
  * 
@@ -379,11 +289,68 @@ export function extractProductsFromHtml(html: string, baseUrl?: string): Product
 	return products;
 }
 
+/**
+ * Check whether a URL's path ends with one of the given extensions.
+ * 
+ * Ignores query strings and fragments (e.g. "report.pdf?v=2").
+ * 
+ * @param {string} url - Absolute URL to check
+ * @param {string[]} extensions - Lowercase extensions including the dot
+ * @returns {boolean} True if the path has a matching extension
+ */
+function hasAssetExtension(url: string, extensions: string[]): boolean {
+	try {
+		const pathname = new URL(url).pathname.toLowerCase();
+		return extensions.some((ext) => pathname.endsWith(ext));
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Parse the URLs out of a srcset attribute.
+ * 
+ * Follows the HTML algorithm: a URL runs up to whitespace (so commas in
+ * data: URLs are kept) and its descriptors run up to the next comma, with
+ * or without a space after it ("a.jpg 1x,b.jpg 2x").
+ * 
+ * @param {string} srcset - srcset value (e.g. "a.jpg 1x, b.jpg 2x")
+ * @returns {string[]} Candidate URLs in declaration order
+ */
+function parseSrcset(srcset: string): string[] {
+	const urls: string[] = [];
+	let i = 0;
+
+	while (i < srcset.length) {
+		while (i < srcset.length && /[\s,]/.test(srcset[i])) i++;
+		const urlStart = i;
+		while (i < srcset.length && !/\s/.test(srcset[i])) i++;
+		let url = srcset.slice(urlStart, i);
+
+		// A URL ending in a comma has no descriptors
+		if (url.endsWith(',')) {
+			url = url.replace(/,+$/, '');
+		} else {
+			let depth = 0;
+			while (i < srcset.length && (srcset[i] !== ',' || depth > 0)) {
+				if (srcset[i] === '(') depth++;
+				if (srcset[i] === ')') depth = Math.max(0, depth - 1);
+				i++;
+			}
+		}
+
+		if (url) urls.push(url);
+	}
+
+	return urls;
+}
+
 /**
  * Extract asset URLs from HTML based on asset type.
  * 
- * Finds links and images matching the specified asset type (PDF, image, CSV).
- * Resolves relative URLs to absolute URLs.
+ * Follows <a href>, <link href>, <source src|srcset> and, for images,
+ * <img src|srcset>. Links are matched by file extension; image elements
+ * are accepted regardless of extension. Resolves relative URLs to absolute URLs.
  * 
  * @param {string} html - HTML content to extract asset URLs from
  * @param {string} baseUrl - Base URL for resolving relative URLs
@@ -398,42 +365,40 @@ export function extractAssetUrls(html: string, baseUrl: string, assetType: Asset
 	const urls: string[] = [];
 	const seenUrls = new Set<string>();
 
-	// Check all links
-	$('a[href]').each((_, element) => {
-		const href = $(element).attr('href');
-		if (!href) return;
+	const addUrl = (rawUrl: string | undefined, requireExtension: boolean) => {
+		if (!rawUrl || rawUrl.startsWith('data:') || rawUrl.startsWith('javascript:')) return;
 
-		const lowerHref = href.toLowerCase();
-		const hasExtension = extensions.some((ext) => lowerHref.endsWith(ext));
-
-		if (hasExtension) {
-			try {
-				const absoluteUrl = new URL(href, baseUrl).href;
-				if (!seenUrls.has(absoluteUrl)) {
-					seenUrls.add(absoluteUrl);
-					urls.push(absoluteUrl);
-				}
-			} catch {
-				// Invalid URL, skip
+		try {
+			const absoluteUrl = new URL(rawUrl.trim(), baseUrl).href;
+			if (requireExtension && !hasAssetExtension(absoluteUrl, extensions)) return;
+			if (!seenUrls.has(absoluteUrl)) {
+				seenUrls.add(absoluteUrl);
+				urls.push(absoluteUrl);
 			}
+		} catch {
+			// Invalid URL, skip
 		}
+	};
+
+	// Check all links, including <link> references (preloads, alternates, icons)
+	$('a[href], link[href]').each((_, element) => {
+		addUrl($(element).attr('href'), true);
+	});
+
+	// <source> elements in <picture>, <video> and <audio>
+	$('source[src], source[srcset]').each((_, element) => {
+		const $el = $(element);
+		const isImageSource = $el.parent().is('picture');
+		addUrl($el.attr('src'), !(assetType === 'image' && isImageSource));
+		parseSrcset($el.attr('srcset') || '').forEach((src) => addUrl(src, !(assetType === 'image' && isImageSource)));
 	});
 
-	// For images, also check img src
+	// For images, also check img src and srcset
 	if (assetType === 'image') {
-		$('img[src]').each((_, element) => {
-			const src = $(element).attr('src');
-			if (!src) return;
-
-			try {
-				const absoluteUrl = new URL(src, baseUrl).href;
-				if (!seenUrls.has(absoluteUrl)) {
-					seenUrls.add(absoluteUrl);
-					urls.push(absoluteUrl);
-				}
-			} catch {
-				// Invalid URL, skip
-			}
+		$('img[src], img[srcset]').each((_, element) => {
+			const $el = $(element);
+			addUrl($el.attr('src'), false);
+			parseSrcset($el.attr('srcset') || '').forEach((src) => addUrl(src, false));
 		});
 	}
 
@@ -451,11 +416,26 @@ export function extractAssetUrls(html: string, baseUrl: string, assetType: Asset
  * @returns {string[]} Array of internal link URLs
  */
 export function extractInternalLinks(html: string, baseUrl: string): string[] {
+	return extractInternalPages(html, baseUrl).map((page) => page.url);
+}
+
+/**
+ * Extract internal links from HTML with their link text.
+ * 
+ * Same links as extractInternalLinks; each page's title is the text of
+ * its first link with any text (or its title/aria-label attribute), for
+ * ranking candidates without fetching them.
+ * 
+ * @param {string} html - HTML content to extract links from
+ * @param {string} baseUrl - Base URL for domain comparison
+ * @returns {CrawledPage[]} Internal pages in document order
+ */
+export function extractInternalPages(html: string, baseUrl: string): CrawledPage[] {
 	if (!html) return [];
 
 	const $ = cheerio.load(html);
-	const links: string[] = [];
-	const seenUrls = new Set<string>();
+	const pages: CrawledPage[] = [];
+	const seenUrls = new Map<string, CrawledPage>();
 
 	let baseDomain: string;
 	try {
@@ -478,56 +458,23 @@ export function extractInternalLinks(html: string, baseUrl: string): string[] {
 			if (href.startsWith('#') || href.startsWith('javascript:') || href.startsWith('mailto:')) return;
 
 			const urlStr = absoluteUrl.href;
-			if (!seenUrls.has(urlStr)) {
-				seenUrls.add(urlStr);
-				links.push(urlStr);
+			const title =
+				$(element).text().replace(/\s+/g, ' ').trim() ||
+				$(element).attr('title')?.trim() ||
+				$(element).attr('aria-label')?.trim() ||
+				undefined;
+			const seen = seenUrls.get(urlStr);
+			if (!seen) {
+				const page: CrawledPage = { url: urlStr, title };
+				seenUrls.set(urlStr, page);
+				pages.push(page);
+			} else if (!seen.title && title) {
+				seen.title = title;
 			}
 		} catch {
 			// Invalid URL, skip
 		}
 	});
 
-	return links;
-}
-
-/**
- * Check if HTML content appears to be blocked (CAPTCHA, 403, etc.).
- * 
- * Detects common blocking patterns like CAPTCHA pages, Cloudflare challenges,
- * access denied pages, and suspiciously short content.
- * 
- * @param {string} html - HTML content to check
- * @returns {boolean} True if content appears to be blocked
- */
-export function isBlockedContent(html: string): boolean {
-	if (!html) return true;
-
-	const lowerHtml = html.toLowerCase();
-
-	const blockIndicators = [
-		'captcha',
-		'cloudflare',
-		'access denied',
-		'403 forbidden',
-		'blocked',
-		'rate limit',
-		'too many requests',
-		'please verify',
-		'are you a robot',
-		'human verification',
-	];
-
-	for (const indicator of blockIndicators) {
-		if (lowerHtml.includes(indicator)) {
-			return true;
-		}
-	}
-
-	// Also check if content is suspiciously short
-	const text = extractTextContent(html);
-	if (text.length < 100 && lowerHtml.includes('<!doctype')) {
-		return true;
-	}
-
-	return false;
+	return pages;
 }
@@ -0,0 +1,262 @@
+/**
+ * Opening hours extraction for Web Access node
+ * Reads business hours from schema.org openingHours, tables, lists and
+ * text lines ("Mon–Fri 9am–5pm", "Mo-Fr 09:00-18:00 Uhr")
+ */
+
+import { extractTextLines } from './extraction';
+import type { DayOfWeek, OpeningHours, TextLine } from './types';
+
+// Days in week order
+const DAYS: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Two-letter day codes used by schema.org openingHours
+const DAY_CODES = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+
+// Day names and abbreviations in English, German, French, Spanish and Dutch, in week order
+const DAY_NAMES: string[][] = [
+	['monday', 'mon', 'mo', 'montag', 'lundi', 'lun', 'lunes', 'maandag', 'ma'],
+	['tuesday', 'tues', 'tue', 'tu', 'dienstag', 'di', 'mardi', 'mar', 'martes', 'dinsdag'],
+	['wednesday', 'wed', 'we', 'mittwoch', 'mi', 'mercredi', 'mer', 'miércoles', 'miercoles', 'mié', 'woensdag', 'wo'],
+	['thursday', 'thurs', 'thur', 'thu', 'th', 'donnerstag', 'do', 'jeudi', 'jeu', 'jueves', 'jue', 'donderdag'],
+	['friday', 'fri', 'fr', 'freitag', 'vendredi', 'ven', 'viernes', 'vie', 'vrijdag', 'vr'],
+	['saturday', 'sat', 'sa', 'samstag', 'sonnabend', 'samedi', 'sam', 'sábado', 'sabado', 'sáb', 'zaterdag', 'za'],
+	['sunday', 'sun', 'su', 'sonntag', 'so', 'dimanche', 'dim', 'domingo', 'dom', 'zondag', 'zo'],
+];
+
+// Day index by lowercased name
+const DAY_INDEX = new Map(DAY_NAMES.flatMap((names, index) => names.map((name): [string, number] => [name, index])));
+
+// Words joining days into ranges and lists, and times into ranges
+const RANGE_WORDS = '-|–|—|to|through|thru|till|until|bis|au|à|a|al|tot';
+const LIST_WORDS = ',|&|/|\\+|and|und|et|y|en';
+
+// One day name, not part of a longer word
+const DAY = `(?<![\\p{L}])(?:${[...DAY_INDEX.keys()].sort((a, b) => b.length - a.length).join('|')})\\.?(?![\\p{L}])`;
+
+// Days: one day, a range ("Mon-Fri") or a list ("Mo, We & Fr")
+const DAY_SPEC = `${DAY}(?:\\s*(?:${RANGE_WORDS}|${LIST_WORDS})\\s*${DAY})*`;
+
+// Clock time: "9", "9:30", "09.30", "9h30", "9am", "17 Uhr"
+const TIME = '\\d{1,2}(?:[:.h]\\d{2})?\\s*(?:[ap]\\.?\\s?m\\.?|uhr|h)?';
+
+// Time range, and several ranges for a day with a break
+const TIME_RANGE = `${TIME}\\s*(?:${RANGE_WORDS})\\s*${TIME}`;
+const TIME_RANGES = `${TIME_RANGE}(?:\\s*(?:${LIST_WORDS}|;)\\s*${TIME_RANGE})*`;
+
+// Days marked closed, and days open around the clock
+const CLOSED = 'closed|geschlossen|ruhetag|fermé|ferme|cerrado|gesloten';
+const ALL_DAY = 'open 24 hours|24 hours|24\\s?h|24/7|around the clock|rund um die uhr|durchgehend geöffnet';
+
+// Days followed by their hours
+const HOURS_PATTERN = new RegExp(`(?<days>${DAY_SPEC})\\s*:?\\s*(?<value>${TIME_RANGES}|${CLOSED}|${ALL_DAY})`, 'giu');
+
+// Days with nothing else on the line (a table cell or list term whose hours follow)
+const DAYS_ONLY = new RegExp(`^(?:${DAY_SPEC})\\s*:?$`, 'iu');
+
+// Clock time with minutes or am/pm followed by another time, as in adjacent table cells
+const COLUMN_TIMES = /(\d{1,2}[:.h]\d{2}(?:\s*[ap]\.?\s?m\.?)?|\d{1,2}\s*[ap]\.?\s?m\.?)\s+(?=\d)/giu;
+
+/**
+ * Inputs for opening hours extraction.
+ */
+export interface HoursExtractionInput {
+	/** Page HTML, split into lines */
+	html?: string;
+	/** Visible text, used when there is no HTML (documents) */
+	text: string;
+	/** openingHours values from structured data */
+	structured?: string[];
+}
+
+/**
+ * Find the opening hours of a page.
+ *
+ * Structured data is trusted first; without it, table rows, list items
+ * and text lines are read ("Mon–Fri 9am–5pm", "Samstag 10:00 - 14:00 Uhr").
+ * A line holding only days takes its hours from the next line (definition
+ * lists, two-column layouts). Bare hours such as "Sa 9-5" need a full day
+ * name, several days, or times with minutes, am/pm or "Uhr". Closed days
+ * are left out; a day open around the clock runs from 00:00 to 24:00.
+ *
+ * @param {HoursExtractionInput} input - Page HTML and text, and structured data hours
+ * @returns {OpeningHours[]} Opening periods by day of the week
+ */
+export function extractOpeningHours(input: HoursExtractionInput): OpeningHours[] {
+	const structured = (input.structured || []).flatMap((value) => parseHoursLine(value, 'structured_data'));
+	if (structured.length > 0) return sortHours(structured);
+
+	const lines = input.html
+		? extractTextLines(input.html)
+		: input.text.split(/\r?\n/).map((text): TextLine => ({ text: text.trim(), container: 'none' }));
+
+	const hours: OpeningHours[] = [];
+	lines.forEach((line, index) => {
+		if (line.text.length > 300) return;
+		const source = line.container === 'none' ? 'text' : line.container;
+		const next = lines[index + 1];
+		let text = DAYS_ONLY.test(line.text) && next ? `${line.text} ${next.text}` : line.text;
+		// Tables may put opening and closing times in separate columns
+		if (source === 'table') text = text.replace(COLUMN_TIMES, '$1 - ');
+		hours.push(...parseHoursLine(text, source));
+	});
+
+	return sortHours(hours);
+}
+
+/**
+ * Format opening hours the way schema.org openingHours does, grouping
+ * consecutive days with the same hours ("Mo-Fr 09:00-17:00").
+ *
+ * @param {OpeningHours[]} hours - Opening periods
+ * @returns {string[]} One entry per group of days
+ */
+export function formatOpeningHours(hours: OpeningHours[]): string[] {
+	const periods = DAYS.map((day) =>
+		hours
+			.filter((entry) => entry.day === day)
+			.map((entry) => `${entry.opens}-${entry.closes}`)
+			.join(','),
+	);
+
+	const groups: string[] = [];
+	for (let start = 0; start < DAYS.length; ) {
+		let end = start;
+		while (end + 1 < DAYS.length && periods[end + 1] === periods[start]) end++;
+		if (periods[start]) {
+			const days = end > start ? `${DAY_CODES[start]}-${DAY_CODES[end]}` : DAY_CODES[start];
+			groups.push(`${days} ${periods[start]}`);
+		}
+		start = end + 1;
+	}
+
+	return groups;
+}
+
+/**
+ * Read the opening periods written on one line.
+ */
+function parseHoursLine(text: string, source: OpeningHours['source']): OpeningHours[] {
+	const hours: OpeningHours[] = [];
+
+	for (const match of text.matchAll(HOURS_PATTERN)) {
+		const days = parseDays(match.groups?.days || '');
+		const value = (match.groups?.value || '').toLowerCase();
+		if (days.length === 0 || new RegExp(`^(?:${CLOSED})$`, 'iu').test(value)) continue;
+
+		let periods: Array<[string, string]>;
+		if (new RegExp(`^(?:${ALL_DAY})$`, 'iu').test(value)) {
+			periods = [['00:00', '24:00']];
+		} else {
+			// "Sa 9-5" could be anything; ask for a clearer day or clock time
+			const clearDays = days.length > 1 || (match.groups?.days || '').replace(/\.$/, '').length > 3;
+			const clearTimes = /[:.h]\d{2}|[ap]\.?\s?m|uhr/i.test(value);
+			if (source !== 'structured_data' && !clearDays && !clearTimes) continue;
+			periods = [...value.matchAll(new RegExp(TIME_RANGE, 'giu'))]
+				.map((range) => parseTimeRange(range[0]))
+				.filter((period): period is [string, string] => period !== undefined);
+		}
+
+		for (const day of days) {
+			for (const [opens, closes] of periods) {
+				hours.push({ day: DAYS[day], opens, closes, source });
+			}
+		}
+	}
+
+	return hours;
+}
+
+/**
+ * Expand a day range or list into day indexes ("Fr-Mo" wraps around the weekend).
+ */
+function parseDays(text: string): number[] {
+	const days = new Set<number>();
+	const tokens = [...text.matchAll(new RegExp(`(${DAY})|(${RANGE_WORDS})`, 'giu'))];
+
+	tokens.forEach((token, index) => {
+		const day = getDayIndex(token[1]);
+		if (day === undefined) return;
+		const previous = tokens[index - 1];
+		const from = getDayIndex(tokens[index - 2]?.[1]);
+		if (previous?.[2] && from !== undefined) {
+			for (let current = from; current !== day; current = (current + 1) % 7) days.add(current);
+		}
+		days.add(day);
+	});
+
+	return [...days];
+}
+
+/**
+ * Day index of a day name or abbreviation.
+ */
+function getDayIndex(name: string | undefined): number | undefined {
+	return name ? DAY_INDEX.get(name.toLowerCase().replace(/\.$/, '')) : undefined;
+}
+
+/**
+ * Convert a time range to 24-hour times. Without am/pm, a closing time
+ * before the opening time is read as afternoon ("9-5" is 09:00-17:00)
+ * unless the period runs past midnight ("22-2").
+ */
+function parseTimeRange(text: string): [string, string] | undefined {
+	const times = [...text.matchAll(new RegExp(TIME, 'giu'))].map((match) => parseTime(match[0]));
+	if (times.length !== 2 || !times[0] || !times[1]) return undefined;
+	const [opening, closing] = times;
+
+	let closes = closing.minutes;
+	let opens = opening.minutes;
+	if (opening.meridiem === undefined && closing.meridiem === 'pm' && opening.hour < 12 && opens + 12 * 60 < closes) {
+		// "1-5pm": the opening shares the closing's afternoon
+		opens += 12 * 60;
+	} else if (
+		opening.meridiem === undefined &&
+		closing.meridiem === undefined &&
+		closes <= opens &&
+		closing.hour + 12 > opening.hour
+	) {
+		closes += 12 * 60;
+	}
+
+	return [formatTime(opens), formatTime(closes === 0 ? 24 * 60 : closes)];
+}
+
+/**
+ * Parse a clock time into minutes after midnight.
+ */
+function parseTime(text: string): { hour: number; minutes: number; meridiem?: 'am' | 'pm' } | undefined {
+	const match = /^(\d{1,2})(?:[:.h](\d{2}))?\s*(?:([ap])\.?\s?m\.?)?/i.exec(text.trim());
+	if (!match) return undefined;
+
+	let hour = Number(match[1]);
+	const minute = Number(match[2] || 0);
+	const meridiem = match[3] ? (match[3].toLowerCase() === 'a' ? 'am' : 'pm') : undefined;
+	if (minute > 59 || hour > 24 || (meridiem && (hour === 0 || hour > 12))) return undefined;
+	if (meridiem === 'pm' && hour < 12) hour += 12;
+	if (meridiem === 'am' && hour === 12) hour = 0;
+
+	return { hour: Number(match[1]), minutes: hour * 60 + minute, meridiem };
+}
+
+/**
+ * Format minutes after midnight as "HH:MM".
+ */
+function formatTime(minutes: number): string {
+	return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Sort periods by day and opening time, dropping repeats.
+ */
+function sortHours(hours: OpeningHours[]): OpeningHours[] {
+	const seen = new Set<string>();
+	return hours
+		.filter((entry) => {
+			const key = `${entry.day}|${entry.opens}|${entry.closes}`;
+			if (seen.has(key)) return false;
+			seen.add(key);
+			return true;
+		})
+		.sort((a, b) => DAYS.indexOf(a.day) - DAYS.indexOf(b.day) || a.opens.localeCompare(b.opens));
+}
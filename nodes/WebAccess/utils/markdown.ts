@@ -0,0 +1,319 @@
+/**
+ * HTML to Markdown conversion for Web Access node
+ * Keeps headings, paragraphs, lists, tables, links, emphasis and code so
+ * LLMs and users get the page structure in far fewer tokens than HTML
+ */
+
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for HTML parsing in self-hosted deployments
+import * as cheerio from 'cheerio';
+
+// Cheerio document and its nodes
+type Document = ReturnType<typeof cheerio.load>;
+type DomNode = ReturnType<ReturnType<Document>['contents']>[number];
+
+// Elements rendered as blocks separated by blank lines
+const BLOCK_TAGS = new Set([
+	'address',
+	'article',
+	'aside',
+	'blockquote',
+	'body',
+	'dd',
+	'details',
+	'div',
+	'dl',
+	'dt',
+	'figcaption',
+	'figure',
+	'footer',
+	'form',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'header',
+	'hr',
+	'li',
+	'main',
+	'nav',
+	'ol',
+	'p',
+	'pre',
+	'section',
+	'summary',
+	'table',
+	'ul',
+]);
+
+// Elements dropped with their content
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'iframe', 'svg', 'head', 'button', 'select']);
+
+/**
+ * Convert HTML to Markdown.
+ *
+ * Headings become "#" lines, lists keep their nesting and numbering,
+ * tables become pipe tables (header from th or the first row), links and
+ * images are resolved against the base URL, and pre blocks become fenced
+ * code. Scripts, styles and form controls are dropped.
+ *
+ * @param {string} html - HTML to convert (a page or a fragment)
+ * @param {string} [baseUrl] - URL for resolving relative links and images
+ * @returns {string} Markdown
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+	if (!html) return '';
+
+	const $ = cheerio.load(html);
+	const nodes = $('body').length > 0 ? $('body').contents().toArray() : $.root().contents().toArray();
+	const blocks = renderBlocks($, nodes, baseUrl);
+
+	return blocks.join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Render a list of nodes as blocks; runs of inline nodes become paragraphs.
+ */
+function renderBlocks($: Document, nodes: DomNode[], baseUrl?: string): string[] {
+	const blocks: string[] = [];
+	let inline = '';
+	const flush = () => {
+		const paragraph = cleanInline(inline);
+		if (paragraph) blocks.push(paragraph);
+		inline = '';
+	};
+
+	for (const node of nodes) {
+		if (node.type === 'text') {
+			inline += collapseSpace(node.data);
+		} else if (node.type === 'tag') {
+			const tag = node.tagName.toLowerCase();
+			if (SKIPPED_TAGS.has(tag)) continue;
+			if (BLOCK_TAGS.has(tag)) {
+				flush();
+				const block = renderBlock($, node, tag, baseUrl);
+				if (block) blocks.push(block);
+			} else {
+				inline += renderInline($, node, baseUrl);
+			}
+		}
+	}
+	flush();
+
+	return blocks;
+}
+
+/**
+ * Render a block element.
+ */
+function renderBlock($: Document, node: DomNode, tag: string, baseUrl?: string): string {
+	const element = $(node);
+	const children = element.contents().toArray();
+
+	switch (tag) {
+		case 'h1':
+		case 'h2':
+		case 'h3':
+		case 'h4':
+		case 'h5':
+		case 'h6': {
+			const text = cleanInline(renderInlineNodes($, children, baseUrl)).replace(/\n+/g, ' ');
+			return text ? `${'#'.repeat(Number(tag[1]))} ${text}` : '';
+		}
+
+		case 'hr':
+			return '---';
+
+		case 'pre': {
+			const code = element.text().replace(/^\n+|\s+$/g, '');
+			const language = /language-(\w+)/.exec(element.find('code').attr('class') || '')?.[1] || '';
+			return code ? `\`\`\`${language}\n${code}\n\`\`\`` : '';
+		}
+
+		case 'blockquote': {
+			const quoted = renderBlocks($, children, baseUrl).join('\n\n');
+			return quoted
+				.split('\n')
+				.map((line) => (line ? `> ${line}` : '>'))
+				.join('\n');
+		}
+
+		case 'ul':
+		case 'ol':
+			return renderList($, node, tag === 'ol', baseUrl);
+
+		case 'table':
+			return renderTable($, node, baseUrl);
+
+		case 'dt':
+			return `**${cleanInline(renderInlineNodes($, children, baseUrl))}**`;
+
+		case 'p':
+		case 'summary':
+		case 'figcaption':
+			return cleanInline(renderInlineNodes($, children, baseUrl));
+
+		default:
+			return renderBlocks($, children, baseUrl).join('\n\n');
+	}
+}
+
+/**
+ * Render a list, indenting nested lists under their item.
+ */
+function renderList($: Document, node: DomNode, ordered: boolean, baseUrl?: string): string {
+	const start = Number($(node).attr('start')) || 1;
+	const items = $(node).children('li').toArray();
+
+	return items
+		.map((item, index) => {
+			const marker = ordered ? `${start + index}.` : '-';
+			const content = renderBlocks($, $(item).contents().toArray(), baseUrl).join('\n');
+			const [first = '', ...rest] = content.split('\n');
+			const indent = ' '.repeat(marker.length + 1);
+			return [`${marker} ${first}`, ...rest.map((line) => (line ? indent + line : line))].join('\n');
+		})
+		.join('\n');
+}
+
+/**
+ * Render a table as a pipe table. Cells spanning several columns are
+ * followed by empty cells so columns stay aligned.
+ */
+function renderTable($: Document, node: DomNode, baseUrl?: string): string {
+	const rows = $(node)
+		.find('tr')
+		.filter((_, row) => $(row).closest('table').get(0) === node)
+		.toArray()
+		.map((row) => {
+			const cells: string[] = [];
+			$(row)
+				.children('th, td')
+				.each((_, cell) => {
+					const text = cleanInline(renderInlineNodes($, $(cell).contents().toArray(), baseUrl))
+						.replace(/\n+/g, ' ')
+						.replace(/\|/g, '\\|');
+					cells.push(text);
+					const span = Number($(cell).attr('colspan')) || 1;
+					for (let i = 1; i < span; i++) cells.push('');
+				});
+			return cells;
+		})
+		.filter((cells) => cells.length > 0);
+
+	if (rows.length === 0) return '';
+
+	const width = Math.max(...rows.map((cells) => cells.length));
+	const line = (cells: string[]) =>
+		`| ${[...cells, ...new Array(width - cells.length).fill('')].join(' | ')} |`;
+	const caption = cleanInline($(node).children('caption').text());
+
+	const table = [line(rows[0]), line(new Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+	return caption ? `**${caption}**\n\n${table}` : table;
+}
+
+/**
+ * Render nodes as inline Markdown.
+ */
+function renderInlineNodes($: Document, nodes: DomNode[], baseUrl?: string): string {
+	return nodes
+		.map((node) => (node.type === 'text' ? collapseSpace(node.data) : node.type === 'tag' ? renderInline($, node, baseUrl) : ''))
+		.join('');
+}
+
+/**
+ * Render an inline element; block elements nested in it are flattened.
+ */
+function renderInline($: Document, node: DomNode, baseUrl?: string): string {
+	if (node.type !== 'tag') return '';
+
+	const tag = node.tagName.toLowerCase();
+	if (SKIPPED_TAGS.has(tag)) return '';
+
+	const element = $(node);
+	const inner = () => renderInlineNodes($, element.contents().toArray(), baseUrl);
+
+	switch (tag) {
+		case 'br':
+			return '\n';
+
+		case 'a': {
+			const text = cleanInline(inner()).replace(/\n+/g, ' ');
+			const href = resolveUrl(element.attr('href'), baseUrl);
+			if (!href || !text) return text;
+			return `[${text}](${href})`;
+		}
+
+		case 'img': {
+			const src = resolveUrl(element.attr('src'), baseUrl);
+			if (!src) return '';
+			// Inline images can be hundreds of KB of base64
+			if (/^data:/i.test(src.trim())) return `![${element.attr('alt') || ''}](data-uri omitted)`;
+			return `![${element.attr('alt') || ''}](${src})`;
+		}
+
+		case 'strong':
+		case 'b':
+			return wrapInline(inner(), '**');
+
+		case 'em':
+		case 'i':
+			return wrapInline(inner(), '*');
+
+		case 's':
+		case 'del':
+		case 'strike':
+			return wrapInline(inner(), '~~');
+
+		case 'code': {
+			const code = element.text();
+			return code ? `\`${code}\`` : '';
+		}
+
+		default:
+			return BLOCK_TAGS.has(tag) ? ` ${inner()} ` : inner();
+	}
+}
+
+/**
+ * Wrap inline text in emphasis markers, keeping surrounding spaces outside.
+ */
+function wrapInline(text: string, marker: string): string {
+	const trimmed = text.trim();
+	if (!trimmed) return text;
+	const leading = /^\s/.test(text) ? ' ' : '';
+	const trailing = /\s$/.test(text) ? ' ' : '';
+	return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+/**
+ * Collapse whitespace of a text node; source line breaks are not <br>s.
+ */
+function collapseSpace(text: string): string {
+	return text.replace(/\s+/g, ' ');
+}
+
+/**
+ * Collapse whitespace in inline text, keeping explicit line breaks.
+ */
+function cleanInline(text: string): string {
+	return text
+		.split('\n')
+		.map((line) => line.replace(/[ \t\r\f\v\u00a0]+/g, ' ').trim())
+		.join('\n')
+		.replace(/\n{2,}/g, '\n')
+		.trim();
+}
+
+/**
+ * Resolve a link against the base URL; script and fragment-only links are dropped.
+ */
+function resolveUrl(href: string | undefined, baseUrl?: string): string | undefined {
+	if (!href || href.startsWith('#') || /^javascript:/i.test(href.trim())) return undefined;
+	try {
+		return baseUrl ? new URL(href, baseUrl).href : href;
+	} catch {
+		return href;
+	}
+}
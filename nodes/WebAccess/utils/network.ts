@@ -0,0 +1,547 @@
+/**
+ * Network safety for Web Access node
+ * SSRF protection: URL validation, DNS resolution checks and redirect-safe fetch
+ *
+ * Admins can adjust the rules with environment variables:
+ * - WEBACCESS_ALLOWED_HOSTS: hosts or CIDR ranges that may be requested even
+ *   though they are private (e.g. an intranet site)
+ * - WEBACCESS_BLOCKED_HOSTS: hosts or CIDR ranges that are always blocked;
+ *   takes precedence over the allowlist
+ *
+ * Both are comma-separated. Host entries also match subdomains.
+ */
+
+/* eslint-disable @n8n/community-nodes/no-restricted-globals -- process.env holds the admin allow/deny lists */
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required to check where hostnames resolve
+import { lookup as lookupHost, promises as dns } from 'dns';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required to type the connection lookup
+import type { LookupFunction } from 'net';
+import {
+	ALLOWED_HOSTS_ENV,
+	ALLOWED_PROTOCOLS,
+	BLOCKED_HOSTNAMES,
+	BLOCKED_HOSTS_ENV,
+	BLOCKED_IP_RANGES,
+	DNS_CACHE_TTL,
+	MAX_REDIRECTS,
+} from './config';
+import { directFetch, proxyFetch } from './proxy';
+import { getSessionHeaders, type RequestSession } from './session';
+import type { ProxyEndpoint } from './types';
+
+/**
+ * Result of validating a URL.
+ */
+export interface UrlValidation {
+	valid: boolean;
+	error?: string;
+}
+
+/**
+ * An IP address range; IPv4 has 4 bytes, IPv6 has 16.
+ */
+interface IpRange {
+	bytes: number[];
+	prefix: number;
+}
+
+/**
+ * An allowlist or denylist entry: a hostname or an IP range.
+ */
+interface HostRule {
+	host?: string;
+	range?: IpRange;
+}
+
+/**
+ * Parsed admin host lists, with the raw values they were parsed from.
+ */
+interface HostLists {
+	source: string;
+	allowed: HostRule[];
+	blocked: HostRule[];
+}
+
+// Status codes that carry a Location to follow
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Upper bound on cached host resolutions
+const MAX_DNS_CACHE_ENTRIES = 1000;
+
+// Reserved ranges, parsed once
+const reservedRanges = BLOCKED_IP_RANGES.map(parseCidr).filter((range): range is IpRange => range !== undefined);
+
+// Resolved addresses keyed by hostname
+const dnsCache = new Map<string, { addresses: string[]; expiresAt: number }>();
+
+// Admin lists, re-parsed when the environment changes
+let hostLists: HostLists | undefined;
+
+/**
+ * Validate a URL for security (SSRF prevention) without network access.
+ *
+ * Checks the protocol, blocked hostnames, literal IP addresses in any
+ * encoding (IPv6, decimal, octal, hex) and the admin allow/deny lists.
+ * Use validateUrlResolved before making a request to also check where
+ * the hostname resolves.
+ *
+ * @param {string} url - The URL to validate
+ * @returns {UrlValidation} Validation result
+ */
+export function validateUrl(url: string): UrlValidation {
+	if (!url || typeof url !== 'string') {
+		return { valid: false, error: 'URL must be a non-empty string' };
+	}
+
+	let urlObj: URL;
+	try {
+		urlObj = new URL(url);
+	} catch (error) {
+		return { valid: false, error: `Invalid URL format: ${error instanceof Error ? error.message : 'Unknown error'}` };
+	}
+
+	if (!ALLOWED_PROTOCOLS.includes(urlObj.protocol)) {
+		return { valid: false, error: `Protocol ${urlObj.protocol} is not allowed. Only http: and https: are permitted.` };
+	}
+
+	const reason = checkHost(normalizeHost(urlObj.hostname));
+	return reason ? { valid: false, error: `URL blocked: ${reason}` } : { valid: true };
+}
+
+/**
+ * Validate a URL and check every address its hostname resolves to.
+ *
+ * Catches DNS names pointing at private addresses. Hosts on the admin
+ * allowlist skip the resolution check. If resolution fails the URL is
+ * reported valid and the request itself fails with the DNS error.
+ *
+ * @param {string} url - The URL to validate
+ * @returns {Promise<UrlValidation>} Validation result
+ */
+export async function validateUrlResolved(url: string): Promise<UrlValidation> {
+	const basic = validateUrl(url);
+	if (!basic.valid) {
+		return basic;
+	}
+
+	const host = normalizeHost(new URL(url).hostname);
+	const lists = getHostLists();
+	if (parseIp(host) || matchesRules(host, undefined, lists.allowed)) {
+		return basic;
+	}
+
+	let addresses: string[];
+	try {
+		addresses = await resolveHost(host);
+	} catch {
+		return basic;
+	}
+
+	for (const address of addresses) {
+		const reason = checkResolvedAddress(host, address, lists);
+		if (reason) {
+			return { valid: false, error: `URL blocked: ${reason}` };
+		}
+	}
+
+	return basic;
+}
+
+/**
+ * Check the address a response actually came from.
+ *
+ * For clients that resolve hostnames themselves (the browser), this
+ * catches a DNS rebinding host that passed validateUrlResolved and was
+ * then connected to on a private address. Hosts on the admin allowlist
+ * are not checked.
+ *
+ * @param {string} url - URL that was requested
+ * @param {string} address - Remote IP address of the connection
+ * @returns {UrlValidation} Validation result
+ */
+export function validateRemoteAddress(url: string, address: string): UrlValidation {
+	let host: string;
+	try {
+		host = normalizeHost(new URL(url).hostname);
+	} catch {
+		return { valid: true };
+	}
+
+	const lists = getHostLists();
+	if (matchesRules(host, parseIp(host), lists.allowed)) {
+		return { valid: true };
+	}
+	const reason = checkResolvedAddress(host, normalizeHost(address), lists);
+	return reason ? { valid: false, error: `URL blocked: ${reason}` } : { valid: true };
+}
+
+/**
+ * DNS lookup for outgoing connections that refuses blocked addresses.
+ *
+ * validateUrlResolved checks a hostname before the request, but the
+ * connection resolves it again; a DNS rebinding host can answer with a
+ * public address first and a private one second. Connections opened
+ * with this lookup are checked on the addresses they actually use.
+ * Hosts on the admin allowlist are not checked.
+ *
+ * @param {string} hostname - Hostname being connected to
+ * @param {object} options - Lookup options from the socket
+ * @param {Function} callback - Receives the addresses, or an error if any is blocked
+ */
+export const lookupAllowedAddress: LookupFunction = (hostname, options, callback) => {
+	lookupHost(hostname, { ...options, all: true }, (error, results) => {
+		if (error) {
+			callback(error, '');
+			return;
+		}
+
+		const host = normalizeHost(hostname);
+		const lists = getHostLists();
+		if (!matchesRules(host, undefined, lists.allowed)) {
+			const reason = results.map((result) => checkResolvedAddress(host, result.address, lists)).find(Boolean);
+			if (reason) {
+				callback(new Error(`URL blocked: ${reason}`), '');
+				return;
+			}
+		}
+
+		if (results.length === 0) {
+			callback(new Error(`${hostname} did not resolve to any address`), '');
+		} else if (options.all) {
+			callback(null, results);
+		} else {
+			callback(null, results[0].address, results[0].family);
+		}
+	});
+};
+
+/**
+ * Fetch a URL, following redirects manually so every hop is validated.
+ *
+ * Each URL in the chain goes through validateUrlResolved before it is
+ * requested, and direct connections resolve the host again with
+ * lookupAllowedAddress, so a DNS rebinding host cannot switch to a
+ * private address in between. Redirects change the request to GET without a body, and
+ * redirects to another host drop the Cookie and Authorization headers.
+ *
+ * With a session, each hop gets the session's headers and cookies for
+ * that hop's URL, and Set-Cookie headers from every hop (including
+ * redirects, as login flows often set cookies there) go into its jar.
+ *
+ * @param {string} url - URL to fetch
+ * @param {RequestInit} [init] - Fetch options; `redirect` is ignored
+ * @param {ProxyEndpoint} [proxy] - Proxy to send every hop through
+ * @param {RequestSession} [session] - Custom headers and cookie jar
+ * @param {number} [maxRedirects] - Maximum redirects to follow
+ * @returns {Promise<Response>} Final response
+ * @throws {Error} If a hop is blocked or there are too many redirects
+ */
+export async function safeFetch(
+	url: string,
+	init: RequestInit = {},
+	proxy?: ProxyEndpoint,
+	session?: RequestSession,
+	maxRedirects: number = MAX_REDIRECTS,
+): Promise<Response> {
+	let currentUrl = url;
+	let requestInit: RequestInit = { ...init, redirect: 'manual' };
+
+	for (let hop = 0; ; hop++) {
+		const validation = await validateUrlResolved(currentUrl);
+		if (!validation.valid) {
+			throw new Error(hop === 0 ? validation.error : `Redirect to ${currentUrl} rejected - ${validation.error}`);
+		}
+
+		let hopInit = requestInit;
+		if (session) {
+			const headers = new Headers(requestInit.headers);
+			for (const [name, value] of Object.entries(getSessionHeaders(session, currentUrl, url))) {
+				// Keep cookies the caller set, e.g. a replayed clearance
+				const existing = name === 'Cookie' ? headers.get('cookie') : null;
+				headers.set(name, existing ? `${existing}; ${value}` : value);
+			}
+			hopInit = { ...requestInit, headers };
+		}
+
+		const response = proxy
+			? await proxyFetch(currentUrl, hopInit, proxy)
+			: await directFetch(currentUrl, hopInit, lookupAllowedAddress);
+		session?.jar.setFromHeaders(currentUrl, response.headers.getSetCookie());
+
+		const location = response.headers.get('location');
+		if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+			return response;
+		}
+
+		if (hop >= maxRedirects) {
+			throw new Error(`Too many redirects (more than ${maxRedirects})`);
+		}
+
+		// Release the connection before following the redirect
+		void response.body?.cancel().catch(() => {});
+		const nextUrl = new URL(location, currentUrl);
+		requestInit = { ...requestInit, method: 'GET', body: undefined };
+		if (nextUrl.hostname !== new URL(currentUrl).hostname) {
+			const headers = new Headers(requestInit.headers);
+			headers.delete('cookie');
+			headers.delete('authorization');
+			requestInit.headers = headers;
+		}
+		currentUrl = nextUrl.toString();
+	}
+}
+
+/**
+ * Check a hostname against the admin lists and the built-in rules.
+ *
+ * @returns {string | undefined} Why the host is blocked, or undefined if allowed
+ */
+function checkHost(host: string): string | undefined {
+	const lists = getHostLists();
+	const ip = parseIp(host);
+
+	if (matchesRules(host, ip, lists.blocked)) {
+		return `${host} is on the blocked hosts list`;
+	}
+	if (matchesRules(host, ip, lists.allowed)) {
+		return undefined;
+	}
+	if (ip) {
+		return isReservedIp(ip) ? `${host} is a private, loopback or reserved address` : undefined;
+	}
+	if (BLOCKED_HOSTNAMES.some((blocked) => host === blocked || host.endsWith(`.${blocked}`)) || host.endsWith('.localhost')) {
+		return `${host} is a local hostname`;
+	}
+	return undefined;
+}
+
+/**
+ * Check one address a hostname resolved to against the admin lists and
+ * the reserved ranges.
+ *
+ * @returns {string | undefined} Why the address is blocked, or undefined if allowed
+ */
+function checkResolvedAddress(host: string, address: string, lists: HostLists): string | undefined {
+	const ip = parseIp(address);
+	if (!ip) return undefined;
+	if (matchesRules(address, ip, lists.blocked)) {
+		return `${host} resolves to ${address}, which is on the blocked hosts list`;
+	}
+	if (!matchesRules(address, ip, lists.allowed) && isReservedIp(ip)) {
+		return `${host} resolves to private or reserved address ${address}`;
+	}
+	return undefined;
+}
+
+/**
+ * Lowercase a hostname and strip IPv6 brackets and a trailing dot.
+ */
+function normalizeHost(hostname: string): string {
+	return hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+}
+
+/**
+ * Get the admin allow/deny lists from the environment.
+ */
+function getHostLists(): HostLists {
+	const allowedSource = process.env[ALLOWED_HOSTS_ENV] || '';
+	const blockedSource = process.env[BLOCKED_HOSTS_ENV] || '';
+	const source = `${allowedSource}\n${blockedSource}`;
+
+	if (!hostLists || hostLists.source !== source) {
+		hostLists = {
+			source,
+			allowed: parseHostList(allowedSource),
+			blocked: parseHostList(blockedSource),
+		};
+	}
+	return hostLists;
+}
+
+/**
+ * Parse a comma-separated list of hosts, IPs and CIDR ranges.
+ * Leading "*." or "." on hosts is ignored since subdomains always match.
+ */
+function parseHostList(source: string): HostRule[] {
+	const rules: HostRule[] = [];
+	for (const raw of source.split(',')) {
+		const entry = normalizeHost(raw.trim());
+		if (!entry) continue;
+
+		const range = parseCidr(entry);
+		if (range) {
+			rules.push({ range });
+		} else if (!entry.includes('/')) {
+			rules.push({ host: entry.replace(/^\*?\./, '') });
+		}
+	}
+	return rules;
+}
+
+/**
+ * Check a host (and its IP, if it is one) against list rules.
+ */
+function matchesRules(host: string, ip: number[] | undefined, rules: HostRule[]): boolean {
+	const candidates = ip ? [ip, getEmbeddedIPv4(ip)].filter((bytes): bytes is number[] => bytes !== undefined) : [];
+	return rules.some((rule) => {
+		if (rule.host) {
+			return host === rule.host || host.endsWith(`.${rule.host}`);
+		}
+		return rule.range !== undefined && candidates.some((bytes) => isInRange(bytes, rule.range as IpRange));
+	});
+}
+
+/**
+ * Check whether an IP is private, loopback, link-local or otherwise reserved.
+ * IPv6 addresses that embed an IPv4 address are judged by the IPv4 address.
+ */
+function isReservedIp(ip: number[]): boolean {
+	const embedded = getEmbeddedIPv4(ip);
+	if (embedded) {
+		return isReservedIp(embedded);
+	}
+	return reservedRanges.some((range) => isInRange(ip, range));
+}
+
+/**
+ * Get the IPv4 address embedded in an IPv4-mapped (::ffff:0:0/96),
+ * IPv4-compatible (::/96), NAT64 (64:ff9b::/96) or 6to4 (2002::/16)
+ * IPv6 address.
+ */
+function getEmbeddedIPv4(ip: number[]): number[] | undefined {
+	if (ip.length !== 16) return undefined;
+
+	const leadingZeros = ip.slice(0, 10).every((byte) => byte === 0);
+	if (leadingZeros && ip[10] === 0xff && ip[11] === 0xff) return ip.slice(12);
+	if (leadingZeros && ip[10] === 0 && ip[11] === 0) return ip.slice(12);
+	if (ip[0] === 0x00 && ip[1] === 0x64 && ip[2] === 0xff && ip[3] === 0x9b && ip.slice(4, 12).every((byte) => byte === 0)) {
+		return ip.slice(12);
+	}
+	if (ip[0] === 0x20 && ip[1] === 0x02) return ip.slice(2, 6);
+	return undefined;
+}
+
+/**
+ * Check whether an IP falls within a range of the same family.
+ */
+function isInRange(ip: number[], range: IpRange): boolean {
+	if (ip.length !== range.bytes.length) return false;
+
+	const fullBytes = Math.floor(range.prefix / 8);
+	for (let i = 0; i < fullBytes; i++) {
+		if (ip[i] !== range.bytes[i]) return false;
+	}
+
+	const remainingBits = range.prefix % 8;
+	if (remainingBits === 0) return true;
+	const mask = (0xff << (8 - remainingBits)) & 0xff;
+	return (ip[fullBytes] & mask) === (range.bytes[fullBytes] & mask);
+}
+
+/**
+ * Parse "address/prefix" or a bare address into a range.
+ */
+function parseCidr(value: string): IpRange | undefined {
+	const [address, prefixText, extra] = value.split('/');
+	if (extra !== undefined) return undefined;
+
+	const bytes = parseIp(address);
+	if (!bytes) return undefined;
+
+	const maxPrefix = bytes.length * 8;
+	const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+	if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) return undefined;
+
+	return { bytes, prefix };
+}
+
+/**
+ * Parse an IPv4 or IPv6 address into bytes.
+ */
+function parseIp(value: string): number[] | undefined {
+	return value.includes(':') ? parseIPv6(value) : parseIPv4(value);
+}
+
+/**
+ * Parse an IPv4 address the way inet_aton does: one to four parts, each
+ * decimal, octal (leading 0) or hex (0x); the last part fills the
+ * remaining bytes, so "2130706433" and "0177.1" are both 127.0.0.1.
+ */
+function parseIPv4(value: string): number[] | undefined {
+	const parts = value.split('.');
+	if (parts.length > 4) return undefined;
+
+	const numbers: number[] = [];
+	for (const part of parts) {
+		if (/^0x[0-9a-f]*$/i.test(part)) {
+			numbers.push(part.length > 2 ? parseInt(part.slice(2), 16) : 0);
+		} else if (/^0[0-7]*$/.test(part)) {
+			numbers.push(parseInt(part, 8));
+		} else if (/^[1-9][0-9]*$/.test(part)) {
+			numbers.push(parseInt(part, 10));
+		} else {
+			return undefined;
+		}
+	}
+
+	const last = numbers.pop() as number;
+	if (numbers.some((byte) => byte > 255) || last >= 256 ** (4 - numbers.length)) return undefined;
+
+	const bytes = [...numbers];
+	for (let i = 3 - numbers.length; i >= 0; i--) {
+		bytes.push(Math.floor(last / 256 ** i) % 256);
+	}
+	return bytes;
+}
+
+/**
+ * Parse an IPv6 address, including "::" compression, a trailing dotted
+ * IPv4 part and a zone index.
+ */
+function parseIPv6(value: string): number[] | undefined {
+	let address = value.replace(/%.*$/, '');
+
+	// Rewrite a trailing dotted IPv4 part as two hex groups
+	const dotted = address.match(/^(.*:)([^:]+\.[^:]+)$/);
+	if (dotted) {
+		const v4 = parseIPv4(dotted[2]);
+		if (!v4 || dotted[2].split('.').length !== 4) return undefined;
+		address = `${dotted[1]}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+	}
+
+	const halves = address.split('::');
+	if (halves.length > 2) return undefined;
+
+	const head = halves[0] ? halves[0].split(':') : [];
+	const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+	const missing = 8 - head.length - tail.length;
+	if (halves.length === 1 ? missing !== 0 : missing < 1) return undefined;
+
+	const groups = [...head, ...new Array<string>(missing).fill('0'), ...tail];
+	const bytes: number[] = [];
+	for (const group of groups) {
+		if (!/^[0-9a-f]{1,4}$/i.test(group)) return undefined;
+		const number = parseInt(group, 16);
+		bytes.push(number >> 8, number & 0xff);
+	}
+	return bytes;
+}
+
+/**
+ * Resolve a hostname to all of its addresses, with a short-lived cache.
+ */
+async function resolveHost(host: string): Promise<string[]> {
+	const cached = dnsCache.get(host);
+	if (cached && cached.expiresAt > Date.now()) {
+		return cached.addresses;
+	}
+
+	const results = await dns.lookup(host, { all: true, verbatim: true });
+	const addresses = results.map((result) => result.address);
+
+	if (dnsCache.size >= MAX_DNS_CACHE_ENTRIES) {
+		dnsCache.clear();
+	}
+	dnsCache.set(host, { addresses, expiresAt: Date.now() + DNS_CACHE_TTL });
+	return addresses;
+}
@@ -0,0 +1,691 @@
+/**
+ * Phone number parsing for Web Access node
+ * Finds phone numbers in tel: links, structured data and page text and
+ * normalizes them to E.164 using per-country numbering rules
+ */
+
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for HTML parsing in self-hosted deployments
+import * as cheerio from 'cheerio';
+import type { PhoneNumber, PhoneType } from './types';
+
+/**
+ * Numbering rules of a country.
+ */
+interface CountryRule {
+	/** ISO 3166-1 alpha-2 code */
+	region: string;
+	callingCode: string;
+	/** Prefix dialled before national numbers, dropped in E.164 */
+	trunkPrefix?: string;
+	/** Number types, checked in order against the national significant number */
+	types: Array<[PhoneType, RegExp]>;
+	/** National formats; the first matching pattern is applied */
+	formats: Array<[RegExp, string]>;
+}
+
+// North American Numbering Plan, shared by the US, Canada and the Caribbean
+const NANP_TYPES: Array<[PhoneType, RegExp]> = [
+	['toll_free', /^8(00|33|44|55|66|77|88)[2-9]\d{6}$/],
+	['premium_rate', /^900[2-9]\d{6}$/],
+	['landline_or_mobile', /^(?![2-9]11)[2-9]\d{2}(?![2-9]11)[2-9]\d{6}$/],
+];
+const NANP_FORMATS: Array<[RegExp, string]> = [[/^(\d{3})(\d{3})(\d{4})$/, '($1) $2-$3']];
+
+// Geographic NANP area codes outside the US, by region; other geographic codes are US
+const NANP_AREA_REGIONS: Record<string, string> = Object.fromEntries(
+	Object.entries({
+		CA:
+			'204 226 236 249 250 257 263 289 306 343 354 365 367 368 382 387 403 416 418 428 431 437 438 450 460 ' +
+			'468 474 506 514 519 548 579 581 584 587 604 613 639 647 672 683 705 709 742 753 778 780 782 807 819 ' +
+			'825 867 873 879 902 905 942',
+		AG: '268',
+		AI: '264',
+		AS: '684',
+		BB: '246',
+		BM: '441',
+		BS: '242',
+		DM: '767',
+		DO: '809 829 849',
+		GD: '473',
+		GU: '671',
+		JM: '658 876',
+		KN: '869',
+		KY: '345',
+		LC: '758',
+		MP: '670',
+		MS: '664',
+		PR: '787 939',
+		SX: '721',
+		TC: '649',
+		TT: '868',
+		VC: '784',
+		VG: '284',
+		VI: '340',
+	}).flatMap(([region, codes]) => codes.split(' ').map((code) => [code, region])),
+);
+
+// Numbering rules; the first country of a shared calling code is its default
+const COUNTRY_RULES: CountryRule[] = [
+	{ region: 'US', callingCode: '1', trunkPrefix: '1', types: NANP_TYPES, formats: NANP_FORMATS },
+	{ region: 'CA', callingCode: '1', trunkPrefix: '1', types: NANP_TYPES, formats: NANP_FORMATS },
+	{
+		region: 'GB',
+		callingCode: '44',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^7[1-57-9]\d{8}$/],
+			['toll_free', /^80(0\d{6,7}|8\d{7})$/],
+			['premium_rate', /^9[018]\d{8}$/],
+			['shared_cost', /^8[47]\d{8}$/],
+			['landline', /^(1\d{8,9}|2\d{9}|3[0347]\d{8}|5[56]\d{8})$/],
+		],
+		formats: [
+			[/^(2\d)(\d{4})(\d{4})$/, '0$1 $2 $3'],
+			[/^(1\d1)(\d{3})(\d{4})$/, '0$1 $2 $3'],
+			[/^([17]\d{3})(\d{5,6})$/, '0$1 $2'],
+			[/^(\d{3})(\d{3})(\d{3,4})$/, '0$1 $2 $3'],
+		],
+	},
+	{
+		region: 'DE',
+		callingCode: '49',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^1(5\d{9}|[67]\d{8,9})$/],
+			['toll_free', /^800\d{7}$/],
+			['premium_rate', /^900\d{7}$/],
+			['landline', /^[2-9]\d{5,10}$/],
+		],
+		formats: [
+			[/^(1\d{2})(\d{7,8})$/, '0$1 $2'],
+			[/^([89]00)(\d{7})$/, '0$1 $2'],
+			[/^(30|40|69|89)(\d{4,9})$/, '0$1 $2'],
+		],
+	},
+	{
+		region: 'FR',
+		callingCode: '33',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^[67]\d{8}$/],
+			['toll_free', /^80\d{7}$/],
+			['shared_cost', /^8[1-4]\d{7}$/],
+			['premium_rate', /^89\d{7}$/],
+			['landline', /^[1-59]\d{8}$/],
+		],
+		formats: [[/^(\d)(\d{2})(\d{2})(\d{2})(\d{2})$/, '0$1 $2 $3 $4 $5']],
+	},
+	{
+		region: 'ES',
+		callingCode: '34',
+		types: [
+			['mobile', /^[67]\d{8}$/],
+			['toll_free', /^900\d{6}$/],
+			['shared_cost', /^90[12]\d{6}$/],
+			['premium_rate', /^80[3-7]\d{6}$/],
+			['landline', /^[89]\d{8}$/],
+		],
+		formats: [[/^(\d{3})(\d{3})(\d{3})$/, '$1 $2 $3']],
+	},
+	{
+		// Italian landlines keep their leading 0 in international format
+		region: 'IT',
+		callingCode: '39',
+		types: [
+			['mobile', /^3\d{8,9}$/],
+			['landline', /^0\d{5,10}$/],
+			['toll_free', /^80[03]\d{3,6}$/],
+			['premium_rate', /^89\d{4,7}$/],
+		],
+		formats: [
+			[/^(3\d{2})(\d{6,7})$/, '$1 $2'],
+			[/^(0[26])(\d{4})(\d{2,4})$/, '$1 $2 $3'],
+			[/^(0\d{2})(\d{4,8})$/, '$1 $2'],
+		],
+	},
+	{
+		region: 'NL',
+		callingCode: '31',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^6[1-58]\d{7}$/],
+			['toll_free', /^800\d{4,7}$/],
+			['premium_rate', /^90[069]\d{4,7}$/],
+			['landline', /^([1-57]\d{8}|8[58]\d{7})$/],
+		],
+		formats: [
+			[/^(6)(\d{8})$/, '0$1 $2'],
+			[/^([89]0\d)(\d{4,7})$/, '0$1 $2'],
+			[/^(10|13|15|20|23|24|26|30|33|35|36|38|40|43|45|46|50|53|55|58|7\d)(\d{3})(\d{4})$/, '0$1 $2 $3'],
+			[/^(\d{3})(\d{6})$/, '0$1 $2'],
+		],
+	},
+	{
+		region: 'BE',
+		callingCode: '32',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^4[5-9]\d{7}$/],
+			['toll_free', /^800\d{5}$/],
+			['premium_rate', /^90\d{6}$/],
+			['landline', /^[1-9]\d{7}$/],
+		],
+		formats: [
+			[/^(4\d{2})(\d{2})(\d{2})(\d{2})$/, '0$1 $2 $3 $4'],
+			[/^([2349])(\d{3})(\d{2})(\d{2})$/, '0$1 $2 $3 $4'],
+			[/^(\d{2})(\d{2})(\d{2})(\d{2})$/, '0$1 $2 $3 $4'],
+		],
+	},
+	{
+		region: 'CH',
+		callingCode: '41',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^7[5-9]\d{7}$/],
+			['toll_free', /^800\d{6}$/],
+			['shared_cost', /^84[0248]\d{6}$/],
+			['premium_rate', /^90[016]\d{6}$/],
+			['landline', /^[2-6]\d{8}$/],
+		],
+		formats: [
+			[/^([89]\d{2})(\d{3})(\d{3})$/, '0$1 $2 $3'],
+			[/^(\d{2})(\d{3})(\d{2})(\d{2})$/, '0$1 $2 $3 $4'],
+		],
+	},
+	{
+		region: 'AT',
+		callingCode: '43',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^6[5-9]\d{7,11}$/],
+			['toll_free', /^800\d{6,10}$/],
+			['premium_rate', /^9[03]\d{6,10}$/],
+			['landline', /^[1-57]\d{3,12}$/],
+		],
+		formats: [
+			[/^(1)(\d{3,12})$/, '0$1 $2'],
+			[/^(6\d{2})(\d{4,10})$/, '0$1 $2'],
+		],
+	},
+	{
+		region: 'IE',
+		callingCode: '353',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^8[35-9]\d{7}$/],
+			['toll_free', /^1800\d{6}$/],
+			['premium_rate', /^15\d{8}$/],
+			['landline', /^[1-9]\d{6,8}$/],
+		],
+		formats: [
+			[/^(1800)(\d{3})(\d{3})$/, '$1 $2 $3'],
+			[/^(8\d)(\d{3})(\d{4})$/, '0$1 $2 $3'],
+			[/^(1)(\d{3})(\d{4})$/, '0$1 $2 $3'],
+			[/^(\d{2})(\d{3})(\d{4})$/, '0$1 $2 $3'],
+		],
+	},
+	{
+		region: 'PT',
+		callingCode: '351',
+		types: [
+			['mobile', /^9[1236]\d{7}$/],
+			['toll_free', /^800\d{6}$/],
+			['shared_cost', /^70[78]\d{6}$/],
+			['premium_rate', /^76\d{7}$/],
+			['landline', /^2\d{8}$/],
+		],
+		formats: [[/^(\d{3})(\d{3})(\d{3})$/, '$1 $2 $3']],
+	},
+	{
+		region: 'SE',
+		callingCode: '46',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^7[02369]\d{7}$/],
+			['toll_free', /^20\d{4,7}$/],
+			['premium_rate', /^9[039]\d{5,7}$/],
+			['landline', /^[1-68]\d{5,8}$/],
+		],
+		formats: [
+			[/^(7\d)(\d{3})(\d{2})(\d{2})$/, '0$1-$2 $3 $4'],
+			[/^(8)(\d{3})(\d{2})(\d{2,3})$/, '0$1-$2 $3 $4'],
+		],
+	},
+	{
+		region: 'NO',
+		callingCode: '47',
+		types: [
+			['mobile', /^[49]\d{7}$/],
+			['toll_free', /^80[01]\d{5}$/],
+			['premium_rate', /^82\d{6}$/],
+			['landline', /^[2-7]\d{7}$/],
+		],
+		formats: [
+			[/^([49]\d{2})(\d{2})(\d{3})$/, '$1 $2 $3'],
+			[/^(\d{2})(\d{2})(\d{2})(\d{2})$/, '$1 $2 $3 $4'],
+		],
+	},
+	{
+		region: 'DK',
+		callingCode: '45',
+		types: [
+			['mobile', /^(2\d|3[01]|4[0-2]|5\d|6[01]|71|81|9[1-3])\d{6}$/],
+			['toll_free', /^80\d{6}$/],
+			['premium_rate', /^90\d{6}$/],
+			['landline', /^[2-9]\d{7}$/],
+		],
+		formats: [[/^(\d{2})(\d{2})(\d{2})(\d{2})$/, '$1 $2 $3 $4']],
+	},
+	{
+		region: 'PL',
+		callingCode: '48',
+		types: [
+			['mobile', /^(45|5[0137]|6[069]|7[2389]|88)\d{7}$/],
+			['toll_free', /^800\d{6}$/],
+			['premium_rate', /^70\d{7}$/],
+			['landline', /^[1-9]\d{8}$/],
+		],
+		formats: [
+			[/^((?:45|5[0137]|6[069]|7[2389]|88|80)\d)(\d{3})(\d{3})$/, '$1 $2 $3'],
+			[/^(\d{2})(\d{3})(\d{2})(\d{2})$/, '$1 $2 $3 $4'],
+		],
+	},
+	{
+		region: 'AU',
+		callingCode: '61',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^4\d{8}$/],
+			['toll_free', /^1800\d{6}$/],
+			['shared_cost', /^13(00\d{6}|\d{4})$/],
+			['premium_rate', /^190\d{7}$/],
+			['landline', /^[2378]\d{8}$/],
+		],
+		formats: [
+			[/^(4\d{2})(\d{3})(\d{3})$/, '0$1 $2 $3'],
+			[/^([2378])(\d{4})(\d{4})$/, '(0$1) $2 $3'],
+			[/^(1[389]00)(\d{3})(\d{3})$/, '$1 $2 $3'],
+			[/^(13)(\d{2})(\d{2})$/, '$1 $2 $3'],
+		],
+	},
+	{
+		region: 'NZ',
+		callingCode: '64',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^2\d{7,9}$/],
+			['toll_free', /^80[08]\d{5,7}$/],
+			['premium_rate', /^90\d{6,7}$/],
+			['landline', /^[34679]\d{7}$/],
+		],
+		formats: [
+			[/^(\d)(\d{3})(\d{4})$/, '0$1 $2 $3'],
+			[/^(2\d)(\d{3})(\d{3,5})$/, '0$1 $2 $3'],
+			[/^(8\d{2})(\d{3})(\d{2,4})$/, '0$1 $2 $3'],
+		],
+	},
+	{
+		region: 'IN',
+		callingCode: '91',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^[6-9]\d{9}$/],
+			['toll_free', /^1800\d{6,7}$/],
+			['landline', /^[1-5]\d{9}$/],
+		],
+		formats: [
+			[/^(1800)(\d{3})(\d{3,4})$/, '$1 $2 $3'],
+			[/^([6-9]\d{4})(\d{5})$/, '0$1 $2'],
+			[/^(11|20|22|33|40|44|79|80)(\d{4})(\d{4})$/, '0$1 $2 $3'],
+			[/^(\d{3})(\d{3})(\d{4})$/, '0$1 $2 $3'],
+		],
+	},
+	{
+		region: 'SG',
+		callingCode: '65',
+		types: [
+			['mobile', /^[89]\d{7}$/],
+			['landline', /^6\d{7}$/],
+			['toll_free', /^1?800\d{7}$/],
+		],
+		formats: [
+			[/^(\d{4})(\d{4})$/, '$1 $2'],
+			[/^(1?800)(\d{3})(\d{4})$/, '$1 $2 $3'],
+		],
+	},
+	{
+		region: 'JP',
+		callingCode: '81',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^[789]0\d{8}$/],
+			['toll_free', /^(120\d{6}|800\d{7})$/],
+			['premium_rate', /^990\d{6}$/],
+			['landline', /^[1-9]\d{8}$/],
+		],
+		formats: [
+			[/^([789]0)(\d{4})(\d{4})$/, '0$1-$2-$3'],
+			[/^(120|990)(\d{3})(\d{3})$/, '0$1-$2-$3'],
+			[/^(800)(\d{3})(\d{4})$/, '0$1-$2-$3'],
+			[/^([36])(\d{4})(\d{4})$/, '0$1-$2-$3'],
+			[/^(\d{2})(\d{3})(\d{4})$/, '0$1-$2-$3'],
+		],
+	},
+	{
+		region: 'BR',
+		callingCode: '55',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^[1-9][1-9]9\d{8}$/],
+			['toll_free', /^800\d{6,7}$/],
+			['landline', /^[1-9][1-9][2-5]\d{7}$/],
+		],
+		formats: [
+			[/^(800)(\d{3})(\d{3,4})$/, '0$1 $2 $3'],
+			[/^(\d{2})(\d{4,5})(\d{4})$/, '($1) $2-$3'],
+		],
+	},
+	{
+		region: 'MX',
+		callingCode: '52',
+		types: [
+			['toll_free', /^800\d{7}$/],
+			['premium_rate', /^900\d{7}$/],
+			['landline_or_mobile', /^[1-9]\d{9}$/],
+		],
+		formats: [
+			[/^(33|55|56|81)(\d{4})(\d{4})$/, '$1 $2 $3'],
+			[/^(\d{3})(\d{3})(\d{4})$/, '$1 $2 $3'],
+		],
+	},
+	{
+		region: 'ZA',
+		callingCode: '27',
+		trunkPrefix: '0',
+		types: [
+			['mobile', /^(6\d|7\d|8[1-4])\d{7}$/],
+			['toll_free', /^80\d{7}$/],
+			['shared_cost', /^86\d{7}$/],
+			['landline', /^[1-5]\d{8}$/],
+		],
+		formats: [[/^(\d{2})(\d{3})(\d{4})$/, '0$1 $2 $3']],
+	},
+];
+
+// Country-code TLDs that differ from the ISO region code
+const TLD_REGIONS: Record<string, string> = { uk: 'GB' };
+
+// Languages spoken mainly in one of the supported countries
+const LANGUAGE_REGIONS: Record<string, string> = {
+	da: 'DK',
+	de: 'DE',
+	fr: 'FR',
+	it: 'IT',
+	ja: 'JP',
+	nb: 'NO',
+	nl: 'NL',
+	nn: 'NO',
+	no: 'NO',
+	pl: 'PL',
+	sv: 'SE',
+};
+
+// Region for national numbers when the page gives no hint
+const FALLBACK_REGION = 'US';
+
+// Runs of digits and separators that could be a phone number
+const PHONE_CANDIDATE_REGEX = /(?<![\w.,])(?:\+|\b00)?\(?\d[\d \t\u00a0()./-]{5,40}\d(?![\w]|[.,]\d)/g;
+
+// Labels that announce a number, also as word prefixes ("Telefonnummer");
+// fax numbers are not callable and are skipped
+const PHONE_LABEL_REGEX = /\b(fax|t[ée]l[ée]phone|tel(?:ephone|efon)?|phone|call|mobile?|cell|hotline|whatsapp)/gi;
+
+// Text right before a number that makes it a price, date or identifier
+const NON_PHONE_CONTEXT =
+	/([$€£¥₹]|\b(usd|eur|gbp|order|invoice|ref|reference|sku|isbn|ean|gtin|iban|vat|account|acct|tracking|serial|item|article|model|zip|postcode|id|no)\.?\s*[:#]?|(nr|nummer|number)\.?\s*:?|#)\s*$/i;
+
+/**
+ * Inputs for phone number extraction.
+ */
+export interface PhoneExtractionInput {
+	/** Page HTML, searched for tel: links */
+	html?: string;
+	/** Visible text of the page */
+	text: string;
+	/** Telephone values from structured data */
+	structured?: string[];
+	/** Region for numbers written without a country code */
+	defaultRegion?: string;
+}
+
+/**
+ * Find the phone numbers of a page.
+ *
+ * tel: links come first, then structured data, then numbers in the text.
+ * Text matches are dropped when they sit next to a currency sign or an
+ * order, invoice or reference label, look like dates or thousands, or are
+ * labelled as fax. Numbers without a country code are read with the
+ * default region's rules and, unless labelled as a phone, must be written
+ * with separators. Every number must fit its country's numbering plan;
+ * duplicates are merged by E.164.
+ *
+ * @param {PhoneExtractionInput} input - Page HTML, text and structured data telephones
+ * @returns {PhoneNumber[]} Unique phone numbers, tel: links first
+ */
+export function extractPhoneNumbers(input: PhoneExtractionInput): PhoneNumber[] {
+	const region = input.defaultRegion || FALLBACK_REGION;
+	const phones = new Map<string, PhoneNumber>();
+	const add = (raw: string, source: PhoneNumber['source']) => {
+		const parsed = parsePhoneNumber(raw, region);
+		if (parsed && !phones.has(parsed.e164)) {
+			phones.set(parsed.e164, { ...parsed, source, raw: raw.trim() });
+		}
+	};
+
+	if (input.html && /href\s*=\s*["']?\s*tel:/i.test(input.html)) {
+		const $ = cheerio.load(input.html);
+		$('a[href]').each((_, element) => {
+			const href = $(element).attr('href')?.trim() || '';
+			if (/^tel:/i.test(href)) add(safeDecode(href.slice(4)), 'tel_link');
+		});
+	}
+
+	for (const value of input.structured || []) {
+		add(value, 'structured_data');
+	}
+
+	for (const raw of findPhoneCandidates(input.text || '', region)) {
+		add(raw, 'text');
+	}
+
+	return [...phones.values()];
+}
+
+/**
+ * Parse a phone number with the numbering rules of its country.
+ *
+ * Accepts "+", "00" and (in North America) "011" international prefixes,
+ * "(0)" trunk prefixes written after the country code, and drops
+ * extensions. Numbers with an unsupported calling code are kept in E.164
+ * with an unknown type.
+ *
+ * @param {string} raw - Number as written
+ * @param {string} [defaultRegion] - Region for numbers without a country code
+ * @returns {Omit<PhoneNumber, 'source' | 'raw'> | undefined} Parsed number, or undefined if it is not a valid number
+ */
+export function parsePhoneNumber(raw: string, defaultRegion: string = FALLBACK_REGION): Omit<PhoneNumber, 'source' | 'raw'> | undefined {
+	const value = raw
+		.trim()
+		.replace(/^tel:/i, '')
+		// Extensions are dialled after connecting
+		.replace(/\s*(;ext=|ext\.?|extension|x|#)\s*\d{1,6}$/i, '')
+		// "+44 (0)20 ..." shows the trunk prefix for national callers
+		.replace(/^(\+\s*\d{1,3})[\s.-]*\(0\)/, '$1');
+	if (/[a-z]/i.test(value)) return undefined;
+
+	const digits = value.replace(/\D/g, '');
+	const defaultRule = findRule(defaultRegion);
+
+	let international: string | undefined;
+	if (value.startsWith('+')) international = digits;
+	else if (digits.startsWith('00')) international = digits.slice(2);
+	else if (digits.startsWith('011') && defaultRule?.callingCode === '1') international = digits.slice(3);
+
+	if (international === undefined) {
+		if (!defaultRule) return undefined;
+		let nsn = digits;
+		const trunk = defaultRule.trunkPrefix;
+		// The NANP trunk prefix is only present on 11-digit numbers
+		if (trunk && nsn.startsWith(trunk) && (defaultRule.callingCode !== '1' || nsn.length === 11)) {
+			nsn = nsn.slice(trunk.length);
+		}
+		return buildNumber(defaultRule, nsn);
+	}
+
+	for (let length = 1; length <= 3; length++) {
+		const callingCode = international.slice(0, length);
+		const rules = COUNTRY_RULES.filter((rule) => rule.callingCode === callingCode);
+		if (rules.length === 0) continue;
+
+		const rule = rules.find((candidate) => candidate.region === defaultRule?.region) || rules[0];
+		const nsn = international.slice(length);
+		return (
+			buildNumber(rule, nsn) ||
+			// Some sites write the trunk prefix after the country code
+			(rule.trunkPrefix && nsn.startsWith(rule.trunkPrefix)
+				? buildNumber(rule, nsn.slice(rule.trunkPrefix.length))
+				: undefined)
+		);
+	}
+
+	if (international.length < 8 || international.length > 15) return undefined;
+	return { e164: `+${international}`, national: value, type: 'unknown' };
+}
+
+/**
+ * Guess the region of a page's phone numbers from its TLD, then its
+ * language tag (html lang, Content-Language).
+ *
+ * @param {string} url - Page URL
+ * @param {string} [html] - Page HTML
+ * @returns {string | undefined} ISO 3166-1 alpha-2 region with numbering rules, if one can be inferred
+ */
+export function getDefaultRegion(url: string, html?: string): string | undefined {
+	try {
+		const tld = new URL(url).hostname.split('.').pop()?.toLowerCase() || '';
+		const region = TLD_REGIONS[tld] || tld.toUpperCase();
+		if (tld.length === 2 && findRule(region)) return region;
+	} catch {
+		// Fall through to the language tag
+	}
+
+	if (!html) return undefined;
+	const lang =
+		/<html[^>]*\slang\s*=\s*["']?([a-z]{2,3}(?:[-_][a-z0-9]+)*)/i.exec(html)?.[1] ||
+		/<meta[^>]+http-equiv\s*=\s*["']?content-language["']?[^>]+content\s*=\s*["']?([a-z]{2,3}(?:[-_][a-z0-9]+)*)/i.exec(html)?.[1];
+	if (!lang) return undefined;
+
+	const [language, subtag] = lang.toLowerCase().split(/[-_]/);
+	if (subtag && subtag.length === 2) {
+		const region = subtag.toUpperCase();
+		if (findRule(region)) return region;
+	}
+	return LANGUAGE_REGIONS[language];
+}
+
+/**
+ * Find the numbering rules of a region.
+ */
+function findRule(region?: string): CountryRule | undefined {
+	return region ? COUNTRY_RULES.find((rule) => rule.region === region.toUpperCase()) : undefined;
+}
+
+/**
+ * Classify and format a national significant number; undefined if it fits no type.
+ */
+function buildNumber(rule: CountryRule, nsn: string): Omit<PhoneNumber, 'source' | 'raw'> | undefined {
+	const type = rule.types.find(([, pattern]) => pattern.test(nsn))?.[0];
+	if (!type) return undefined;
+
+	const format = rule.formats.find(([pattern]) => pattern.test(nsn));
+	return {
+		e164: `+${rule.callingCode}${nsn}`,
+		national: format ? nsn.replace(format[0], format[1]) : `${rule.trunkPrefix || ''}${nsn}`,
+		// NANP countries share +1; geographic numbers are placed by area code
+		country:
+			rule.callingCode === '1' && type === 'landline_or_mobile'
+				? NANP_AREA_REGIONS[nsn.slice(0, 3)] || 'US'
+				: rule.region,
+		type,
+	};
+}
+
+/**
+ * Find phone-like runs in text that parse as valid numbers.
+ *
+ * A run that doesn't parse as a whole (e.g. a zip code followed by a
+ * number) is split at its spaces and the longest valid pieces are kept.
+ */
+function findPhoneCandidates(text: string, region: string): string[] {
+	const found: string[] = [];
+
+	for (const match of text.matchAll(PHONE_CANDIDATE_REGEX)) {
+		const groups = match[0].trim().split(/[ \t\u00a0]+/);
+		let start = 0;
+		while (start < groups.length) {
+			let end = groups.length;
+			for (; end > start; end--) {
+				const candidate = groups
+					.slice(start, end)
+					.join(' ')
+					.replace(/^[^\d+(]+|[^\d)]+$/g, '');
+				const before = text.slice(0, match.index) + groups.slice(0, start).join(' ');
+				if (isPhoneCandidate(candidate, before, region)) {
+					found.push(candidate);
+					break;
+				}
+			}
+			start = end > start ? end : start + 1;
+		}
+	}
+
+	return found;
+}
+
+/**
+ * Check a run of digits in its context: not a price, date, identifier or
+ * fax number, and a valid number for its country.
+ */
+function isPhoneCandidate(candidate: string, before: string, region: string): boolean {
+	const digits = candidate.replace(/\D/g, '');
+	if (digits.length < 7 || digits.length > 15) return false;
+
+	// Dates, year ranges and thousands
+	if (/^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$/.test(candidate)) return false;
+	if (/^(19|20)\d{2}\s*[-/]\s*(19|20)\d{2}$/.test(candidate)) return false;
+	if (/^\d{1,3}([.,]\d{3})+$/.test(candidate)) return false;
+
+	// Only the text since the previous number can label this one
+	const context = before.slice(-30).replace(/^[\s\S]*\d/, '');
+	const labels = context.match(PHONE_LABEL_REGEX);
+	const label = labels ? labels[labels.length - 1].toLowerCase() : undefined;
+	if (label === 'fax') return false;
+	if (!label && NON_PHONE_CONTEXT.test(context)) return false;
+
+	const international = /^(\+|00)/.test(candidate);
+	const formatted = /[\s()./-]/.test(candidate);
+	if (!international && !formatted && !label) return false;
+
+	return parsePhoneNumber(candidate, region) !== undefined;
+}
+
+/**
+ * Decode a percent-encoded tel: link, keeping it as is if malformed.
+ */
+function safeDecode(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
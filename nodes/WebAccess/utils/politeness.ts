@@ -0,0 +1,381 @@
+/**
+ * Politeness layer for Web Access node
+ * Per-host rate limiting (token bucket), robots.txt compliance and crawl delay
+ */
+
+/* eslint-disable @n8n/community-nodes/no-restricted-globals -- setTimeout needed to space out requests */
+
+import type { PolitenessOptions } from './types';
+import { safeFetch } from './network';
+import {
+	DEFAULT_HOST_BURST,
+	DEFAULT_HOST_REQUESTS_PER_SECOND,
+	DEFAULT_USER_AGENT,
+	MAX_CRAWL_DELAY,
+	MAX_HOST_BUCKETS,
+	MAX_ROBOTS_CACHE_ENTRIES,
+	ROBOTS_CACHE_TTL,
+	ROBOTS_TIMEOUT,
+} from './config';
+
+/**
+ * A single Allow/Disallow rule from robots.txt.
+ */
+interface RobotsRule {
+	allow: boolean;
+	path: string;
+}
+
+/**
+ * Rules that apply to one group of user agents.
+ */
+interface RobotsGroup {
+	agents: string[];
+	rules: RobotsRule[];
+	/** Crawl-delay in seconds */
+	crawlDelay?: number;
+}
+
+/**
+ * Parsed robots.txt for an origin.
+ */
+interface RobotsPolicy {
+	groups: RobotsGroup[];
+	/** Set when robots.txt was unreachable (5xx) and everything is disallowed */
+	disallowAll?: boolean;
+	fetchedAt: number;
+}
+
+/**
+ * Result of checking a URL against robots.txt.
+ */
+export interface RobotsCheck {
+	allowed: boolean;
+	/** Crawl-delay in seconds for our user agent, if set */
+	crawlDelay?: number;
+	/** Why the URL is blocked */
+	reason?: string;
+}
+
+/**
+ * Token bucket state for one host.
+ */
+interface HostBucket {
+	tokens: number;
+	updatedAt: number;
+	lastRequestAt: number;
+	/** Tail of the queue of waiting requests, so waiters are served in order */
+	queue: Promise<void>;
+}
+
+// robots.txt cache keyed by origin (includes in-flight fetches), oldest first
+const robotsCache = new Map<string, Promise<RobotsPolicy>>();
+
+// Token buckets keyed by hostname
+const hostBuckets = new Map<string, HostBucket>();
+
+/**
+ * Check whether robots.txt allows fetching a URL.
+ *
+ * robots.txt is fetched once per origin and cached. Per RFC 9309, a 4xx
+ * response means everything is allowed and a 5xx response means everything
+ * is disallowed; network errors are treated as allowed.
+ *
+ * @param {string} url - URL to check
+ * @param {string} [userAgent] - User agent whose product token selects the robots group
+ * @returns {Promise<RobotsCheck>} Whether the URL is allowed, plus any crawl delay
+ */
+export async function checkRobotsTxt(url: string, userAgent?: string): Promise<RobotsCheck> {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return { allowed: true };
+	}
+
+	const policy = await getRobotsPolicy(parsed.origin, userAgent);
+	if (policy.disallowAll) {
+		return { allowed: false, reason: 'robots.txt is unavailable (server error), all paths disallowed' };
+	}
+
+	const group = selectGroup(policy.groups, getProductToken(userAgent));
+	if (!group) {
+		return { allowed: true };
+	}
+
+	const path = `${parsed.pathname}${parsed.search}`;
+	const allowed = isPathAllowed(group.rules, path);
+	return {
+		allowed,
+		crawlDelay: group.crawlDelay,
+		reason: allowed ? undefined : `Disallowed by robots.txt for ${parsed.origin}`,
+	};
+}
+
+/**
+ * Drop URLs that robots.txt disallows.
+ *
+ * @param {string[]} urls - Candidate URLs
+ * @param {PolitenessOptions} options - Politeness options; a no-op when robots.txt is not respected
+ * @returns {Promise<string[]>} Allowed URLs, in input order
+ */
+export async function filterByRobotsTxt(urls: string[], options: PolitenessOptions = {}): Promise<string[]> {
+	if (options.respectRobotsTxt === false) {
+		return urls;
+	}
+
+	const checks = await Promise.all(urls.map((url) => checkRobotsTxt(url, options.userAgent)));
+	return urls.filter((_, index) => checks[index].allowed);
+}
+
+/**
+ * Wait until a request to the URL's host fits its token bucket and crawl delay.
+ *
+ * Call before every request to a host. Concurrent callers for the same
+ * host are served in order.
+ *
+ * @param {string} url - URL about to be requested
+ * @param {PolitenessOptions} options - Rate options
+ * @param {number} [crawlDelay] - Crawl-delay from robots.txt, in seconds
+ * @returns {Promise<void>} Resolves when the request may be sent
+ */
+export async function waitForHostSlot(url: string, options: PolitenessOptions, crawlDelay?: number): Promise<void> {
+	let host: string;
+	try {
+		host = new URL(url).hostname.toLowerCase();
+	} catch {
+		return;
+	}
+
+	const rate = options.requestsPerSecond || DEFAULT_HOST_REQUESTS_PER_SECOND;
+	const burst = Math.max(1, options.burst || DEFAULT_HOST_BURST);
+	const minInterval = crawlDelay ? Math.min(crawlDelay, MAX_CRAWL_DELAY) * 1000 : 0;
+
+	let bucket = hostBuckets.get(host);
+	if (!bucket) {
+		if (hostBuckets.size >= MAX_HOST_BUCKETS) {
+			evictHostBuckets();
+		}
+		bucket = { tokens: burst, updatedAt: Date.now(), lastRequestAt: 0, queue: Promise.resolve() };
+		hostBuckets.set(host, bucket);
+	}
+
+	const state = bucket;
+	const turn = state.queue.then(async () => {
+		refill(state, rate, burst);
+		if (state.tokens < 1) {
+			await sleep(((1 - state.tokens) / rate) * 1000);
+			refill(state, rate, burst);
+		}
+
+		const sinceLast = Date.now() - state.lastRequestAt;
+		if (minInterval > 0 && sinceLast < minInterval) {
+			await sleep(minInterval - sinceLast);
+			refill(state, rate, burst);
+		}
+
+		state.tokens = Math.max(0, state.tokens - 1);
+		state.lastRequestAt = Date.now();
+	});
+	state.queue = turn;
+
+	await turn;
+}
+
+/**
+ * Make room for a new host: drop buckets idle for longer than the maximum
+ * crawl delay (a fresh bucket would behave the same), then the oldest.
+ */
+function evictHostBuckets(): void {
+	const idleSince = Date.now() - MAX_CRAWL_DELAY * 1000;
+	for (const [host, bucket] of hostBuckets) {
+		if (bucket.lastRequestAt < idleSince) hostBuckets.delete(host);
+	}
+	for (const host of hostBuckets.keys()) {
+		if (hostBuckets.size < MAX_HOST_BUCKETS) break;
+		hostBuckets.delete(host);
+	}
+}
+
+/**
+ * Add tokens for the time elapsed since the last refill.
+ */
+function refill(bucket: HostBucket, rate: number, burst: number): void {
+	const now = Date.now();
+	bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * rate);
+	bucket.updatedAt = now;
+}
+
+/**
+ * Resolve after the given number of milliseconds.
+ */
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Get the cached robots policy for an origin, fetching it if needed.
+ */
+async function getRobotsPolicy(origin: string, userAgent?: string): Promise<RobotsPolicy> {
+	const cached = robotsCache.get(origin);
+	if (cached) {
+		const policy = await cached;
+		if (Date.now() - policy.fetchedAt < ROBOTS_CACHE_TTL) {
+			return policy;
+		}
+	}
+
+	const pending = fetchRobotsPolicy(origin, userAgent);
+	robotsCache.delete(origin);
+	robotsCache.set(origin, pending);
+	while (robotsCache.size > MAX_ROBOTS_CACHE_ENTRIES) {
+		const oldest = robotsCache.keys().next().value;
+		if (oldest === undefined) break;
+		robotsCache.delete(oldest);
+	}
+	return pending;
+}
+
+/**
+ * Fetch and parse robots.txt for an origin.
+ */
+async function fetchRobotsPolicy(origin: string, userAgent?: string): Promise<RobotsPolicy> {
+	try {
+		const response = await safeFetch(`${origin}/robots.txt`, {
+			headers: { 'User-Agent': userAgent || DEFAULT_USER_AGENT },
+			signal: AbortSignal.timeout(ROBOTS_TIMEOUT),
+		});
+
+		if (response.status >= 500) {
+			return { groups: [], disallowAll: true, fetchedAt: Date.now() };
+		}
+		if (!response.ok) {
+			return { groups: [], fetchedAt: Date.now() };
+		}
+
+		return { groups: parseRobotsTxt(await response.text()), fetchedAt: Date.now() };
+	} catch {
+		return { groups: [], fetchedAt: Date.now() };
+	}
+}
+
+/**
+ * Parse robots.txt into user-agent groups.
+ * Consecutive User-agent lines share the rules that follow them.
+ */
+function parseRobotsTxt(content: string): RobotsGroup[] {
+	const groups: RobotsGroup[] = [];
+	let current: RobotsGroup | null = null;
+	let lastWasAgent = false;
+
+	for (const rawLine of content.split(/\r?\n/)) {
+		const line = rawLine.replace(/#.*$/, '').trim();
+		const separator = line.indexOf(':');
+		if (separator === -1) continue;
+
+		const field = line.slice(0, separator).trim().toLowerCase();
+		const value = line.slice(separator + 1).trim();
+
+		if (field === 'user-agent') {
+			if (!current || !lastWasAgent) {
+				current = { agents: [], rules: [] };
+				groups.push(current);
+			}
+			current.agents.push(getProductToken(value));
+			lastWasAgent = true;
+			continue;
+		}
+
+		lastWasAgent = false;
+		if (!current) continue;
+
+		if (field === 'allow' || field === 'disallow') {
+			// An empty Disallow allows everything, so it adds no rule
+			if (value) {
+				current.rules.push({ allow: field === 'allow', path: value });
+			}
+		} else if (field === 'crawl-delay') {
+			const delay = parseFloat(value);
+			if (!isNaN(delay) && delay >= 0) {
+				current.crawlDelay = delay;
+			}
+		}
+	}
+
+	return groups;
+}
+
+/**
+ * Get the robots.txt product token from a user agent ("AcmeBot/1.0" → "acmebot").
+ */
+function getProductToken(userAgent?: string): string {
+	return (userAgent || '').trim().split(/[\s/]/)[0].toLowerCase();
+}
+
+/**
+ * Pick the group whose user agent equals our product token (ignoring case,
+ * per RFC 9309), falling back to the "*" group.
+ */
+function selectGroup(groups: RobotsGroup[], token: string): RobotsGroup | undefined {
+	if (token) {
+		const matching = groups.filter((group) => group.agents.some((agent) => agent === token));
+		if (matching.length > 0) {
+			return mergeGroups(matching);
+		}
+	}
+
+	const wildcard = groups.filter((group) => group.agents.includes('*'));
+	return wildcard.length > 0 ? mergeGroups(wildcard) : undefined;
+}
+
+/**
+ * Combine groups that name the same agent.
+ */
+function mergeGroups(groups: RobotsGroup[]): RobotsGroup {
+	const delays = groups.map((group) => group.crawlDelay).filter((delay): delay is number => delay !== undefined);
+	return {
+		agents: groups.flatMap((group) => group.agents),
+		rules: groups.flatMap((group) => group.rules),
+		crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined,
+	};
+}
+
+/**
+ * Apply the longest matching rule; Allow wins ties. No match means allowed.
+ */
+function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+	let best: RobotsRule | undefined;
+	for (const rule of rules) {
+		if (!matchesRobotsPath(rule.path, path)) continue;
+		if (
+			!best ||
+			rule.path.length > best.path.length ||
+			(rule.path.length === best.path.length && rule.allow)
+		) {
+			best = rule;
+		}
+	}
+	return best ? best.allow : true;
+}
+
+/**
+ * Match a path against a robots.txt pattern with "*" and "$" wildcards.
+ */
+function matchesRobotsPath(pattern: string, path: string): boolean {
+	const anchored = pattern.endsWith('$');
+	const body = anchored ? pattern.slice(0, -1) : pattern;
+	const regex = body
+		.split('*')
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*');
+
+	let decodedPath = path;
+	try {
+		decodedPath = decodeURIComponent(path);
+	} catch {
+		// Keep the raw path if it has invalid escapes
+	}
+
+	const matcher = new RegExp(`^${regex}${anchored ? '$' : ''}`);
+	return matcher.test(path) || matcher.test(decodedPath);
+}
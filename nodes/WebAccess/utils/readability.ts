@@ -0,0 +1,180 @@
+/**
+ * Main content extraction for Web Access node
+ * Readability-style boilerplate removal: drops navigation, footers, cookie
+ * banners and sidebars, then picks the block with the densest text
+ */
+
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for HTML parsing in self-hosted deployments
+import * as cheerio from 'cheerio';
+
+// Elements that never hold main content
+const REMOVED_SELECTORS = [
+	'script',
+	'style',
+	'noscript',
+	'iframe',
+	'svg',
+	'template',
+	'dialog',
+	'nav',
+	'aside',
+	'footer',
+	'[hidden]',
+	'[aria-hidden="true"]',
+	'[style*="display:none"]',
+	'[style*="display: none"]',
+	'[role="navigation"]',
+	'[role="banner"]',
+	'[role="contentinfo"]',
+	'[role="complementary"]',
+	'[role="dialog"]',
+].join(', ');
+
+// Class or id tokens of boilerplate blocks
+const BOILERPLATE_PATTERN =
+	/(^|[-_])(nav|navbar|navigation|menu|header|footer|sidebar|cookies?|consent|gdpr|banner|newsletter|subscribe|popup|modal|share|sharing|social|related|breadcrumbs?|comments?|ads?|advert\w*|promo|sponsor\w*|widget|skip)([-_]|$)/i;
+
+// Class or id tokens of content blocks
+const CONTENT_PATTERN = /(^|[-_])(article|content|main|post|entry|story|body|text|blog)([-_]|$)/i;
+
+// Tag weights from Readability: containers of prose score up, lists and headings down
+const TAG_WEIGHTS: Record<string, number> = {
+	article: 25,
+	main: 25,
+	div: 5,
+	section: 5,
+	pre: 3,
+	td: 3,
+	blockquote: 3,
+	address: -3,
+	ol: -3,
+	ul: -3,
+	dl: -3,
+	li: -3,
+	form: -3,
+	th: -5,
+};
+
+// Paragraphs shorter than this don't vote for their container
+const MIN_PARAGRAPH_LENGTH = 25;
+
+// Blocks with a boilerplate class or id are only removed when they are
+// this short or mostly links; "layout-with-sidebar" may wrap the whole page
+const MAX_BOILERPLATE_TEXT_LENGTH = 500;
+const MIN_BOILERPLATE_LINK_DENSITY = 0.5;
+
+// Cheerio selection of page elements
+type Selection = ReturnType<ReturnType<typeof cheerio.load>>;
+
+/**
+ * Extract the main content of a page.
+ *
+ * Removes boilerplate by semantic tag (nav, aside, footer, ARIA roles) and
+ * by class or id (cookie banners, menus, share bars, comments); blocks
+ * matched by class or id are kept if they hold much text that isn't
+ * links, as Readability does for its unlikely candidates. Each
+ * paragraph then scores its parent and grandparent by length and commas;
+ * containers are weighted by tag, class and role and scaled down by their
+ * link density. The best container is returned with sibling blocks that
+ * also look like content.
+ *
+ * @param {string} html - Page HTML
+ * @returns {string} HTML of the main content, or the cleaned body if no container stands out
+ */
+export function extractMainContent(html: string): string {
+	if (!html) return '';
+
+	const $ = cheerio.load(html);
+	$(REMOVED_SELECTORS).remove();
+	// Page headers hold the logo and menu; article headers hold the title
+	$('header')
+		.filter((_, element) => $(element).closest('article, main, [role="main"]').length === 0)
+		.remove();
+	$('[class], [id]').each((_, element) => {
+		const $element = $(element);
+		if ($element.is('html, body, main, article, [role="main"]')) return;
+		const tokens = `${$element.attr('class') || ''} ${$element.attr('id') || ''}`.split(/\s+/).filter(Boolean);
+		if (!tokens.some((token) => BOILERPLATE_PATTERN.test(token)) || tokens.some((token) => CONTENT_PATTERN.test(token))) {
+			return;
+		}
+		const length = $element.text().replace(/\s+/g, ' ').trim().length;
+		if (length < MAX_BOILERPLATE_TEXT_LENGTH || getLinkDensity($element) >= MIN_BOILERPLATE_LINK_DENSITY) {
+			$element.remove();
+		}
+	});
+
+	const candidates = new Map<unknown, { element: Selection; score: number }>();
+	const addScore = (element: Selection, score: number) => {
+		const node = element.get(0);
+		if (!node || element.is('html, body')) return;
+		const candidate = candidates.get(node) || { element, score: getInitialScore(element) };
+		candidate.score += score;
+		candidates.set(node, candidate);
+	};
+
+	// Paragraphs vote for their containers
+	$('p, pre, td, blockquote, div')
+		.filter((_, element) => !$(element).is('div') || $(element).children('p, div, table, ul, ol, pre, blockquote').length === 0)
+		.each((_, element) => {
+			const text = $(element).text().replace(/\s+/g, ' ').trim();
+			if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+			// One point, plus one per comma and per 100 characters (up to 3)
+			const score = text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+			addScore($(element).parent(), score);
+			addScore($(element).parent().parent(), score / 2);
+		});
+
+	let best: { element: Selection; score: number } | undefined;
+	for (const candidate of candidates.values()) {
+		candidate.score *= 1 - getLinkDensity(candidate.element);
+		if (!best || candidate.score > best.score) best = candidate;
+	}
+
+	if (!best) {
+		return $('body').html() || $.root().html() || '';
+	}
+
+	// Articles are sometimes split across sibling blocks
+	const bestNode = best.element.get(0);
+	const threshold = Math.max(10, best.score * 0.2);
+	const blocks = best.element
+		.parent()
+		.children()
+		.filter((_, sibling) => {
+			if (sibling === bestNode) return true;
+			const candidate = candidates.get(sibling);
+			if (candidate && candidate.score >= threshold) return true;
+			const text = $(sibling).text().replace(/\s+/g, ' ').trim();
+			return $(sibling).is('p') && text.length > 80 && getLinkDensity($(sibling)) < 0.25;
+		});
+
+	return blocks
+		.toArray()
+		.map((block) => $.html(block))
+		.join('\n');
+}
+
+/**
+ * Starting score of a container from its tag, role, class and id.
+ */
+function getInitialScore(element: Selection): number {
+	const tag = (element.prop('tagName') || '').toLowerCase();
+	let score = TAG_WEIGHTS[tag] || 0;
+	if (element.attr('role') === 'main' || element.attr('itemprop') === 'articleBody') score += 25;
+
+	const tokens = `${element.attr('class') || ''} ${element.attr('id') || ''}`.split(/\s+/).filter(Boolean);
+	if (tokens.some((token) => CONTENT_PATTERN.test(token))) score += 25;
+	if (tokens.some((token) => BOILERPLATE_PATTERN.test(token))) score -= 25;
+	return score;
+}
+
+/**
+ * Share of an element's text that is link text (0-1).
+ */
+function getLinkDensity(element: Selection): number {
+	const length = element.text().replace(/\s+/g, ' ').trim().length;
+	if (length === 0) return 1;
+	const linkLength = element.find('a').text().replace(/\s+/g, ' ').trim().length;
+	return Math.min(linkLength / length, 1);
+}
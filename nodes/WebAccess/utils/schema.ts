@@ -0,0 +1,204 @@
+/**
+ * JSON Schema utilities for Web Access node
+ * Parses user-supplied output schemas and validates results against them
+ *
+ * Supports the commonly used subset of JSON Schema: type, properties,
+ * required, additionalProperties, items, enum, const, string/number/array
+ * bounds, pattern, and allOf/anyOf/oneOf.
+ */
+
+/**
+ * JSON Schema (supported subset).
+ */
+export interface JsonSchema {
+	type?: JsonSchemaType | JsonSchemaType[];
+	description?: string;
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	additionalProperties?: boolean | JsonSchema;
+	items?: JsonSchema;
+	enum?: unknown[];
+	const?: unknown;
+	minLength?: number;
+	maxLength?: number;
+	pattern?: string;
+	minimum?: number;
+	maximum?: number;
+	minItems?: number;
+	maxItems?: number;
+	allOf?: JsonSchema[];
+	anyOf?: JsonSchema[];
+	oneOf?: JsonSchema[];
+}
+
+/**
+ * JSON Schema primitive type names.
+ */
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * Result of validating a value against a schema.
+ */
+export interface SchemaValidationResult {
+	valid: boolean;
+	errors: string[];
+}
+
+/**
+ * Parse an output schema from a node parameter value.
+ *
+ * Accepts a JSON string or an already-parsed object. Empty input means
+ * no schema.
+ *
+ * @param {unknown} input - Schema as JSON string or object
+ * @returns {JsonSchema | undefined} Parsed schema, or undefined if empty
+ * @throws {Error} If the input is not valid JSON or not a schema object
+ */
+export function parseOutputSchema(input: unknown): JsonSchema | undefined {
+	if (input === undefined || input === null) return undefined;
+
+	let schema: unknown = input;
+	if (typeof input === 'string') {
+		if (!input.trim()) return undefined;
+		try {
+			schema = JSON.parse(input);
+		} catch (error) {
+			throw new Error(`Output Schema is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+		throw new Error('Output Schema must be a JSON Schema object');
+	}
+	if (Object.keys(schema).length === 0) return undefined;
+
+	return schema as JsonSchema;
+}
+
+/**
+ * Validate a value against a JSON Schema.
+ *
+ * @param {unknown} value - Value to validate
+ * @param {JsonSchema} schema - Schema to validate against
+ * @returns {SchemaValidationResult} Validation result with JSON-pointer-style error paths
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): SchemaValidationResult {
+	const errors: string[] = [];
+	validateNode(value, schema, '$', errors);
+	return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Get the JSON Schema type name of a value.
+ */
+function getJsonType(value: unknown): JsonSchemaType {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+	return typeof value as JsonSchemaType;
+}
+
+/**
+ * Check whether a value matches one of the allowed types.
+ */
+function matchesType(value: unknown, types: JsonSchemaType[]): boolean {
+	const actual = getJsonType(value);
+	return types.some((type) => type === actual || (type === 'number' && actual === 'integer'));
+}
+
+/**
+ * Recursively validate a value, collecting errors.
+ */
+function validateNode(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!matchesType(value, types)) {
+			errors.push(`${path}: expected ${types.join(' or ')}, got ${getJsonType(value)}`);
+			return;
+		}
+	}
+
+	if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+		errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+	}
+
+	if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+		errors.push(`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+	}
+
+	if (typeof value === 'string') {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			errors.push(`${path}: must be at least ${schema.minLength} characters`);
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+		}
+		if (schema.pattern !== undefined) {
+			try {
+				if (!new RegExp(schema.pattern).test(value)) {
+					errors.push(`${path}: must match pattern ${schema.pattern}`);
+				}
+			} catch {
+				errors.push(`${path}: schema pattern ${schema.pattern} is not a valid regular expression`);
+			}
+		}
+	}
+
+	if (typeof value === 'number') {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			errors.push(`${path}: must be >= ${schema.minimum}`);
+		}
+		if (schema.maximum !== undefined && value > schema.maximum) {
+			errors.push(`${path}: must be <= ${schema.maximum}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			errors.push(`${path}: must have at least ${schema.minItems} items`);
+		}
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			errors.push(`${path}: must have at most ${schema.maxItems} items`);
+		}
+		if (schema.items) {
+			value.forEach((item, index) => validateNode(item, schema.items as JsonSchema, `${path}[${index}]`, errors));
+		}
+	}
+
+	if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+		const obj = value as Record<string, unknown>;
+		for (const key of schema.required || []) {
+			if (obj[key] === undefined) {
+				errors.push(`${path}.${key}: is required`);
+			}
+		}
+		for (const [key, propValue] of Object.entries(obj)) {
+			const propSchema = schema.properties?.[key];
+			if (propSchema) {
+				validateNode(propValue, propSchema, `${path}.${key}`, errors);
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}.${key}: is not allowed`);
+			} else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+				validateNode(propValue, schema.additionalProperties, `${path}.${key}`, errors);
+			}
+		}
+	}
+
+	if (schema.allOf) {
+		schema.allOf.forEach((subSchema) => validateNode(value, subSchema, path, errors));
+	}
+
+	if (schema.anyOf) {
+		const matches = schema.anyOf.some((subSchema) => validateAgainstSchema(value, subSchema).valid);
+		if (!matches) {
+			errors.push(`${path}: must match at least one schema in anyOf`);
+		}
+	}
+
+	if (schema.oneOf) {
+		const matchCount = schema.oneOf.filter((subSchema) => validateAgainstSchema(value, subSchema).valid).length;
+		if (matchCount !== 1) {
+			errors.push(`${path}: must match exactly one schema in oneOf (matched ${matchCount})`);
+		}
+	}
+}
@@ -0,0 +1,344 @@
+/**
+ * Request sessions for Web Access node
+ * Custom headers and cookies for the target sites, plus a cookie jar shared
+ * by HTTP, Puppeteer and FlareSolverr so logins carry across fetches
+ */
+
+import type { SessionCookie } from './types';
+
+// Second-level labels under which country registries sell domains (example.co.uk)
+const REGISTRY_SECOND_LEVEL_LABELS = new Set(['ac', 'co', 'com', 'edu', 'gob', 'gov', 'go', 'ltd', 'me', 'mil', 'ne', 'net', 'nom', 'or', 'org', 'plc', 'sch']);
+
+// Hosting domains whose subdomains belong to different owners
+const SHARED_HOSTING_SUFFIXES = new Set([
+	'amazonaws.com',
+	'appspot.com',
+	'azurewebsites.net',
+	'blogspot.com',
+	'cloudfront.net',
+	'firebaseapp.com',
+	'github.io',
+	'gitlab.io',
+	'herokuapp.com',
+	'netlify.app',
+	'onrender.com',
+	'pages.dev',
+	'vercel.app',
+	'web.app',
+	'workers.dev',
+]);
+
+/**
+ * Cookies captured during an execution.
+ */
+export interface CookieJar {
+	/** Store cookies from the Set-Cookie headers of a response to the URL */
+	setFromHeaders(url: string, setCookieHeaders: string[]): void;
+	/** Store cookies captured by a browser or FlareSolverr */
+	setCookies(cookies: SessionCookie[]): void;
+	/** Get the unexpired cookies that apply to a request to the URL */
+	getCookies(url: string): SessionCookie[];
+}
+
+/**
+ * Headers and cookies sent to the target sites during an execution.
+ */
+export interface RequestSession {
+	/** Custom headers, sent only to the site each request targets */
+	headers: Record<string, string>;
+	/** Cookies from the node options, sent only to the site each request targets */
+	cookies: Record<string, string>;
+	/** Cookies set by responses, the login script and FlareSolverr */
+	jar: CookieJar;
+}
+
+/**
+ * Create a session from the node's header and cookie options.
+ *
+ * A Cookie header among the custom headers is merged into the cookies so
+ * it is combined with captured cookies instead of replacing them.
+ *
+ * @param {Record<string, string>} headers - Custom request headers
+ * @param {string} [cookies] - Cookies as "name=value; name2=value2"
+ * @returns {RequestSession} New session with an empty cookie jar
+ */
+export function createRequestSession(headers: Record<string, string>, cookies?: string): RequestSession {
+	const sessionHeaders: Record<string, string> = {};
+	const sessionCookies: Record<string, string> = {};
+
+	for (const [name, value] of Object.entries(headers)) {
+		if (!name.trim()) continue;
+		if (name.trim().toLowerCase() === 'cookie') {
+			Object.assign(sessionCookies, parseCookieString(value));
+		} else {
+			sessionHeaders[name.trim()] = value;
+		}
+	}
+	Object.assign(sessionCookies, parseCookieString(cookies || ''));
+
+	return { headers: sessionHeaders, cookies: sessionCookies, jar: createCookieJar() };
+}
+
+/**
+ * Create an empty cookie jar.
+ *
+ * Cookies follow RFC 6265 matching: domain cookies apply to subdomains,
+ * host-only cookies to their exact host, Secure cookies only over HTTPS,
+ * and a cookie is replaced by a later one with the same name, domain
+ * and path.
+ *
+ * @returns {CookieJar} Cookie jar
+ */
+export function createCookieJar(): CookieJar {
+	const cookies = new Map<string, SessionCookie>();
+
+	const store = (cookie: SessionCookie) => {
+		const key = `${cookie.domain}|${cookie.path}|${cookie.name}`;
+		if (isExpired(cookie)) {
+			cookies.delete(key);
+		} else {
+			cookies.set(key, cookie);
+		}
+	};
+
+	return {
+		setFromHeaders(url: string, setCookieHeaders: string[]): void {
+			let parsed: URL;
+			try {
+				parsed = new URL(url);
+			} catch {
+				return;
+			}
+			for (const header of setCookieHeaders) {
+				const cookie = parseSetCookie(header, parsed);
+				if (cookie) store(cookie);
+			}
+		},
+
+		setCookies(captured: SessionCookie[]): void {
+			for (const cookie of captured) {
+				if (!cookie.name || !cookie.domain) continue;
+				store({ ...cookie, domain: cookie.domain.toLowerCase(), path: cookie.path || '/' });
+			}
+		},
+
+		getCookies(url: string): SessionCookie[] {
+			let parsed: URL;
+			try {
+				parsed = new URL(url);
+			} catch {
+				return [];
+			}
+			const host = parsed.hostname.toLowerCase();
+			const matching = [...cookies.values()].filter(
+				(cookie) =>
+					!isExpired(cookie) &&
+					domainMatches(host, cookie.domain) &&
+					pathMatches(parsed.pathname, cookie.path) &&
+					(!cookie.secure || parsed.protocol === 'https:'),
+			);
+			// Longer paths first, as browsers send them
+			return matching.sort((a, b) => b.path.length - a.path.length);
+		},
+	};
+}
+
+/**
+ * Get the cookies to send with a request.
+ *
+ * Captured cookies that apply to the URL, plus the option cookies when
+ * the URL is on the host the request targets or one of its subdomains.
+ * Captured cookies win over option cookies with the same name.
+ *
+ * @param {RequestSession} session - Request session
+ * @param {string} url - URL being requested
+ * @param {string} targetUrl - Page the request was made for (differs for redirects and subresources)
+ * @returns {SessionCookie[]} Cookies to send
+ */
+export function getSessionCookies(session: RequestSession, url: string, targetUrl: string = url): SessionCookie[] {
+	const captured = session.jar.getCookies(url);
+	if (!isTargetHost(url, targetUrl)) {
+		return captured;
+	}
+
+	let host: string;
+	try {
+		host = new URL(url).hostname.toLowerCase();
+	} catch {
+		return captured;
+	}
+	const capturedNames = new Set(captured.map((cookie) => cookie.name));
+	const configured = Object.entries(session.cookies)
+		.filter(([name]) => !capturedNames.has(name))
+		.map(([name, value]) => ({ name, value, domain: host, path: '/', expires: -1, httpOnly: false, secure: false }));
+
+	return [...captured, ...configured];
+}
+
+/**
+ * Get the headers a session adds to a request.
+ *
+ * Custom headers are only sent to the host the request targets and its
+ * subdomains, so tokens don't leak to parent domains, redirect targets or
+ * third-party subresources.
+ *
+ * @param {RequestSession} session - Request session
+ * @param {string} url - URL being requested
+ * @param {string} targetUrl - Page the request was made for
+ * @param {boolean} [includeCookies=true] - Whether to add a Cookie header
+ * @returns {Record<string, string>} Headers to add
+ */
+export function getSessionHeaders(
+	session: RequestSession,
+	url: string,
+	targetUrl: string = url,
+	includeCookies: boolean = true,
+): Record<string, string> {
+	const headers: Record<string, string> = isTargetHost(url, targetUrl) ? { ...session.headers } : {};
+	if (includeCookies) {
+		const cookies = getSessionCookies(session, url, targetUrl);
+		if (cookies.length > 0) {
+			headers.Cookie = cookies.map((cookie) => `${cookie.name}=${cookie.value}`).join('; ');
+		}
+	}
+	return headers;
+}
+
+/**
+ * Parse a Cookie header style string ("a=1; b=2").
+ *
+ * @param {string} value - Cookie string
+ * @returns {Record<string, string>} Cookie values by name
+ */
+export function parseCookieString(value: string): Record<string, string> {
+	const cookies: Record<string, string> = {};
+	for (const pair of value.split(';')) {
+		const separator = pair.indexOf('=');
+		if (separator <= 0) continue;
+		const name = pair.slice(0, separator).trim();
+		if (name) {
+			cookies[name] = pair.slice(separator + 1).trim();
+		}
+	}
+	return cookies;
+}
+
+/**
+ * Check whether a URL is on the host a request targets or a subdomain of
+ * it. "www." is ignored when comparing the hosts themselves, but parent
+ * domains of the target never match.
+ */
+function isTargetHost(url: string, targetUrl: string): boolean {
+	try {
+		const host = new URL(url).hostname.toLowerCase();
+		const target = new URL(targetUrl).hostname.toLowerCase();
+		return host.replace(/^www\./, '') === target.replace(/^www\./, '') || host.endsWith(`.${target}`);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Check whether a domain is a public suffix that no site may set cookies
+ * for: a top-level domain, a registry's second-level domain such as co.uk
+ * or a shared hosting domain such as github.io.
+ */
+function isPublicSuffix(domain: string): boolean {
+	const labels = domain.split('.');
+	if (labels.length === 1) return true;
+	if (labels.length === 2 && labels[1].length === 2 && REGISTRY_SECOND_LEVEL_LABELS.has(labels[0])) return true;
+	return SHARED_HOSTING_SUFFIXES.has(domain);
+}
+
+/**
+ * Parse a Set-Cookie header received from a URL.
+ * Returns undefined for malformed cookies and domains the URL may not set.
+ */
+function parseSetCookie(header: string, url: URL): SessionCookie | undefined {
+	const [pair, ...attributes] = header.split(';');
+	const separator = pair.indexOf('=');
+	if (separator <= 0) return undefined;
+
+	const host = url.hostname.toLowerCase();
+	const cookie: SessionCookie = {
+		name: pair.slice(0, separator).trim(),
+		value: pair.slice(separator + 1).trim(),
+		domain: host,
+		path: getDefaultPath(url.pathname),
+		expires: -1,
+		httpOnly: false,
+		secure: false,
+	};
+
+	let maxAge: number | undefined;
+	for (const attribute of attributes) {
+		const [rawName, ...rest] = attribute.split('=');
+		const name = rawName.trim().toLowerCase();
+		const value = rest.join('=').trim();
+
+		if (name === 'domain' && value) {
+			const domain = value.replace(/^\./, '').toLowerCase();
+			// A response may only set cookies for its own domain or a parent of it
+			if (host !== domain && !host.endsWith(`.${domain}`)) return undefined;
+			// Public suffixes stay host-only, and only their own host may set them (RFC 6265 5.3)
+			if (isPublicSuffix(domain)) {
+				if (host !== domain) return undefined;
+				continue;
+			}
+			cookie.domain = `.${domain}`;
+		} else if (name === 'path' && value.startsWith('/')) {
+			cookie.path = value;
+		} else if (name === 'expires') {
+			const time = Date.parse(value);
+			if (!isNaN(time)) cookie.expires = time / 1000;
+		} else if (name === 'max-age' && /^-?\d+$/.test(value)) {
+			maxAge = parseInt(value, 10);
+		} else if (name === 'secure') {
+			cookie.secure = true;
+		} else if (name === 'httponly') {
+			cookie.httpOnly = true;
+		}
+	}
+
+	// Max-Age takes precedence over Expires; zero or less deletes the cookie
+	if (maxAge !== undefined) {
+		cookie.expires = maxAge <= 0 ? 0 : Date.now() / 1000 + maxAge;
+	}
+
+	return cookie.name ? cookie : undefined;
+}
+
+/**
+ * Default cookie path: the request path up to its last "/" (RFC 6265 5.1.4).
+ */
+function getDefaultPath(pathname: string): string {
+	const lastSlash = pathname.lastIndexOf('/');
+	return lastSlash > 0 ? pathname.slice(0, lastSlash) : '/';
+}
+
+/**
+ * Check whether a cookie has expired. Session cookies (-1) never do.
+ */
+function isExpired(cookie: SessionCookie): boolean {
+	return cookie.expires >= 0 && cookie.expires * 1000 <= Date.now();
+}
+
+/**
+ * Match a host against a cookie domain; a leading dot marks a domain cookie.
+ */
+function domainMatches(host: string, domain: string): boolean {
+	if (domain.startsWith('.')) {
+		const base = domain.slice(1);
+		return host === base || host.endsWith(domain);
+	}
+	return host === domain;
+}
+
+/**
+ * Match a request path against a cookie path (RFC 6265 5.1.4).
+ */
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+	if (requestPath === cookiePath) return true;
+	if (!requestPath.startsWith(cookiePath)) return false;
+	return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/';
+}
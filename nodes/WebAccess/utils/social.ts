@@ -0,0 +1,143 @@
+/**
+ * Social profile extraction for Web Access node
+ * Finds the site's own profiles on social networks from its links and
+ * structured data, skipping share buttons and links to single posts
+ */
+
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for HTML parsing in self-hosted deployments
+import * as cheerio from 'cheerio';
+import type { SocialPlatform, SocialProfile } from './types';
+
+/**
+ * How to recognize a platform's profile URLs.
+ */
+interface PlatformRule {
+	platform: SocialPlatform;
+	/** Hosts of the platform; subdomains (www., m., de.) also match */
+	hosts: string[];
+	/** Profile path; the first group is the handle */
+	path: RegExp;
+}
+
+// Profile URL patterns per platform. Paths with more segments (posts,
+// videos, pins) don't match, so only profiles are kept.
+const PLATFORM_RULES: PlatformRule[] = [
+	{ platform: 'facebook', hosts: ['facebook.com', 'fb.com'], path: /^\/(?:pg\/)?([\w.-]+)\/?$/ },
+	{ platform: 'x', hosts: ['x.com', 'twitter.com'], path: /^\/@?(\w{1,15})\/?$/ },
+	{
+		platform: 'linkedin',
+		hosts: ['linkedin.com'],
+		path: /^\/((?:company|in|school|showcase)\/[^/]+)\/?$/,
+	},
+	{ platform: 'instagram', hosts: ['instagram.com'], path: /^\/([\w.]+)\/?$/ },
+	{ platform: 'youtube', hosts: ['youtube.com'], path: /^\/(@[\w.-]+|(?:channel|c|user)\/[\w-]+)\/?$/ },
+	{ platform: 'tiktok', hosts: ['tiktok.com'], path: /^\/(@[\w.]+)\/?$/ },
+	{ platform: 'pinterest', hosts: ['pinterest.com'], path: /^\/([\w]+)\/?$/ },
+	{ platform: 'github', hosts: ['github.com'], path: /^\/(?:orgs\/)?([\w-]+)\/?$/ },
+	{ platform: 'xing', hosts: ['xing.com'], path: /^\/((?:pages|companies)\/[\w-]+)\/?$/ },
+	{ platform: 'threads', hosts: ['threads.net', 'threads.com'], path: /^\/(@[\w.]+)\/?$/ },
+];
+
+// First path segments that are site features rather than accounts
+const RESERVED_HANDLES = new Set([
+	'about',
+	'dialog',
+	'explore',
+	'hashtag',
+	'help',
+	'home',
+	'intent',
+	'legal',
+	'login',
+	'plugins',
+	'policies',
+	'privacy',
+	'search',
+	'settings',
+	'share',
+	'sharer',
+	'sharer.php',
+	'signup',
+	'terms',
+	'tr',
+	'watch',
+]);
+
+/**
+ * Find the social media profiles a page links to.
+ *
+ * Profiles declared in structured data (schema.org sameAs) come first,
+ * then profile links in document order. Share buttons, intents and links
+ * to posts or videos are skipped. Each profile is listed once, however
+ * many times it is linked.
+ *
+ * @param {string} html - Page HTML
+ * @param {string} pageUrl - Page URL, for resolving relative links
+ * @param {string[]} [structured] - Profile URLs from structured data
+ * @returns {SocialProfile[]} Profiles in order of discovery
+ */
+export function extractSocialProfiles(html: string, pageUrl: string, structured: string[] = []): SocialProfile[] {
+	const profiles = new Map<string, SocialProfile>();
+	const add = (href: string) => {
+		const profile = parseSocialProfile(href, pageUrl);
+		const key = profile && `${profile.platform}:${profile.handle.toLowerCase()}`;
+		if (profile && key && !profiles.has(key)) profiles.set(key, profile);
+	};
+
+	structured.forEach(add);
+	if (html) {
+		const $ = cheerio.load(html);
+		$('a[href]').each((_, element) => add($(element).attr('href') || ''));
+	}
+
+	return [...profiles.values()];
+}
+
+/**
+ * Recognize a social media profile URL.
+ *
+ * @param {string} href - Link to check
+ * @param {string} [baseUrl] - URL for resolving relative links
+ * @returns {SocialProfile | undefined} Profile, or undefined if the link isn't one
+ */
+export function parseSocialProfile(href: string, baseUrl?: string): SocialProfile | undefined {
+	let url: URL;
+	try {
+		url = new URL(href.trim(), baseUrl);
+	} catch {
+		return undefined;
+	}
+	if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined;
+
+	const host = url.hostname.toLowerCase();
+	const rule = PLATFORM_RULES.find((candidate) =>
+		candidate.hosts.some((name) => host === name || host.endsWith(`.${name}`)),
+	);
+	if (!rule) return undefined;
+
+	// Old Twitter links put the path in the fragment ("/#!/acme")
+	const path = (url.pathname + (url.hash.startsWith('#!/') ? url.hash.slice(2) : '')).replace(/\/{2,}/g, '/');
+	const handle = rule.path.exec(safeDecode(path))?.[1];
+	if (!handle || RESERVED_HANDLES.has(handle.toLowerCase())) return undefined;
+
+	// profile.php pages are only identified by their id
+	if (rule.platform === 'facebook' && handle === 'profile.php') {
+		const id = url.searchParams.get('id');
+		return id && /^\d+$/.test(id)
+			? { platform: 'facebook', url: `https://facebook.com/profile.php?id=${id}`, handle: id }
+			: undefined;
+	}
+
+	return { platform: rule.platform, url: `https://${rule.hosts[0]}/${handle}`, handle };
+}
+
+/**
+ * Decode a percent-encoded path, keeping it as is if malformed.
+ */
+function safeDecode(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
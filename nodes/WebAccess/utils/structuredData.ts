@@ -0,0 +1,471 @@
+/**
+ * Structured data extraction for Web Access node
+ * Reads the machine-readable data sites embed for search engines and social
+ * previews: JSON-LD, microdata, RDFa, OpenGraph and Twitter cards
+ */
+
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for HTML parsing in self-hosted deployments
+import * as cheerio from 'cheerio';
+import type { PostalAddress, ProductSummary, StructuredContacts, StructuredData } from './types';
+
+// Schema.org entity as parsed from the page
+type Entity = Record<string, unknown>;
+
+// Cheerio document and its selections
+type Document = ReturnType<typeof cheerio.load>;
+type Selection = ReturnType<Document>;
+
+// Schema.org types describing a product
+const PRODUCT_TYPES = ['Product', 'ProductGroup', 'IndividualProduct', 'ProductModel'];
+
+// OpenGraph namespaces; "og:" is dropped from keys, the others are kept
+const OPEN_GRAPH_PREFIXES = ['og', 'product', 'article', 'book', 'profile', 'music', 'video'];
+
+// Basic email syntax, for addresses taken from structured data
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+
+/**
+ * Extract all structured data embedded in a page.
+ *
+ * JSON-LD blocks are kept as published, with arrays and @graph containers
+ * expanded into separate items. Microdata (itemscope/itemprop) and RDFa
+ * (typeof/property) items are converted to the same JSON-LD-like shape,
+ * with nested items as nested objects.
+ *
+ * @param {string} html - Page HTML
+ * @returns {StructuredData} Schema.org items, OpenGraph and Twitter card properties
+ */
+export function extractStructuredData(html: string): StructuredData {
+	const data: StructuredData = { items: [], openGraph: {}, twitter: {} };
+	if (!html) return data;
+
+	const $ = cheerio.load(html);
+
+	// JSON-LD
+	$('script[type="application/ld+json"]').each((_, script) => {
+		const parsed = parseJsonLd($(script).text());
+		data.items.push(...expandJsonLd(parsed));
+	});
+
+	// Microdata: top-level items are itemscopes that aren't a property of another item
+	$('[itemscope]')
+		.filter((_, element) => $(element).attr('itemprop') === undefined)
+		.each((_, element) => {
+			data.items.push(readMicrodataItem($, $(element)));
+		});
+
+	// RDFa: top-level items are typed elements that aren't a property of another item
+	$('[typeof]')
+		.filter((_, element) => $(element).attr('property') === undefined)
+		.each((_, element) => {
+			data.items.push(readRdfaItem($, $(element)));
+		});
+
+	// OpenGraph and Twitter cards; some sites use name= instead of property=
+	$('meta[property], meta[name]').each((_, meta) => {
+		const key = ($(meta).attr('property') || $(meta).attr('name') || '').trim();
+		const value = ($(meta).attr('content') || '').trim();
+		const separator = key.indexOf(':');
+		if (separator <= 0 || !value) return;
+
+		const prefix = key.slice(0, separator).toLowerCase();
+		if (prefix === 'twitter') {
+			addValue(data.twitter, key.slice(separator + 1), value);
+		} else if (OPEN_GRAPH_PREFIXES.includes(prefix)) {
+			addValue(data.openGraph, prefix === 'og' ? key.slice(separator + 1) : key, value);
+		}
+	});
+
+	return data;
+}
+
+/**
+ * Check whether a page had any structured data.
+ *
+ * @param {StructuredData} data - Extracted structured data
+ * @returns {boolean} True if there is at least one item or card property
+ */
+export function hasStructuredData(data: StructuredData): boolean {
+	return data.items.length > 0 || Object.keys(data.openGraph).length > 0 || Object.keys(data.twitter).length > 0;
+}
+
+/**
+ * Get the products described by structured data.
+ *
+ * Uses schema.org Product entities (anywhere in the graph, including
+ * ItemList entries), with the price from their offers. Falls back to an
+ * OpenGraph product card (og:type "product") when there are none.
+ *
+ * @param {StructuredData} data - Extracted structured data
+ * @param {string} pageUrl - URL of the page, for products without their own URL
+ * @returns {ProductSummary[]} Products, deduplicated by URL and name
+ */
+export function getStructuredProducts(data: StructuredData, pageUrl: string): ProductSummary[] {
+	const products: ProductSummary[] = [];
+	const seen = new Set<string>();
+
+	for (const entity of findEntities(data.items)) {
+		if (!getTypes(entity).some((type) => PRODUCT_TYPES.includes(type))) continue;
+
+		const name = getString(entity.name);
+		if (!name) continue;
+		const url = resolveUrl(getString(entity.url) || getString(entity['@id']), pageUrl) || pageUrl;
+		const key = `${url} ${name}`;
+		if (seen.has(key)) continue;
+		seen.add(key);
+
+		products.push({ name, url, price: getOfferPrice(entity.offers) });
+	}
+
+	if (products.length === 0 && getFirst(data.openGraph.type) === 'product') {
+		const name = getFirst(data.openGraph.title);
+		if (name) {
+			const amount = getFirst(data.openGraph['product:price:amount']) || getFirst(data.openGraph['price:amount']);
+			const currency = getFirst(data.openGraph['product:price:currency']) || getFirst(data.openGraph['price:currency']);
+			products.push({
+				name,
+				url: resolveUrl(getFirst(data.openGraph.url), pageUrl) || pageUrl,
+				price: amount ? formatPrice(amount, currency) : undefined,
+			});
+		}
+	}
+
+	return products;
+}
+
+/**
+ * Get contact details from structured data: the email, telephone,
+ * address, opening hours and sameAs properties of any entity
+ * (Organization, LocalBusiness, Person, ContactPoint...).
+ *
+ * @param {StructuredData} data - Extracted structured data
+ * @returns {StructuredContacts} Unique emails (lowercased), phone numbers, addresses, opening hours and profile URLs
+ */
+export function getStructuredContacts(data: StructuredData): StructuredContacts {
+	const emails = new Set<string>();
+	const phones = new Set<string>();
+	const addresses = new Map<string, PostalAddress>();
+	const openingHours = new Set<string>();
+	const profiles = new Set<string>();
+
+	for (const entity of findEntities(data.items)) {
+		for (const value of toArray(entity.email)) {
+			const email = getString(value)?.replace(/^mailto:/i, '').trim().toLowerCase();
+			if (email && EMAIL_PATTERN.test(email)) emails.add(email);
+		}
+		for (const value of toArray(entity.telephone)) {
+			const phone = getString(value)?.replace(/^tel:/i, '').trim();
+			if (phone && /\d{3}/.test(phone)) phones.add(phone);
+		}
+		for (const value of toArray(entity.address)) {
+			const address = isEntity(value) ? toPostalAddress(value) : getAddressLine(value);
+			if (address && !addresses.has(address.formatted)) addresses.set(address.formatted, address);
+		}
+		for (const value of toArray(entity.openingHours)) {
+			const hours = getString(value);
+			if (hours) openingHours.add(hours);
+		}
+		for (const value of toArray(entity.openingHoursSpecification)) {
+			const hours = isEntity(value) ? formatHoursSpecification(value) : undefined;
+			if (hours) openingHours.add(hours);
+		}
+		for (const value of toArray(entity.sameAs)) {
+			const profile = getString(value);
+			if (profile && /^https?:\/\//i.test(profile)) profiles.add(profile);
+		}
+	}
+
+	return {
+		emails: [...emails],
+		phones: [...phones],
+		addresses: [...addresses.values()],
+		openingHours: [...openingHours],
+		profiles: [...profiles],
+	};
+}
+
+/**
+ * Parse a JSON-LD block, tolerating the HTML comments and stray control
+ * characters some CMSs leave in it.
+ */
+function parseJsonLd(source: string): unknown {
+	const cleaned = source
+		.trim()
+		.replace(/^<!--|-->$/g, '')
+		// eslint-disable-next-line no-control-regex
+		.replace(/[\u0000-\u001f]+/g, ' ');
+	try {
+		return JSON.parse(cleaned);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Split a parsed JSON-LD value into items: arrays and @graph containers
+ * are expanded, everything else must be an object.
+ */
+function expandJsonLd(value: unknown): Entity[] {
+	if (Array.isArray(value)) {
+		return value.flatMap((item) => expandJsonLd(item));
+	}
+	if (!isEntity(value)) return [];
+	if (Array.isArray(value['@graph'])) {
+		return expandJsonLd(value['@graph']);
+	}
+	return [value];
+}
+
+/**
+ * Read a microdata item and its properties; nested itemscopes become nested items.
+ */
+function readMicrodataItem($: Document, scope: Selection): Entity {
+	const item: Entity = {};
+	const itemType = scope.attr('itemtype');
+	if (itemType) item['@type'] = getTypeName(itemType.split(/\s+/)[0]);
+	const itemId = scope.attr('itemid');
+	if (itemId) item['@id'] = itemId;
+
+	const scopeNode = scope.get(0);
+	scope
+		.find('[itemprop]')
+		.filter((_, element) => $(element).parent().closest('[itemscope]').get(0) === scopeNode)
+		.each((_, element) => {
+			const property = $(element);
+			const value = property.attr('itemscope') !== undefined ? readMicrodataItem($, property) : getPropertyValue(property);
+			for (const name of (property.attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+				addValue(item, name, value);
+			}
+		});
+
+	return item;
+}
+
+/**
+ * Read an RDFa item and its properties; nested typed elements become nested items.
+ */
+function readRdfaItem($: Document, scope: Selection): Entity {
+	const item: Entity = { '@type': getTypeName((scope.attr('typeof') || '').split(/\s+/)[0]) };
+	const resource = scope.attr('resource') || scope.attr('about');
+	if (resource) item['@id'] = resource;
+
+	const scopeNode = scope.get(0);
+	scope
+		.find('[property]')
+		.filter((_, element) => $(element).parent().closest('[typeof]').get(0) === scopeNode)
+		.each((_, element) => {
+			const property = $(element);
+			const value = property.attr('typeof') !== undefined ? readRdfaItem($, property) : getPropertyValue(property);
+			for (const name of (property.attr('property') || '').split(/\s+/).filter(Boolean)) {
+				addValue(item, getTypeName(name), value);
+			}
+		});
+
+	return item;
+}
+
+/**
+ * Value of a microdata or RDFa property element, per the HTML rules:
+ * content attribute, then URL attributes, machine-readable values, then text.
+ */
+function getPropertyValue(element: Selection): string {
+	const content = element.attr('content');
+	if (content !== undefined) return content.trim();
+
+	const tag = (element.prop('tagName') || '').toLowerCase();
+	const attribute =
+		{
+			a: 'href',
+			area: 'href',
+			link: 'href',
+			img: 'src',
+			audio: 'src',
+			video: 'src',
+			source: 'src',
+			iframe: 'src',
+			embed: 'src',
+			object: 'data',
+			time: 'datetime',
+			data: 'value',
+			meter: 'value',
+		}[tag] || 'resource';
+	const value = element.attr(attribute);
+	if (value !== undefined) return value.trim();
+
+	return element.text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Collect every entity in the items, including nested ones, once each.
+ */
+function findEntities(items: Entity[]): Entity[] {
+	const entities: Entity[] = [];
+	const visited = new Set<unknown>();
+
+	const visit = (value: unknown) => {
+		if (visited.has(value)) return;
+		if (Array.isArray(value)) {
+			visited.add(value);
+			value.forEach(visit);
+		} else if (isEntity(value)) {
+			visited.add(value);
+			entities.push(value);
+			Object.values(value).forEach(visit);
+		}
+	};
+	items.forEach(visit);
+
+	return entities;
+}
+
+/**
+ * Read a PostalAddress; formatted as street, postal code and locality, region, country.
+ */
+function toPostalAddress(entity: Entity): PostalAddress | undefined {
+	const country = isEntity(entity.addressCountry)
+		? getString(entity.addressCountry.identifier ?? entity.addressCountry.name)
+		: getString(entity.addressCountry);
+	const address: PostalAddress = {
+		street: getString(entity.streetAddress),
+		postalCode: getString(entity.postalCode),
+		locality: getString(entity.addressLocality),
+		region: getString(entity.addressRegion),
+		country: country && /^[a-z]{2}$/i.test(country) ? country.toUpperCase() : undefined,
+		formatted: '',
+		source: 'structured_data',
+	};
+	const parts = [
+		address.street,
+		[address.postalCode, address.locality].filter(Boolean).join(' '),
+		address.region,
+		country,
+	].filter((part): part is string => Boolean(part));
+	if (parts.length === 0) return undefined;
+
+	address.formatted = [...new Set(parts)].join(', ').replace(/\s+/g, ' ');
+	return address;
+}
+
+/**
+ * Read an address given as plain text.
+ */
+function getAddressLine(value: unknown): PostalAddress | undefined {
+	const formatted = getString(value)?.replace(/\s+/g, ' ');
+	return formatted ? { formatted, source: 'structured_data' } : undefined;
+}
+
+/**
+ * Format an OpeningHoursSpecification like an openingHours value
+ * ("Monday,Tuesday 09:00-17:00"). 00:00-00:00 marks closed days.
+ */
+function formatHoursSpecification(specification: Entity): string | undefined {
+	const days = toArray(specification.dayOfWeek)
+		.map((day) => getString(day))
+		.filter((day): day is string => Boolean(day))
+		.map(getTypeName);
+	const opens = getString(specification.opens)?.slice(0, 5);
+	const closes = getString(specification.closes)?.slice(0, 5);
+	if (days.length === 0 || !opens || !closes) return undefined;
+	return `${days.join(',')} ${opens === '00:00' && closes === '00:00' ? 'closed' : `${opens}-${closes}`}`;
+}
+
+/**
+ * Format the price of an Offer, AggregateOffer or list of offers.
+ */
+function getOfferPrice(offers: unknown): string | undefined {
+	for (const offer of toArray(offers)) {
+		if (!isEntity(offer)) continue;
+		const specification = toArray(offer.priceSpecification).find(isEntity);
+		const amount =
+			getString(offer.price) ?? getString(offer.lowPrice) ?? (specification ? getString(specification.price) : undefined);
+		if (amount) {
+			const currency = getString(offer.priceCurrency) ?? (specification ? getString(specification.priceCurrency) : undefined);
+			return formatPrice(amount, currency);
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Format a price amount with its currency code, e.g. "19.99 USD".
+ */
+function formatPrice(amount: string, currency?: string): string {
+	return currency ? `${amount} ${currency}` : amount;
+}
+
+/**
+ * Schema.org type names of an entity, without vocabulary prefixes.
+ */
+function getTypes(entity: Entity): string[] {
+	return toArray(entity['@type'])
+		.map((type) => getString(type))
+		.filter((type): type is string => Boolean(type))
+		.map(getTypeName);
+}
+
+/**
+ * Strip the vocabulary from a type or property ("https://schema.org/Product", "schema:name").
+ */
+function getTypeName(value: string): string {
+	return value.replace(/^.*[/#:]/, '');
+}
+
+/**
+ * Add a property value, turning repeated properties into arrays.
+ */
+function addValue(target: Record<string, unknown>, name: string, value: unknown): void {
+	const existing = target[name];
+	if (existing === undefined) {
+		target[name] = value;
+	} else if (Array.isArray(existing)) {
+		existing.push(value);
+	} else {
+		target[name] = [existing, value];
+	}
+}
+
+/**
+ * Check whether a value is a plain object.
+ */
+function isEntity(value: unknown): value is Entity {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Wrap a single value in an array; undefined becomes an empty array.
+ */
+function toArray(value: unknown): unknown[] {
+	if (value === undefined || value === null) return [];
+	return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Get a property as a trimmed string; numbers are converted, objects use their @value or name.
+ */
+function getString(value: unknown): string | undefined {
+	if (typeof value === 'string') return value.trim() || undefined;
+	if (typeof value === 'number') return String(value);
+	if (Array.isArray(value)) return getString(value[0]);
+	if (isEntity(value)) return getString(value['@value'] ?? value.name);
+	return undefined;
+}
+
+/**
+ * First value of an OpenGraph property.
+ */
+function getFirst(value: string | string[] | undefined): string | undefined {
+	return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Resolve a URL against the page URL; non-HTTP identifiers are dropped.
+ */
+function resolveUrl(url: string | undefined, pageUrl: string): string | undefined {
+	if (!url) return undefined;
+	try {
+		const resolved = new URL(url, pageUrl);
+		return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : undefined;
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,257 @@
+/**
+ * Table extraction for Web Access node
+ * Turns HTML tables into rows keyed by column name, resolving colspan and
+ * rowspan and detecting header rows, and serializes them as CSV
+ */
+
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Required for HTML parsing in self-hosted deployments
+import * as cheerio from 'cheerio';
+import type { ExtractedTable } from './types';
+import { MAX_EXTRACTED_TABLES, MAX_TABLE_ROWS } from './config';
+
+// Cheerio document and its elements
+type Document = ReturnType<typeof cheerio.load>;
+type DomNode = ReturnType<ReturnType<Document>['contents']>[number];
+
+// Largest colspan honoured; wider spans are layout tricks
+const MAX_COLSPAN = 100;
+
+/**
+ * A cell placed on the table grid. Spanned cells repeat the same text.
+ */
+interface GridCell {
+	text: string;
+	/** Whether the cell is a th */
+	isHeader: boolean;
+}
+
+/**
+ * A table row on the grid.
+ */
+interface GridRow {
+	cells: GridCell[];
+	/** Whether the row is inside thead */
+	inHead: boolean;
+}
+
+/**
+ * Extract the data tables of a page.
+ *
+ * Cells spanning several columns or rows are repeated in each position
+ * they cover, so every row has a value per column. Header rows come from
+ * thead, else from leading rows made only of th cells, else from a first
+ * row of distinct labels. Multi-row headers are joined per column (e.g.
+ * "Price Monthly"). Tables holding other tables, presentation tables and
+ * tables with a single column or no data rows are skipped as layout.
+ *
+ * @param {string} html - Page HTML
+ * @returns {ExtractedTable[]} Tables in document order
+ */
+export function extractTables(html: string): ExtractedTable[] {
+	if (!html || !/<table[\s>]/i.test(html)) return [];
+
+	const $ = cheerio.load(html);
+	$('script, style, noscript, template').remove();
+	$('br').replaceWith(' ');
+
+	const tables: ExtractedTable[] = [];
+	for (const node of $('table').toArray()) {
+		const element = $(node);
+		if (element.find('table').length > 0) continue;
+		if (/^(presentation|none)$/i.test(element.attr('role') || '')) continue;
+
+		const table = readTable($, node);
+		if (table) tables.push(table);
+		if (tables.length >= MAX_EXTRACTED_TABLES) break;
+	}
+
+	return tables;
+}
+
+/**
+ * Build a table from column names and rows of cell values.
+ *
+ * Used for CSV documents and tables reported by Crawl4AI. Without
+ * headers the first row becomes the header; empty and repeated column
+ * names are made unique.
+ *
+ * @param {string[] | undefined} headers - Column names, if known
+ * @param {string[][]} rows - Rows of cell values
+ * @param {string} [caption] - Table caption
+ * @returns {ExtractedTable | undefined} Table, or undefined if there are no data rows
+ */
+export function rowsToTable(headers: string[] | undefined, rows: string[][], caption?: string): ExtractedTable | undefined {
+	const body = headers?.length ? rows : rows.slice(1);
+	const names = headers?.length ? headers : rows[0] || [];
+	const width = body.reduce((max, row) => Math.max(max, row.length), names.length);
+	if (width === 0 || body.length === 0) return undefined;
+
+	const columns = uniqueHeaders(Array.from({ length: width }, (_, index) => String(names[index] ?? '').trim()));
+	return {
+		caption: caption || undefined,
+		headers: columns,
+		rows: body.slice(0, MAX_TABLE_ROWS).map((row) => toRecord(columns, row.map((value) => String(value ?? '').trim()))),
+	};
+}
+
+/**
+ * Serialize a table as CSV (RFC 4180), header line first. Cells that
+ * would run as spreadsheet formulas are neutralized.
+ *
+ * @param {ExtractedTable} table - Table to serialize
+ * @returns {string} CSV text with CRLF line endings
+ */
+export function tableToCsv(table: ExtractedTable): string {
+	const lines = [table.headers, ...table.rows.map((row) => table.headers.map((header) => row[header] ?? ''))];
+	return lines.map((line) => line.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Read one table element into headers and rows.
+ */
+function readTable($: Document, node: DomNode): ExtractedTable | undefined {
+	const grid = buildGrid($, node);
+	const width = grid.reduce((max, row) => Math.max(max, row.cells.length), 0);
+	if (width < 2) return undefined;
+
+	const headerCount = countHeaderRows(grid);
+	let headers: string[];
+	let body = grid.slice(headerCount);
+
+	if (headerCount > 0) {
+		headers = Array.from({ length: width }, (_, column) => {
+			const labels = grid.slice(0, headerCount).map((row) => row.cells[column]?.text || '');
+			return [...new Set(labels.filter(Boolean))].join(' ');
+		});
+	} else if (width === 2 && grid.every((row) => row.cells[0]?.isHeader && !row.cells[1]?.isHeader)) {
+		// Key/value tables such as product specifications
+		headers = ['Name', 'Value'];
+	} else {
+		headers = [];
+	}
+	headers = uniqueHeaders(Array.from({ length: width }, (_, index) => headers[index] || ''));
+
+	// Long tables repeat their header row; drop the copies
+	const headerLine = headers.join('\u0000');
+	body = body.filter((row) => {
+		const texts = row.cells.map((cell) => cell?.text || '');
+		if (texts.every((text) => !text)) return false;
+		return !(row.cells.every((cell) => cell?.isHeader) && texts.join('\u0000') === headerLine);
+	});
+	if (body.length === 0) return undefined;
+
+	return {
+		caption: getCaption($, node),
+		headers,
+		rows: body.slice(0, MAX_TABLE_ROWS).map((row) => toRecord(headers, row.cells.map((cell) => cell?.text || ''))),
+	};
+}
+
+/**
+ * Lay the table's rows out on a grid, resolving colspan and rowspan.
+ */
+function buildGrid($: Document, node: DomNode): GridRow[] {
+	const rows = $(node)
+		.find('tr')
+		.filter((_, row) => $(row).closest('table').get(0) === node)
+		.toArray();
+	const grid: GridRow[] = rows.map((row) => ({ cells: [], inHead: $(row).parent().is('thead') }));
+
+	rows.forEach((row, rowIndex) => {
+		let column = 0;
+		$(row)
+			.children('th, td')
+			.each((_, cell) => {
+				const $cell = $(cell);
+				const text = $cell.text().replace(/\s+/g, ' ').trim();
+				const isHeader = $cell.is('th');
+				const colspan = Math.min(Math.max(Number($cell.attr('colspan')) || 1, 1), MAX_COLSPAN);
+				// rowspan="0" spans to the end of the table
+				const rowspan =
+					$cell.attr('rowspan')?.trim() === '0'
+						? rows.length - rowIndex
+						: Math.max(Number($cell.attr('rowspan')) || 1, 1);
+
+				while (grid[rowIndex].cells[column]) column++;
+				for (let r = rowIndex; r < Math.min(rowIndex + rowspan, rows.length); r++) {
+					for (let c = column; c < column + colspan; c++) {
+						grid[r].cells[c] = { text, isHeader };
+					}
+				}
+				column += colspan;
+			});
+	});
+
+	// Rows cut short by the markup get empty cells, so every row is dense
+	return grid
+		.filter((row) => row.cells.length > 0)
+		.map((row) => ({ ...row, cells: Array.from(row.cells, (cell) => cell || { text: '', isHeader: false }) }));
+}
+
+/**
+ * Count the rows at the top of the grid that hold column names.
+ */
+function countHeaderRows(grid: GridRow[]): number {
+	const headRows = grid.findIndex((row) => !row.inHead);
+	if (headRows > 0) return headRows;
+	if (headRows === -1) return 0;
+
+	let thRows = 0;
+	while (thRows < grid.length - 1 && grid[thRows].cells.every((cell) => cell?.isHeader)) thRows++;
+	if (thRows > 0) return thRows;
+
+	// Tables without th often label columns in their first row
+	if (grid.length < 2 || grid.some((row) => row.cells.some((cell) => cell?.isHeader))) return 0;
+	const labels = grid[0].cells.map((cell) => cell?.text || '');
+	const looksLikeLabels =
+		labels.every((label) => label && label.length <= 60 && !/^[\d\s.,%$€£¥+-]+$/.test(label)) &&
+		new Set(labels).size === labels.length;
+	return looksLikeLabels ? 1 : 0;
+}
+
+/**
+ * Get a table's caption, aria-label or the heading right before it.
+ */
+function getCaption($: Document, node: DomNode): string | undefined {
+	const element = $(node);
+	const previous = element.prev();
+	const caption =
+		element.children('caption').text() ||
+		element.attr('aria-label') ||
+		(previous.is('h1, h2, h3, h4, h5, h6') ? previous.text() : '');
+	return caption.replace(/\s+/g, ' ').trim() || undefined;
+}
+
+/**
+ * Make column names unique, naming empty ones by position.
+ */
+function uniqueHeaders(names: string[]): string[] {
+	const seen = new Map<string, number>();
+	return names.map((name, index) => {
+		const base = name || `Column ${index + 1}`;
+		const count = (seen.get(base) || 0) + 1;
+		seen.set(base, count);
+		return count > 1 ? `${base} (${count})` : base;
+	});
+}
+
+/**
+ * Key a row's values by column name.
+ */
+function toRecord(headers: string[], values: string[]): Record<string, string> {
+	const record: Record<string, string> = {};
+	headers.forEach((header, index) => {
+		record[header] = values[index] ?? '';
+	});
+	return record;
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break.
+ * Fields that a spreadsheet would run as a formula (=, +, -, @, tab or
+ * CR first) get a leading "'"; plain numbers such as "-12.5" are kept.
+ */
+function escapeCsvField(value: string): string {
+	const safe = /^[=+\-@\t\r]/.test(value) && !/^[-+]?\d[\d.,]*%?$/.test(value) ? `'${value}` : value;
+	return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -4,6 +4,7 @@
  */
 
 import type { TaskIntent, WebAccessOperation, OpenAIConfig } from './types';
+import { recordLlmCall, type ApiUsage, type LlmCallUsage } from './cost';
 
 /**
  * Use LLM to intelligently detect the best operation for a task.
@@ -14,14 +15,14 @@ import type { TaskIntent, WebAccessOperation, OpenAIConfig } from './types';
  * @param {string} task - Task description from user
  * @param {OpenAIConfig} openAiConfig - OpenAI-compatible API configuration
  * @param {string} model - Model to use for detection
- * @param {number} [callCounter] - Optional counter to track API calls
+ * @param {LlmCallUsage[]} [usage] - Optional call log to record token usage in
  * @returns {Promise<WebAccessOperation>} Detected operation type
  */
 export async function inferOperationWithLLM(
 	task: string,
 	openAiConfig: OpenAIConfig,
 	model: string,
-	callCounter?: { count: number },
+	usage?: LlmCallUsage[],
 ): Promise<WebAccessOperation> {
 	const systemPrompt = `You are a task classifier for a web access tool. Given a user's task description, classify it into ONE of these operations:
 
@@ -46,11 +47,6 @@ Examples:
 - "What is on this page?" → fetchContent`;
 
 		try {
-			// Track API call
-			if (callCounter) {
-				callCounter.count += 1;
-			}
-
 			const response = await fetch(`${openAiConfig.baseUrl}/chat/completions`, {
 				method: 'POST',
 				headers: {
@@ -73,9 +69,17 @@ Examples:
 			return inferOperationKeyword(task);
 		}
 
-		const data = await response.json() as { choices?: { message?: { content?: string } }[] };
+		const data = await response.json() as {
+			choices?: { message?: { content?: string } }[];
+			usage?: ApiUsage;
+		};
 		const result = data.choices?.[0]?.message?.content?.trim().toLowerCase();
 
+		// Track API usage
+		if (usage) {
+			recordLlmCall(usage, 'operation_detection', model, data.usage, systemPrompt + task, result || '', openAiConfig.modelPricing);
+		}
+
 		// Validate the response
 		const validOperations: WebAccessOperation[] = ['screenshot', 'downloadAssets', 'runScript', 'crawl', 'fetchContent'];
 		if (validOperations.includes(result as WebAccessOperation)) {
@@ -178,18 +182,18 @@ export function inferOperationKeyword(task: string): WebAccessOperation {
  * @param {string} task - Task description from user
  * @param {OpenAIConfig} [openAiConfig] - Optional OpenAI config for LLM detection
  * @param {string} [model] - Optional model name
- * @param {number} [callCounter] - Optional counter to track API calls
+ * @param {LlmCallUsage[]} [usage] - Optional call log to record token usage in
  * @returns {Promise<WebAccessOperation>} Detected operation type
  */
 export async function inferOperation(
 	task: string,
 	openAiConfig?: OpenAIConfig,
 	model?: string,
-	callCounter?: { count: number },
+	usage?: LlmCallUsage[],
 ): Promise<WebAccessOperation> {
 	// If LLM is available, use it for smarter detection
 	if (openAiConfig && model) {
-		return inferOperationWithLLM(task, openAiConfig, model, callCounter);
+		return inferOperationWithLLM(task, openAiConfig, model, usage);
 	}
 
 	// Fall back to keyword matching
@@ -396,6 +400,12 @@ export function scorePageForIntent(page: { url: string; title?: string; snippet?
 			'reach-us',
 			'get-in-touch',
 			'find-us',
+			// Common non-English names (contacto matches "contact" already)
+			'kontakt',
+			'contatti',
+			'contatto',
+			'impressum',
+			'imprint',
 		];
 
 		for (const pattern of contactPatterns) {
@@ -2,9 +2,20 @@
  * Shared TypeScript type definitions for Web Access node
  */
 
+import type { JsonSchema } from './schema';
+import type { LlmBudget, LlmCallUsage } from './cost';
+import type { ProxyPool } from './proxy';
+import type { RequestSession } from './session';
+
 // Operation types
 export type WebAccessOperation = 'fetchContent' | 'screenshot' | 'downloadAssets' | 'crawl' | 'runScript';
 
+// Format of the page content returned in data.content
+export type OutputFormat = 'text' | 'markdown' | 'html';
+
+// How the agent exchanges tool calls with the LLM
+export type ToolCallingMode = 'auto' | 'native' | 'react';
+
 // Task intent inference result
 export interface TaskIntent {
 	wantsEmail?: boolean;
@@ -23,6 +34,171 @@ export interface ProductSummary {
 	price?: string;
 }
 
+// Structured data embedded in a page
+export interface StructuredData {
+	// Schema.org items: JSON-LD as published (@graph expanded), microdata and RDFa
+	items: Array<Record<string, unknown>>;
+	// OpenGraph properties; "og:" is dropped, other namespaces (product:, article:) are kept
+	openGraph: Record<string, string | string[]>;
+	// Twitter card properties without the "twitter:" prefix
+	twitter: Record<string, string | string[]>;
+}
+
+// Contact details published in structured data
+export interface StructuredContacts {
+	// Lowercased email addresses
+	emails: string[];
+	// Phone numbers as written
+	phones: string[];
+	addresses: PostalAddress[];
+	// openingHours values, and openingHoursSpecification as "Monday,Tuesday 09:00-17:00"
+	openingHours: string[];
+	// Profile URLs from sameAs
+	profiles: string[];
+}
+
+// Postal address found on a page
+export interface PostalAddress {
+	// Street and house number
+	street?: string;
+	postalCode?: string;
+	// City or town
+	locality?: string;
+	// State, province or county
+	region?: string;
+	// ISO 3166-1 alpha-2 country, when known
+	country?: string;
+	// Whole address on one line
+	formatted: string;
+	// Where the address was found
+	source: 'structured_data' | 'address_tag' | 'text';
+}
+
+// Day of the week, as schema.org names them
+export type DayOfWeek = 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
+
+// Opening period on one day; a day with a lunch break has two
+export interface OpeningHours {
+	day: DayOfWeek;
+	// Local 24-hour time, e.g. "09:00"
+	opens: string;
+	// Local 24-hour time; earlier than opens when the period runs past midnight
+	closes: string;
+	// Where the hours were found
+	source: 'structured_data' | 'table' | 'list' | 'text';
+}
+
+// Line of a page's visible text, split at block elements and line breaks
+export interface TextLine {
+	text: string;
+	// Innermost table row or list item holding the line
+	container: 'table' | 'list' | 'none';
+}
+
+// Kind of line a phone number belongs to
+export type PhoneType =
+	| 'mobile'
+	| 'landline'
+	| 'landline_or_mobile'
+	| 'toll_free'
+	| 'shared_cost'
+	| 'premium_rate'
+	| 'unknown';
+
+// Phone number parsed with its country's numbering rules
+export interface PhoneNumber {
+	// E.164 format, e.g. "+442079460958"
+	e164: string;
+	// National format, e.g. "020 7946 0958"
+	national: string;
+	// ISO 3166-1 alpha-2 country, if the calling code is known
+	country?: string;
+	type: PhoneType;
+	// Where the number was found
+	source: 'tel_link' | 'structured_data' | 'text';
+	// Number as written on the page
+	raw: string;
+}
+
+// Kind of mailbox an email address belongs to
+export type EmailRole =
+	| 'sales'
+	| 'support'
+	| 'billing'
+	| 'careers'
+	| 'press'
+	| 'legal'
+	| 'technical'
+	| 'info'
+	| 'personal'
+	| 'other';
+
+// Email address with where and how it was found
+export interface EmailAddress {
+	// Lowercased address
+	address: string;
+	// mailto: link, structured data (JSON-LD, microdata, RDFa), visible text,
+	// decoded obfuscation (Cloudflare, entities, "[at]", scripts), or other markup
+	source: 'mailto' | 'structured_data' | 'text' | 'obfuscated' | 'markup';
+	// Link text or the label written before the address, e.g. "Press enquiries"
+	label?: string;
+	// Whether the address belongs to the page's own domain
+	sameDomain: boolean;
+	role: EmailRole;
+}
+
+// Table extracted from a page or document
+export interface ExtractedTable {
+	// Caption, aria-label or the heading just before the table
+	caption?: string;
+	// Column names, unique within the table
+	headers: string[];
+	// Data rows keyed by column name
+	rows: Array<Record<string, string>>;
+}
+
+// Why a site refused to serve a page
+export type BlockReason = 'cloudflare_challenge' | 'captcha' | 'rate_limited' | 'access_denied';
+
+// One acquisition attempt, as reported in methodsTried
+export interface MethodAttempt {
+	method: string;
+	success: boolean;
+	error?: string;
+	// Set when the site served a challenge or block page
+	blockReason?: BlockReason;
+}
+
+// Kind of content a URL returned
+export type ContentKind = 'html' | 'pdf' | 'json' | 'xml' | 'csv' | 'text';
+
+// Item of an RSS or Atom feed
+export interface FeedItem {
+	title?: string;
+	link?: string;
+	// Summary or content, as plain text
+	description?: string;
+	// Publication date as given by the feed
+	published?: string;
+}
+
+// Parsed content of a non-HTML response
+export interface DocumentContent {
+	kind: Exclude<ContentKind, 'html'>;
+	// Readable text: PDF text, pretty-printed JSON, feed items or the raw text
+	text: string;
+	// PDF document title or feed title
+	title?: string;
+	// Number of pages, for PDFs
+	pages?: number;
+	// Parsed value, for JSON
+	json?: unknown;
+	// Entries, for RSS and Atom feeds
+	items?: FeedItem[];
+	// Rows, header row first, for CSV and TSV
+	rows?: string[][];
+}
+
 // Strategy result (used internally between stages)
 export interface StrategyResult {
 	success: boolean;
@@ -30,6 +206,16 @@ export interface StrategyResult {
 	html?: string;
 	text?: string;
 	error?: string;
+	// Kind of content; documents are parsed instead of returned as HTML
+	contentKind?: ContentKind;
+	document?: DocumentContent;
+	// Set when the response was a challenge or block page
+	blockReason?: BlockReason;
+	// Validators from the response, for conditional revalidation
+	etag?: string;
+	lastModified?: string;
+	// Set when a conditional request returned 304 Not Modified
+	notModified?: boolean;
 }
 
 // Puppeteer page content result
@@ -43,6 +229,8 @@ export interface CrawledPage {
 	url: string;
 	title?: string;
 	snippet?: string;
+	// Tables found by Crawl4AI's table extraction
+	tables?: ExtractedTable[];
 }
 
 // Meta information for output
@@ -77,10 +265,18 @@ export interface WebAccessResultJson {
 	meta?: WebAccessMeta;
 }
 
+// LLM price per 1M tokens, in USD
+export interface ModelPricing {
+	input: number;
+	output: number;
+}
+
 // OpenAI-compatible API configuration
 export interface OpenAIConfig {
 	apiKey: string;
 	baseUrl: string;
+	// Price overrides keyed by (partial) model name
+	modelPricing?: Record<string, ModelPricing>;
 }
 
 // Processing context passed to processUrl
@@ -94,6 +290,23 @@ export interface ProcessUrlContext {
 	crawl4aiBaseUrl: string;
 	openAiConfig?: OpenAIConfig;
 	flareSolverrUrl?: string;
+	maxCrawlPages?: number;
+	// Contact pages to check when the page lacks the requested contact details; 0 disables
+	maxContactPages?: number;
+	outputSchema?: JsonSchema;
+	// Format of the page's main content in data.content
+	outputFormat?: OutputFormat;
+	toolCalling?: ToolCallingMode;
+	politeness?: PolitenessOptions;
+	cache?: CacheOptions;
+	// Proxies for requests to the target site
+	proxyPool?: ProxyPool;
+	// Custom headers and cookies, shared by every fetch in the execution
+	session?: RequestSession;
+	// Log of LLM calls made for this URL, shared across operation fallbacks
+	llmUsage?: LlmCallUsage[];
+	// LLM budget caps and usage for the current item
+	budget?: LlmBudget;
 }
 
 // Internal processing result (includes optional binary)
@@ -118,13 +331,47 @@ export interface FetchContentData {
 	rawAnswer?: string;
 }
 
+// Social network a profile belongs to
+export type SocialPlatform =
+	| 'facebook'
+	| 'x'
+	| 'linkedin'
+	| 'instagram'
+	| 'youtube'
+	| 'tiktok'
+	| 'pinterest'
+	| 'github'
+	| 'xing'
+	| 'threads';
+
+// Social media profile of the site's owner
+export interface SocialProfile {
+	platform: SocialPlatform;
+	// Profile URL, normalized to https without query or fragment
+	url: string;
+	// Account name from the URL, e.g. "acme" or "company/acme"
+	handle: string;
+}
+
+// Contact details found on one page
+export interface ContactPageData {
+	url: string;
+	emails: string[];
+	// E.164 phone numbers
+	phones: string[];
+	addresses: string[];
+	socialProfiles: SocialProfile[];
+}
+
 // crawl operation data shapes
 export interface CrawlEmailData {
 	emails: string[];
-	pages: Array<{
-		url: string;
-		emails: string[];
-	}>;
+	// E.164 phone numbers
+	phones: string[];
+	addresses: string[];
+	socialProfiles: SocialProfile[];
+	// Pages that had contact details, in visiting order
+	pages: ContactPageData[];
 }
 
 export interface CrawlProductData {
@@ -132,9 +379,49 @@ export interface CrawlProductData {
 	sourcePages: string[];
 }
 
+// Screenshot image formats supported by Puppeteer
+export type ScreenshotFormat = 'png' | 'jpeg' | 'webp';
+
+// Screenshot capture options
+export interface ScreenshotOptions {
+	format?: ScreenshotFormat;
+	quality?: number;
+	fullPage?: boolean;
+	viewportWidth?: number;
+	viewportHeight?: number;
+	selector?: string;
+	device?: string;
+}
+
+// Puppeteer screenshot result
+export interface PuppeteerScreenshot {
+	buffer: Buffer;
+	viewport: { width: number; height: number };
+}
+
 // screenshot data shape
 export interface ScreenshotData {
 	fullPage: boolean;
+	format: ScreenshotFormat;
+	mimeType: string;
+	fileSize: number;
+	viewport: { width: number; height: number };
+	selector?: string;
+	device?: string;
+}
+
+// Asset types for download
+export type AssetType = 'pdf' | 'image' | 'csv';
+
+// Metadata for a single downloaded asset
+export interface DownloadedAsset {
+	url: string;
+	fileName: string;
+	mimeType: string;
+	size: number;
+	assetType: AssetType;
+	sourcePage: string;
+	binaryProperty?: string;
 }
 
 // downloadAssets data shape
@@ -142,21 +429,139 @@ export interface DownloadAssetsData {
 	assetsCount: number;
 	assetType: string;
 	zipped: boolean;
+	assets: DownloadedAsset[];
+	failed: Array<{ url: string; error: string }>;
 }
 
-// Asset types for download
-export type AssetType = 'pdf' | 'image' | 'csv';
+// downloadAssets options
+export interface DownloadAssetsOptions {
+	assetTypes?: AssetType[];
+	maxAssets?: number;
+	outputMode?: 'zip' | 'separate';
+	binaryPropertyName?: string;
+	flareSolverrUrl?: string;
+	politeness?: PolitenessOptions;
+	cache?: CacheOptions;
+	proxyPool?: ProxyPool;
+	session?: RequestSession;
+}
 
 // HTTP fetch options
 export interface HttpFetchOptions {
 	timeout?: number;
 	userAgent?: string;
+	proxy?: ProxyEndpoint;
+	// Custom headers and cookies; Set-Cookie responses are stored in its jar
+	session?: RequestSession;
+	// Extra cookies for the URL's site, e.g. a replayed challenge clearance
+	cookies?: SessionCookie[];
+	// Validators of a cached copy, sent as If-None-Match / If-Modified-Since
+	ifNoneMatch?: string;
+	ifModifiedSince?: string;
+}
+
+// FlareSolverr fetch options
+export interface FlareSolverrOptions {
+	maxTimeout?: number;
+	// Ignored when a FlareSolverr session is used; the session keeps its own proxy
+	proxy?: ProxyEndpoint;
+	// Cookies to send and the jar to store the solved page's cookies in
+	session?: RequestSession;
+	// FlareSolverr browser session to reuse (from sessions.create)
+	sessionId?: string;
 }
 
 // Puppeteer options
 export interface PuppeteerOptions {
 	timeout?: number;
 	waitUntil?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
+	userAgent?: string;
+	proxy?: ProxyEndpoint;
+	// Custom headers and cookies; the page's cookies are stored in its jar
+	session?: RequestSession;
+}
+
+// A cookie in the browser / FlareSolverr shape, as kept in the session cookie jar
+export interface SessionCookie {
+	name: string;
+	value: string;
+	// A leading dot marks a domain cookie that also applies to subdomains
+	domain: string;
+	path: string;
+	// Expiry in epoch seconds, -1 for session cookies
+	expires: number;
+	httpOnly: boolean;
+	secure: boolean;
+}
+
+// Proxy settings from the Web Access API credential
+export interface ProxyConfig {
+	mode: 'none' | 'single' | 'rotating';
+	// Proxy URL for single mode, e.g. http://host:8080 or socks5://host:1080
+	url?: string;
+	// Proxy URLs for rotating mode
+	list?: string[];
+	rotation?: 'roundRobin' | 'random' | 'stickyPerDomain';
+	// Used for proxies whose URL has no credentials
+	username?: string;
+	password?: string;
+}
+
+// A single parsed proxy
+export interface ProxyEndpoint {
+	protocol: 'http' | 'https' | 'socks5';
+	host: string;
+	port: number;
+	username?: string;
+	password?: string;
+	// protocol://host:port, safe to log (no credentials)
+	label: string;
+}
+
+// Politeness options applied to every request made while acquiring content
+export interface PolitenessOptions {
+	// Check robots.txt Disallow rules and honor Crawl-delay (default true)
+	respectRobotsTxt?: boolean;
+	// Token bucket refill rate per host
+	requestsPerSecond?: number;
+	// Requests per host that may be sent without waiting
+	burst?: number;
+	// User agent sent with requests and matched against robots.txt groups
+	userAgent?: string;
+}
+
+// Content cache options
+export interface CacheOptions {
+	// Where cached pages are stored ('none' disables the cache)
+	backend?: 'none' | 'memory' | 'filesystem';
+	// Seconds a cached page is used without contacting the site
+	ttl?: number;
+	// Subdirectory of the cache root (WEBACCESS_CACHE_DIR) for the filesystem backend
+	subdirectory?: string;
+	// Revalidate expired pages with ETag / Last-Modified instead of refetching (default true)
+	revalidate?: boolean;
+}
+
+// Run script options
+export interface RunScriptOptions {
+	waitForSelector?: string;
+	scriptTimeout?: number;
+	maxScriptSize?: number;
+	maxResultSize?: number;
+}
+
+// Login script options
+export interface LoginScriptOptions {
+	// Selector that appears once logged in; without it the network going idle ends the login
+	successSelector?: string;
+	scriptTimeout?: number;
+}
+
+// Error raised by a user script in the page context
+export interface ScriptError {
+	name: string;
+	message: string;
+	stack?: string;
 }
 
 // Crawl4AI query options